@@ -28,6 +28,11 @@ const technicalDebateConfig = {
 const quickDebateConfig = {
   topic: "What is the best programming language for beginners?",
   models: ["deepseek", "deepseek"], // 使用相同模型降低成本
+  // 同一模型扮演不同角色，回答按参与者区分
+  participants: [
+    { id: "advocate", name: "Advocate", model: "deepseek", persona: "You argue for the language that is easiest to start with.", temperature: 0.9 },
+    { id: "skeptic", name: "Skeptic", model: "deepseek", persona: "You question popular choices and point out long-term drawbacks.", temperature: 0.5 }
+  ],
   maxRounds: 3,
   convergenceThreshold: 0.7,
   moderatorModel: "deepseek",
@@ -4,22 +4,72 @@ import ReactMarkdown from 'react-markdown';
 
 interface AgentResponse {
   model: string;
+  participantId?: string;
+  participantName?: string;
   content: string;
   timestamp: string;
   error?: string;
   id?: string;
 }
 
+interface ConvergenceMetrics {
+  similarity: number;
+  novelty: number;
+  stanceAgreement: number;
+  score: number;
+}
+
 interface ConvergenceAssessment {
   isConverged: boolean;
   confidenceScore: number;
   reasoning: string;
+  metrics?: ConvergenceMetrics;
+  judges?: { model: string; isConverged: boolean; confidenceScore: number; reasoning: string; failed?: boolean }[];
 }
 
+// Bars of the per-round convergence chart
+const METRIC_BARS: { key: keyof ConvergenceMetrics; label: string; color: string }[] = [
+  { key: 'similarity', label: 'Similarity', color: 'bg-blue-400' },
+  { key: 'novelty', label: 'Novelty', color: 'bg-yellow-400' },
+  { key: 'stanceAgreement', label: 'Agreement', color: 'bg-green-400' },
+  { key: 'score', label: 'Score', color: 'bg-primary' },
+];
+
 interface DebateRound {
   roundNumber: number;
   responses: AgentResponse[];
   convergenceCheck?: ConvergenceAssessment;
+  guidance?: ModeratorGuidance;
+  judgeSplit?: string;  // Where the judges of a moderator panel disagreed
+}
+
+interface ModeratorGuidance {
+  disagreements: string[];
+  questions: string[];
+}
+
+// The final answer as a typed object; the summary bubble shows the Markdown rendered from it
+interface StructuredSynthesis {
+  executiveSummary: string;
+  consensus: string[];
+  disagreements: { issue: string; sides: { position: string; participants: string[] }[] }[];
+  minorityPositions: { participant: string; position: string }[];
+  nextSteps: string[];
+  confidence: number;
+}
+
+// The agents' review of the final answer; approve_with_edits and object led to one revision
+interface RatificationBallot {
+  participantName: string;
+  model: string;
+  vote?: 'approve' | 'approve_with_edits' | 'object';  // Missing if the agent abstained
+  corrections: string[];
+  reasoning: string;
+}
+
+interface Ratification {
+  ballots: RatificationBallot[];
+  originalAnswer?: string;  // Set if the answer was revised after the ballots
 }
 
 interface DebateSession {
@@ -28,37 +78,108 @@ interface DebateSession {
   status: string;
   rounds: DebateRound[];
   finalAnswer?: string;
+  synthesis?: StructuredSynthesis;
+  citations?: { cited: string[]; unknown: string[] };
+  ratification?: Ratification;
   convergenceAssessment?: ConvergenceAssessment;
+  cancellationReason?: string;
 }
 
 interface ChatBubbleData {
   id: string;
-  type: 'user' | 'agent' | 'summary';
+  type: 'user' | 'agent' | 'summary' | 'guidance';
   author: string;
+  speakerId?: string;   // Participant id of agent bubbles; one model may speak as several participants
+  responseRef?: string; // Reference id the final answer cites an agent bubble by, e.g. R2-gpt-5
   content: string;
   timestamp: string;
   roundNumber?: number;
   collapsed?: boolean;
   convergenceCheck?: ConvergenceAssessment;
+  ratification?: Ratification;  // Summary bubbles of a ratified answer
+  streaming?: boolean;
+  streamAttempt?: number;
+}
+
+interface UsageTotals {
+  calls: number;
+  totalTokens: number;
+  cost: number;
+}
+
+interface AgentDelta {
+  model: string;
+  participantId: string;
+  participantName: string;
+  roundNumber: number;
+  attempt: number;
+  delta: string;
+}
+
+interface ModelInfo {
+  id: string;
+  provider: string;
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  pricing?: { inputPerMillion: number; outputPerMillion: number };
 }
 
-const AVAILABLE_MODELS = [
+// Shown until /api/models answers
+const FALLBACK_MODELS: ModelInfo[] = [
   'deepseek',
   'supermind-agent-v1',
   'gemini-2.5-pro',
   'gpt-5',
   'grok-4-fast'
-];
+].map(id => ({ id, provider: 'ai-builder' }));
+
+const describeModel = (model: ModelInfo) => [
+  model.contextWindow && `${model.contextWindow.toLocaleString()} token context`,
+  model.maxOutputTokens && `${model.maxOutputTokens.toLocaleString()} max output`,
+  model.pricing && `$${model.pricing.inputPerMillion} / $${model.pricing.outputPerMillion} per 1M tokens`
+].filter(Boolean).join(' · ') || model.id;
+
+// "Ratified by 3/4 agents": approvals with or without edits, out of every agent asked
+const describeRatification = (ratification: Ratification) => {
+  const ratified = ratification.ballots.filter(ballot => ballot.vote === 'approve' || ballot.vote === 'approve_with_edits');
+  return `Ratified by ${ratified.length}/${ratification.ballots.length} agents`;
+};
+
+// Citations of the final answer, e.g. [R2-gpt-5] or [R1-deepseek, R2-gpt-5]
+const CITATION_PATTERN = /\[(R\d+-[^\s[\],;]+(?:\s*[,;]\s*R\d+-[^\s[\],;]+)*)\]/g;
+const CITATION_HREF = '#cite-';
+
+// Turns citations of known responses into Markdown links; unknown ones stay plain text
+const linkCitations = (markdown: string, isKnown: (ref: string) => boolean) =>
+  markdown.replace(CITATION_PATTERN, (_, refs: string) => refs.split(/\s*[,;]\s*/)
+    .map(ref => isKnown(ref) ? `[${ref}](${CITATION_HREF}${encodeURIComponent(ref)})` : `\\[${ref}\\]`)
+    .join(', '));
+
+const responseAnchor = (ref: string) => `response-${ref}`;
 
 function App() {
   const [topic, setTopic] = useState('What are the benefits of functional programming?');
   const [selectedModels, setSelectedModels] = useState<string[]>(['deepseek', 'gemini-2.5-pro']);
   const [maxRounds, setMaxRounds] = useState(5);
+  const [turnOrder, setTurnOrder] = useState('parallel');
+  const [contextMode, setContextMode] = useState('full');
+  const [moderatorSteering, setModeratorSteering] = useState(false);
+  const [structuredSynthesis, setStructuredSynthesis] = useState(false);
+  const [synthesisStrategy, setSynthesisStrategy] = useState('auto');
+  const [ratification, setRatification] = useState(false);
+  // Manual runs pause after every round until resumed or stepped
+  const [manualRun, setManualRun] = useState(false);
+  const [convergencePolicy, setConvergencePolicy] = useState('llm');
+  // Two or more judges form a moderator panel instead of the single moderator model
+  const [judgeModels, setJudgeModels] = useState<string[]>([]);
+  const [judgeAggregation, setJudgeAggregation] = useState('majority');
   const [convergenceThreshold, setConvergenceThreshold] = useState(0.8);
   const [moderatorModel, setModeratorModel] = useState('deepseek');
   const [synthesizerModel, setSynthesizerModel] = useState('deepseek');
+  const [availableModels, setAvailableModels] = useState<ModelInfo[]>(FALLBACK_MODELS);
 
   const [isDebating, setIsDebating] = useState(false);
+  const [pauseRequested, setPauseRequested] = useState(false);
   const [session, setSession] = useState<DebateSession | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isConfigCollapsed, setIsConfigCollapsed] = useState(false);
@@ -68,6 +189,10 @@ function App() {
 
   // Continuation state
   const [continuationInput, setContinuationInput] = useState('');
+  const [continuationRounds, setContinuationRounds] = useState(3);
+
+  // Token usage reported with round and completion events
+  const [usage, setUsage] = useState<UsageTotals | null>(null);
 
   // Auto-scroll ref
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -80,10 +205,21 @@ function App() {
     scrollToBottom();
   }, [chatHistory, session?.finalAnswer]);
 
+  useEffect(() => {
+    fetch('/api/models')
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(res.statusText)))
+      .then((models: ModelInfo[]) => {
+        if (models.length > 0) setAvailableModels(models);
+      })
+      .catch(err => console.error('Failed to load models', err));
+  }, []);
+
   const startDebate = async () => {
     setIsDebating(true);
+    setPauseRequested(false);
     setError(null);
     setSession(null);
+    setUsage(null);
     setChatHistory([{
       id: uuidv4(),
       type: 'user',
@@ -103,9 +239,18 @@ function App() {
           topic,
           models: selectedModels,
           maxRounds,
+          turnOrder,
+          runMode: manualRun ? 'manual' : 'auto',
+          contextStrategy: { mode: contextMode },
           convergenceThreshold,
+          convergencePolicy: { mode: convergencePolicy },
           moderatorModel,
-          synthesizerModel
+          ...(judgeModels.length >= 2 ? { moderatorModels: judgeModels, judgeAggregation } : {}),
+          moderatorSteering,
+          synthesizerModel,
+          structuredSynthesis,
+          synthesisStrategy,
+          ratification
         })
       });
 
@@ -140,12 +285,13 @@ function App() {
 
     setChatHistory(prev => [...prev, userMsg]);
     setIsDebating(true);
+    setPauseRequested(false);
 
     try {
       const res = await fetch(`/api/debate/${session.id}/continue`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ instructions: continuationInput })
+        body: JSON.stringify({ instructions: continuationInput, additionalRounds: continuationRounds })
       });
 
       if (!res.ok) {
@@ -161,6 +307,51 @@ function App() {
     }
   };
 
+  const stopDebate = async () => {
+    if (!session) return;
+
+    try {
+      const res = await fetch(`/api/debate/${session.id}/cancel`, { method: 'POST' });
+      if (!res.ok) {
+        throw new Error(await res.text());
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stop debate');
+    }
+  };
+
+  const pauseDebate = async () => {
+    if (!session) return;
+
+    try {
+      const res = await fetch(`/api/debate/${session.id}/pause`, { method: 'POST' });
+      if (!res.ok) {
+        throw new Error(await res.text());
+      }
+      setPauseRequested(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to pause debate');
+    }
+  };
+
+  // Runs a paused debate on, to the end (resume) or for one round (step)
+  const proceedDebate = async (action: 'resume' | 'step') => {
+    if (!session) return;
+
+    setIsDebating(true);
+    setPauseRequested(false);
+    try {
+      const res = await fetch(`/api/debate/${session.id}/${action}`, { method: 'POST' });
+      if (!res.ok) {
+        throw new Error(await res.text());
+      }
+      connectToStream(session.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} debate`);
+      setIsDebating(false);
+    }
+  };
+
   const connectToStream = (sessionId: string) => {
     const eventSource = new EventSource(`/api/debate/${sessionId}/stream`);
 
@@ -170,37 +361,105 @@ function App() {
       if (message.type === 'init') {
         const sess = message.session;
         setSession(sess);
-      } else if (message.type === 'agent_response') {
-        const response = message.response;
+      } else if (message.type === 'agent_delta') {
+        const delta: AgentDelta = message.delta;
         setChatHistory(prev => {
-          if (prev.some(m => m.content === response.content && m.author === response.model)) {
+          const idx = prev.findIndex(m => m.streaming && m.speakerId === delta.participantId && m.roundNumber === delta.roundNumber);
+          if (idx === -1) {
+            return [...prev, {
+              id: uuidv4(),
+              type: 'agent',
+              author: delta.participantName,
+              speakerId: delta.participantId,
+              content: delta.delta,
+              timestamp: new Date().toISOString(),
+              roundNumber: delta.roundNumber,
+              streaming: true,
+              streamAttempt: delta.attempt
+            }];
+          }
+          const bubble = prev[idx];
+          // A new attempt means the previous partial answer was discarded by a retry
+          const content = bubble.streamAttempt === delta.attempt ? bubble.content + delta.delta : delta.delta;
+          const next = [...prev];
+          next[idx] = { ...bubble, content, streamAttempt: delta.attempt };
+          return next;
+        });
+      } else if (message.type === 'agent_response' || message.type === 'agent_failed') {
+        const response: AgentResponse = message.response;
+        const speakerId = response.participantId ?? response.model;
+        setChatHistory(prev => {
+          const streamingIdx = prev.findIndex(m => m.streaming && m.speakerId === speakerId);
+          if (streamingIdx !== -1) {
+            const next = [...prev];
+            next[streamingIdx] = {
+              ...next[streamingIdx],
+              content: response.error ? `Error: ${response.error}` : response.content,
+              timestamp: response.timestamp,
+              responseRef: message.ref,
+              streaming: false
+            };
+            return next;
+          }
+          if (prev.some(m => m.content === response.content && m.speakerId === speakerId)) {
             return prev;
           }
           return [...prev, {
             id: uuidv4(),
             type: 'agent',
-            author: response.model,
+            author: response.participantName ?? response.model,
+            speakerId,
+            responseRef: message.ref,
             content: response.content,
             timestamp: response.timestamp,
           }];
         });
-      } else if (message.type === 'round') {
+      } else if (message.type === 'round_completed' || message.type === 'convergence_evaluated') {
+        if (message.usage) setUsage(message.usage);
+        // A round is sent again once its convergence check is in; the later copy replaces the earlier one
+        const round: DebateRound = { ...message.round, judgeSplit: message.judgeSplit };
         setSession(prev => {
           if (!prev) return null;
-          const existingRound = prev.rounds.find(r => r.roundNumber === message.round.roundNumber);
-          if (existingRound) return prev;
+          const existingRound = prev.rounds.find(r => r.roundNumber === round.roundNumber);
           return {
             ...prev,
-            rounds: [...prev.rounds, message.round]
+            rounds: existingRound
+              ? prev.rounds.map(r => r.roundNumber === round.roundNumber ? round : r)
+              : [...prev.rounds, round]
           };
         });
-      } else if (message.type === 'complete') {
+
+        // Steering for the next round is shown between the rounds
+        if (message.type === 'convergence_evaluated' && message.guidance) {
+          const guidance: ModeratorGuidance = message.guidance;
+          setChatHistory(prev => [...prev, {
+            id: uuidv4(),
+            type: 'guidance',
+            author: 'Moderator',
+            content: [
+              ...(guidance.disagreements.length > 0
+                ? ['**Main points of disagreement**', ...guidance.disagreements.map(point => `- ${point}`), '']
+                : []),
+              `**Questions for round ${round.roundNumber + 1}**`,
+              ...guidance.questions.map((question, i) => `${i + 1}. ${question}`)
+            ].join('\n'),
+            timestamp: new Date().toISOString(),
+            roundNumber: round.roundNumber
+          }]);
+        }
+      } else if (message.type === 'ratification_completed') {
+        setSession(prev => prev ? { ...prev, ratification: message.ratification } : null);
+      } else if (message.type === 'completed') {
+        if (message.usage) setUsage(message.usage);
         setSession(prev => {
           if (!prev) return null;
           return {
             ...prev,
-            status: 'completed',
+            status: message.status || 'completed',
             finalAnswer: message.finalAnswer,
+            synthesis: message.synthesis,
+            citations: message.citations,
+            ratification: message.ratification,
             convergenceAssessment: message.convergenceAssessment
           };
         });
@@ -222,10 +481,23 @@ function App() {
             author: 'Moderator',
             content: message.finalAnswer,
             timestamp: new Date().toISOString(),
-            convergenceCheck: message.convergenceAssessment
+            convergenceCheck: message.convergenceAssessment,
+            ratification: message.ratification
           }];
         });
 
+        eventSource.close();
+        setIsDebating(false);
+      } else if (message.type === 'paused') {
+        if (message.usage) setUsage(message.usage);
+        setSession(prev => prev ? { ...prev, status: 'paused' } : null);
+        eventSource.close();
+        setIsDebating(false);
+      } else if (message.type === 'cancelled') {
+        if (message.usage) setUsage(message.usage);
+        setSession(prev => prev ? { ...prev, status: 'cancelled', cancellationReason: message.reason } : null);
+        // Partial answers of the interrupted round stay visible but stop streaming
+        setChatHistory(prev => prev.map(msg => msg.streaming ? { ...msg, streaming: false } : msg));
         eventSource.close();
         setIsDebating(false);
       } else if (message.type === 'error') {
@@ -266,6 +538,14 @@ function App() {
     });
   };
 
+  // Expands the cited response if its round was collapsed, then scrolls to it
+  const openCitation = (ref: string) => {
+    setChatHistory(prev => prev.map(msg => msg.responseRef === ref && msg.collapsed ? { ...msg, collapsed: false } : msg));
+    setTimeout(() => document.getElementById(responseAnchor(ref))?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 0);
+  };
+
+  const isCitedResponse = (ref: string) => chatHistory.some(msg => msg.responseRef === ref);
+
   return (
     <div className="min-h-screen bg-background text-primary p-4 md:p-8 font-sans">
       <header className="mb-8 text-center pt-10">
@@ -321,16 +601,17 @@ function App() {
               <div>
                 <label className="block text-sm text-secondary mb-2">Participating Models</label>
                 <div className="grid grid-cols-2 gap-2">
-                  {AVAILABLE_MODELS.map(model => (
+                  {availableModels.map(info => (
                     <button
-                      key={model}
-                      onClick={() => toggleModel(model)}
-                      className={`p-2 text-xs rounded transition-colors ${selectedModels.includes(model)
+                      key={info.id}
+                      title={describeModel(info)}
+                      onClick={() => toggleModel(info.id)}
+                      className={`p-2 text-xs rounded transition-colors ${selectedModels.includes(info.id)
                         ? 'bg-primary text-white'
                         : 'bg-white/50 text-secondary hover:bg-secondary/10'
                         }`}
                     >
-                      {model}
+                      {info.id}
                     </button>
                   ))}
                 </div>
@@ -357,6 +638,33 @@ function App() {
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-secondary mb-1">Turn Order</label>
+                  <select
+                    value={turnOrder}
+                    onChange={e => setTurnOrder(e.target.value)}
+                    className="w-full bg-white/50 border border-secondary/30 rounded p-2 text-xs text-primary"
+                  >
+                    <option value="parallel">Parallel (everyone answers at once)</option>
+                    <option value="sequential">Sequential (see earlier answers in the round)</option>
+                    <option value="round_robin_rotating">Rotating (sequential, order rotates each round)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-secondary mb-1">Context</label>
+                  <select
+                    value={contextMode}
+                    onChange={e => setContextMode(e.target.value)}
+                    className="w-full bg-white/50 border border-secondary/30 rounded p-2 text-xs text-primary"
+                  >
+                    <option value="full">Full history</option>
+                    <option value="last_n">Last 2 rounds</option>
+                    <option value="rolling_summary">Rolling summaries</option>
+                  </select>
+                </div>
+              </div>
+
               <div className="grid grid-cols-1 gap-4">
                 <div>
                   <label className="block text-sm text-secondary mb-1">Moderator & Synthesizer</label>
@@ -366,16 +674,97 @@ function App() {
                       onChange={e => setModeratorModel(e.target.value)}
                       className="w-1/2 bg-white/50 border border-secondary/30 rounded p-2 text-xs text-primary"
                     >
-                      {AVAILABLE_MODELS.map(m => <option key={m} value={m}>Mod: {m}</option>)}
+                      {availableModels.map(({ id: m }) => <option key={m} value={m}>Mod: {m}</option>)}
                     </select>
                     <select
                       value={synthesizerModel}
                       onChange={e => setSynthesizerModel(e.target.value)}
                       className="w-1/2 bg-white/50 border border-secondary/30 rounded p-2 text-xs text-primary"
                     >
-                      {AVAILABLE_MODELS.map(m => <option key={m} value={m}>Syn: {m}</option>)}
+                      {availableModels.map(({ id: m }) => <option key={m} value={m}>Syn: {m}</option>)}
                     </select>
                   </div>
+                  <label className="block text-xs text-secondary mt-3 mb-1">Judge panel (pick two or more to replace the moderator)</label>
+                  <div className="flex flex-wrap gap-1">
+                    {availableModels.map(({ id: m }) => (
+                      <button
+                        key={m}
+                        onClick={() => setJudgeModels(prev => prev.includes(m) ? prev.filter(j => j !== m) : [...prev, m])}
+                        className={`px-2 py-1 text-[10px] rounded transition-colors ${judgeModels.includes(m)
+                          ? 'bg-primary text-white'
+                          : 'bg-white/50 text-secondary hover:bg-secondary/10'
+                          }`}
+                      >
+                        {m}
+                      </button>
+                    ))}
+                  </div>
+                  {judgeModels.length >= 2 && (
+                    <select
+                      value={judgeAggregation}
+                      onChange={e => setJudgeAggregation(e.target.value)}
+                      className="w-full mt-2 bg-white/50 border border-secondary/30 rounded p-2 text-xs text-primary"
+                    >
+                      <option value="majority">Judges: majority vote</option>
+                      <option value="unanimous">Judges: unanimous</option>
+                      <option value="mean_confidence">Judges: mean confidence</option>
+                    </select>
+                  )}
+                  <select
+                    value={convergencePolicy}
+                    onChange={e => setConvergencePolicy(e.target.value)}
+                    className="w-full mt-2 bg-white/50 border border-secondary/30 rounded p-2 text-xs text-primary"
+                  >
+                    <option value="llm">Convergence: moderator verdict</option>
+                    <option value="metrics">Convergence: local metrics only</option>
+                    <option value="weighted">Convergence: moderator and metrics, weighted</option>
+                  </select>
+                  <label className="flex items-center gap-2 mt-2 text-xs text-secondary">
+                    <input
+                      type="checkbox"
+                      checked={moderatorSteering}
+                      onChange={e => setModeratorSteering(e.target.checked)}
+                      className="accent-blue-500"
+                    />
+                    Moderator asks focused questions between rounds
+                  </label>
+                  <label className="flex items-center gap-2 mt-2 text-xs text-secondary">
+                    <input
+                      type="checkbox"
+                      checked={structuredSynthesis}
+                      onChange={e => setStructuredSynthesis(e.target.checked)}
+                      className="accent-blue-500"
+                    />
+                    Structured synthesis (consensus, disagreements, next steps)
+                  </label>
+                  <label className="flex items-center gap-2 mt-2 text-xs text-secondary">
+                    <input
+                      type="checkbox"
+                      checked={ratification}
+                      onChange={e => setRatification(e.target.checked)}
+                      className="accent-blue-500"
+                    />
+                    Agents ratify the final answer (approve or object)
+                  </label>
+                  <label className="flex items-center gap-2 mt-2 text-xs text-secondary">
+                    <input
+                      type="checkbox"
+                      checked={manualRun}
+                      onChange={e => setManualRun(e.target.checked)}
+                      className="accent-blue-500"
+                    />
+                    Manual: pause after every round until approved
+                  </label>
+                  <select
+                    value={synthesisStrategy}
+                    onChange={e => setSynthesisStrategy(e.target.value)}
+                    className="w-full mt-2 bg-white/50 border border-secondary/30 rounded p-2 text-xs text-primary"
+                  >
+                    <option value="auto">Synthesis: automatic by transcript size</option>
+                    <option value="single">Synthesis: whole transcript at once</option>
+                    <option value="by_round">Synthesis: summarize each round first</option>
+                    <option value="by_participant">Synthesis: summarize each participant first</option>
+                  </select>
                 </div>
               </div>
 
@@ -413,6 +802,45 @@ function App() {
               </div>
             ) : (
               <div className="space-y-6 pb-20">
+                {session?.rounds.some(r => r.convergenceCheck?.metrics) && (
+                  <div className="bg-white/50 border border-white/50 rounded-2xl p-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <span className="text-xs font-bold tracking-wide uppercase text-secondary">Convergence per round</span>
+                      <div className="flex gap-3">
+                        {METRIC_BARS.map(bar => (
+                          <span key={bar.key} className="flex items-center gap-1 text-[10px] text-secondary">
+                            <span className={`w-2 h-2 rounded-sm ${bar.color}`} />{bar.label}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-end gap-4 h-20">
+                      {session.rounds.filter(r => r.convergenceCheck?.metrics).map(r => (
+                        <div key={r.roundNumber} className="flex flex-col items-center gap-1">
+                          <div className="flex items-end gap-0.5 h-16">
+                            {METRIC_BARS.map(bar => {
+                              const value = r.convergenceCheck!.metrics![bar.key];
+                              return (
+                                <div
+                                  key={bar.key}
+                                  title={`${bar.label}: ${value.toFixed(2)}`}
+                                  className={`w-2 rounded-t-sm ${bar.color}`}
+                                  style={{ height: `${Math.max(value * 100, 2)}%` }}
+                                />
+                              );
+                            })}
+                          </div>
+                          <span className="text-[10px] font-mono text-secondary">R{r.roundNumber}</span>
+                        </div>
+                      ))}
+                    </div>
+                    {session.rounds.filter(r => r.judgeSplit).map(r => (
+                      <div key={r.roundNumber} className="mt-2 text-[11px] text-yellow-600">
+                        Round {r.roundNumber}: {r.judgeSplit}
+                      </div>
+                    ))}
+                  </div>
+                )}
                 {chatHistory.map((bubble, idx) => {
                   if (bubble.type === 'summary') {
                     // Determine if we need to show a "Show Details" button for *previous* collapsed messages
@@ -429,7 +857,20 @@ function App() {
                         </div>
 
                         <div className="prose prose-blue max-w-none text-primary/80 leading-relaxed font-medium mb-6">
-                          <ReactMarkdown>{bubble.content}</ReactMarkdown>
+                          <ReactMarkdown
+                            components={{
+                              a: ({ href, children }) => href?.startsWith(CITATION_HREF) ? (
+                                <button
+                                  onClick={() => openCitation(decodeURIComponent(href.slice(CITATION_HREF.length)))}
+                                  className="text-[11px] font-mono text-secondary underline decoration-dotted hover:text-primary"
+                                >
+                                  {children}
+                                </button>
+                              ) : <a href={href}>{children}</a>
+                            }}
+                          >
+                            {linkCitations(bubble.content, isCitedResponse)}
+                          </ReactMarkdown>
                         </div>
 
                         <div className="flex flex-col sm:flex-row gap-6 text-sm border-t border-gray-800/50 pt-6">
@@ -456,6 +897,31 @@ function App() {
                               <span className="text-xs font-mono">{(bubble.convergenceCheck.confidenceScore * 100).toFixed(0)}%</span>
                             </div>
                           )}
+
+                          {bubble.ratification && (
+                            <div
+                              title={bubble.ratification.ballots.map(ballot =>
+                                `${ballot.participantName}: ${ballot.vote ?? 'abstained'}${ballot.corrections.length > 0 ? ` (${ballot.corrections.join('; ')})` : ''}`
+                              ).join('\n')}
+                              className="flex items-center gap-2 px-3 py-1.5 rounded-full w-fit border bg-blue-500/10 border-blue-500/20 text-blue-500"
+                            >
+                              <span className="font-medium text-xs uppercase tracking-wider">{describeRatification(bubble.ratification)}</span>
+                              {bubble.ratification.originalAnswer !== undefined && (
+                                <span className="text-xs">· revised</span>
+                              )}
+                            </div>
+                          )}
+
+                          {usage && (
+                            <div className="flex items-center gap-2 text-secondary">
+                              <span className="text-xs uppercase tracking-wider font-medium">Usage</span>
+                              <span className="text-xs font-mono">{usage.totalTokens.toLocaleString()} tokens · ${usage.cost.toFixed(4)}</span>
+                            </div>
+                          )}
+
+                          {session?.status === 'budget_exhausted' && (
+                            <span className="text-xs uppercase tracking-wider font-medium text-yellow-500">Budget exhausted</span>
+                          )}
                         </div>
                       </div>
                     );
@@ -523,7 +989,11 @@ function App() {
                             <span>Collapse {count} messages</span>
                           </button>
                         </div>
-                        <div key={bubble.id} className={`flex ${bubble.type === 'user' ? 'justify-end' : 'justify-start'} animate-slide-up`}>
+                        <div
+                          key={bubble.id}
+                          id={bubble.responseRef && responseAnchor(bubble.responseRef)}
+                          className={`flex ${bubble.type === 'user' ? 'justify-end' : 'justify-start'} animate-slide-up`}
+                        >
                           {/* Avatar Placeholder for Agents (Fixed) */}
                           {bubble.type !== 'user' && (
                             <div className="w-8 h-8 rounded-full bg-accent/30 border border-white/40 flex items-center justify-center mr-3 mt-1 shrink-0">
@@ -552,9 +1022,31 @@ function App() {
                   }
 
 
+                  if (bubble.type === 'guidance') {
+                    return (
+                      <div key={bubble.id} className="mx-auto max-w-[85%] bg-accent/10 border border-accent/30 rounded-2xl p-5 animate-fade-in">
+                        <div className="flex justify-between items-center mb-2 gap-4">
+                          <span className="text-xs font-bold tracking-wide uppercase text-secondary">
+                            Moderator guidance after round {bubble.roundNumber}
+                          </span>
+                          <span className="text-[10px] opacity-40 font-mono">
+                            {new Date(bubble.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                        </div>
+                        <div className="prose prose-sm max-w-none leading-relaxed font-medium text-primary/80">
+                          <ReactMarkdown>{bubble.content}</ReactMarkdown>
+                        </div>
+                      </div>
+                    );
+                  }
+
                   // Normal Message Render
                   return (
-                    <div key={bubble.id} className={`flex ${bubble.type === 'user' ? 'justify-end' : 'justify-start'} animate-slide-up`}>
+                    <div
+                      key={bubble.id}
+                      id={bubble.responseRef && responseAnchor(bubble.responseRef)}
+                      className={`flex ${bubble.type === 'user' ? 'justify-end' : 'justify-start'} animate-slide-up`}
+                    >
                       {/* Avatar Placeholder for Agents */}
                       {bubble.type !== 'user' && (
                         <div className="w-8 h-8 rounded-full bg-accent/30 border border-white/40 flex items-center justify-center mr-3 mt-1 shrink-0">
@@ -590,6 +1082,46 @@ function App() {
                       <div className="w-1.5 h-1.5 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
                     </div>
                     <span className="font-light tracking-wide">Agents are deliberating...</span>
+                    {usage && <span className="text-xs font-mono opacity-60">{usage.totalTokens.toLocaleString()} tokens</span>}
+                    <button
+                      onClick={pauseDebate}
+                      disabled={!session || pauseRequested}
+                      title="Pause once the current round is done"
+                      className="ml-auto px-3 py-1 rounded-lg border border-secondary/40 text-secondary text-xs font-semibold hover:bg-white/60 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {pauseRequested ? 'Pausing...' : 'Pause'}
+                    </button>
+                    <button
+                      onClick={stopDebate}
+                      disabled={!session}
+                      className="px-3 py-1 rounded-lg border border-red-400/60 text-red-500 text-xs font-semibold hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Stop
+                    </button>
+                  </div>
+                )}
+
+                {!isDebating && session?.status === 'cancelled' && (
+                  <div className="text-sm text-yellow-600 pl-4 mt-4">
+                    Debate stopped: {session.cancellationReason || 'cancelled'}
+                  </div>
+                )}
+
+                {!isDebating && session?.status === 'paused' && (
+                  <div className="flex items-center gap-3 text-sm text-secondary pl-4 mt-4">
+                    <span>Paused after round {session.rounds.length}</span>
+                    <button
+                      onClick={() => proceedDebate('step')}
+                      className="ml-auto px-3 py-1 rounded-lg border border-secondary/40 text-secondary text-xs font-semibold hover:bg-white/60"
+                    >
+                      Next round
+                    </button>
+                    <button
+                      onClick={() => proceedDebate('resume')}
+                      className="px-3 py-1 rounded-lg bg-primary text-white text-xs font-semibold hover:bg-secondary"
+                    >
+                      Resume
+                    </button>
                   </div>
                 )}
 
@@ -607,6 +1139,13 @@ function App() {
                           placeholder="E.g., 'But what about the security implications?'"
                           className="flex-1 bg-white/80 border border-secondary/20 rounded-xl px-5 py-3.5 focus:ring-2 focus:ring-secondary/50 outline-none transition-all hover:bg-white text-sm text-primary placeholder-primary/40"
                         />
+                        <input
+                          type="number" min="1" max="10"
+                          value={continuationRounds}
+                          onChange={e => setContinuationRounds(Math.max(1, parseInt(e.target.value) || 1))}
+                          title="Additional rounds"
+                          className="w-16 bg-white/80 border border-secondary/20 rounded-xl px-3 py-3.5 text-sm text-primary outline-none"
+                        />
                         <button
                           onClick={continueDebate}
                           disabled={!continuationInput.trim()}
@@ -0,0 +1,131 @@
+/**
+ * Cancellation and timeout helpers built on AbortSignal
+ */
+
+import { DebateCancelledError, TimeoutError } from './errors';
+import { type ChatCallOptions, type ChatProvider, type ChatRequest, type ChatResponse } from './client';
+
+export interface LinkedSignal {
+  signal?: AbortSignal;
+  dispose(): void;            // Clears the timer and detaches from the parent signal
+}
+
+/**
+ * Derives a signal that aborts when the parent aborts or after timeoutMs, whichever comes first.
+ * Without a timeout the parent signal is returned unchanged.
+ */
+export function withTimeout(parent: AbortSignal | undefined, timeoutMs: number | undefined, label = 'Operation'): LinkedSignal {
+  if (!timeoutMs) {
+    return { signal: parent, dispose: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent!.reason);
+
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  const timer = setTimeout(
+    () => controller.abort(new TimeoutError(`${label} timed out after ${timeoutMs}ms`, timeoutMs)),
+    timeoutMs
+  );
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    }
+  };
+}
+
+/**
+ * Returns the reason a signal was aborted with, normalized to an Error
+ */
+export function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new DebateCancelledError();
+}
+
+/**
+ * Throws the abort reason if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+}
+
+/**
+ * Waits for the given time, rejecting early if the signal aborts
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settles with the promise, or rejects as soon as the signal aborts.
+ * Guarantees the abort is honored even by work that ignores the signal.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+
+    // Always observe the promise so a late rejection is never left unhandled
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
+
+/**
+ * Wraps a provider so that every call is aborted after timeoutMs (if set) or as soon as the caller's signal aborts
+ */
+export class CallTimeoutProvider implements ChatProvider {
+  private readonly inner: ChatProvider;
+  private readonly timeoutMs?: number;
+
+  constructor(inner: ChatProvider, timeoutMs?: number) {
+    this.inner = inner;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async chatCompletion(request: ChatRequest, options: ChatCallOptions = {}): Promise<ChatResponse> {
+    const linked = withTimeout(options.signal, this.timeoutMs, `Request to ${request.model}`);
+    try {
+      return await raceAbort(this.inner.chatCompletion(request, { ...options, signal: linked.signal }), linked.signal);
+    } finally {
+      linked.dispose();
+    }
+  }
+
+  getProviderNames(): string[] | undefined {
+    return this.inner.getProviderNames?.();
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Record/replay cassettes for chat completions
+ * Lets debates be recorded once against live providers and replayed offline and deterministically
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { parseModelId, DEFAULT_PROVIDER } from './providers';
+import {
+  type ChatCallOptions,
+  type ChatProvider,
+  type ChatRequest,
+  type ChatResponse,
+  type ModelMetadata
+} from './client';
+
+export const CASSETTE_VERSION = 1;
+
+export interface CassetteInteraction {
+  key: string;
+  request: ChatRequest;
+  response: ChatResponse;
+}
+
+export interface Cassette {
+  version: number;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Hashes the parts of a request that determine its response.
+ * Transport flags such as `stream` are left out so streamed and buffered calls share recordings.
+ */
+export function hashChatRequest(request: ChatRequest): string {
+  const canonical = JSON.stringify({
+    model: request.model,
+    messages: request.messages.map(message => ({ role: message.role, content: message.content })),
+    temperature: request.temperature ?? null,
+    max_tokens: request.max_tokens ?? null
+  });
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Loads a cassette file
+ * @throws Error if the file is missing or has an unsupported version
+ */
+export function loadCassette(filePath: string): Cassette {
+  if (!existsSync(filePath)) {
+    throw new Error(`Cassette file not found: ${filePath}`);
+  }
+
+  const cassette = JSON.parse(readFileSync(filePath, 'utf-8')) as Cassette;
+  if (cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.interactions)) {
+    throw new Error(`Unsupported cassette format in ${filePath} (expected version ${CASSETTE_VERSION})`);
+  }
+  return cassette;
+}
+
+/**
+ * Wraps a provider and writes every request/response pair to a cassette file
+ */
+export class RecordingClient implements ChatProvider {
+  private readonly inner: ChatProvider;
+  private readonly filePath: string;
+  private readonly cassette: Cassette = { version: CASSETTE_VERSION, interactions: [] };
+
+  constructor(inner: ChatProvider, filePath: string) {
+    this.inner = inner;
+    this.filePath = filePath;
+    this.save();
+  }
+
+  async chatCompletion(request: ChatRequest, options?: ChatCallOptions): Promise<ChatResponse> {
+    const response = await this.inner.chatCompletion(request, options);
+
+    this.cassette.interactions.push({ key: hashChatRequest(request), request, response });
+    // Written after every call so a crashed run still leaves a usable cassette
+    this.save();
+
+    return response;
+  }
+
+  getProviderNames(): string[] | undefined {
+    return this.inner.getProviderNames?.();
+  }
+
+  async listModels(signal?: AbortSignal): Promise<ModelMetadata[]> {
+    return await this.inner.listModels?.(signal) ?? [];
+  }
+
+  private save(): void {
+    writeFileSync(this.filePath, JSON.stringify(this.cassette, null, 2));
+  }
+}
+
+/**
+ * Serves responses from a cassette without any network access.
+ * Identical requests recorded several times are replayed in their recorded order.
+ */
+export class ReplayClient implements ChatProvider {
+  private readonly recordings = new Map<string, ChatResponse[]>();
+  private readonly providers = new Set<string>([DEFAULT_PROVIDER]);
+
+  constructor(cassette: Cassette | string) {
+    const loaded = typeof cassette === 'string' ? loadCassette(cassette) : cassette;
+
+    for (const interaction of loaded.interactions) {
+      const queue = this.recordings.get(interaction.key) || [];
+      queue.push(interaction.response);
+      this.recordings.set(interaction.key, queue);
+      this.providers.add(parseModelId(interaction.request.model).provider);
+    }
+  }
+
+  async chatCompletion(request: ChatRequest, options: ChatCallOptions = {}): Promise<ChatResponse> {
+    const key = hashChatRequest(request);
+    const queue = this.recordings.get(key);
+    if (!queue || queue.length === 0) {
+      throw new Error(`No recorded response for request ${key.substring(0, 12)} (model: ${request.model})`);
+    }
+
+    // Keep the last recording around so repeated calls beyond the recorded count still resolve
+    const response = queue.length > 1 ? queue.shift()! : queue[0];
+
+    const content = response.choices[0]?.message?.content;
+    if (options.onDelta && content) {
+      options.onDelta(content);
+    }
+
+    return response;
+  }
+
+  getProviderNames(): string[] {
+    return Array.from(this.providers);
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Checkpoints of running debates
+ * Sessions are saved to their session store after every completed step so that a debate interrupted by a
+ * crash or restart can be continued without repeating the calls it already made. This is the versioned
+ * format every store saves sessions in.
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { type DebateSession } from './session';
+
+export const CHECKPOINT_VERSION = 1;
+
+// A running debate renews its lease at least this often, and a lease not renewed for LEASE_TTL_MS has expired
+export const LEASE_HEARTBEAT_MS = 10_000;
+export const LEASE_TTL_MS = 30_000;
+
+// Identifies this process in the leases of the debates it runs
+export const LEASE_OWNER = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+export interface Checkpoint {
+  version: number;
+  savedAt: string;            // ISO timestamp of the save
+  session: DebateSession;
+}
+
+// JSON has no dates, so they are written as { "$date": "<ISO timestamp>" } and turned back into Dates on load
+const DATE_TAG = '$date';
+
+// Error classes cannot be written as JSON, so a resumed debate retries on the default errors again
+const UNSERIALIZABLE_KEYS = new Set(['retryOn']);
+
+/**
+ * Serializes a session as a versioned checkpoint. Dates (response and intervention timestamps) survive
+ * deserializeSession as Dates; config.retryPolicy.retryOn is left out.
+ */
+export function serializeSession(session: DebateSession, savedAt: Date = new Date()): string {
+  const checkpoint: Checkpoint = { version: CHECKPOINT_VERSION, savedAt: savedAt.toISOString(), session };
+  return JSON.stringify(checkpoint, function (this: Record<string, unknown>, key, value) {
+    if (UNSERIALIZABLE_KEYS.has(key)) {
+      return undefined;
+    }
+    // Dates were already turned into strings by toJSON; the holder still has the Date
+    const original = this[key];
+    return original instanceof Date ? { [DATE_TAG]: original.toISOString() } : value;
+  }, 2);
+}
+
+/**
+ * Reads a checkpoint written by serializeSession
+ * @throws Error if the checkpoint has an unsupported version or holds no session
+ */
+export function deserializeSession(json: string): DebateSession {
+  // Earlier checkpoints hold retryOn as [null]
+  const checkpoint = JSON.parse(json, (key, value) =>
+    UNSERIALIZABLE_KEYS.has(key)
+      ? undefined
+      : value !== null && typeof value === 'object' && Object.keys(value).length === 1 && typeof value[DATE_TAG] === 'string'
+        ? new Date(value[DATE_TAG])
+        : value
+  ) as Checkpoint;
+
+  if (checkpoint?.version !== CHECKPOINT_VERSION || typeof checkpoint.session?.id !== 'string') {
+    throw new Error(`Unsupported checkpoint format (expected version ${CHECKPOINT_VERSION})`);
+  }
+  return checkpoint.session;
+}
+
+/**
+ * Whether some process still holds the lease of the debate, i.e. renewed it within LEASE_TTL_MS
+ */
+export function hasLiveLease(session: DebateSession, now: Date = new Date()): boolean {
+  return session.lease !== undefined && now.getTime() - session.lease.heartbeatAt.getTime() <= LEASE_TTL_MS;
+}
+
+/**
+ * Whether the debate was still running when its last checkpoint was saved. Converged, max_rounds_reached
+ * and budget_exhausted are set before the final answer is synthesized, so they only count as finished
+ * once it is; the final answer of a budget_exhausted debate is its last step.
+ */
+export function isInterrupted(session: DebateSession): boolean {
+  switch (session.status) {
+    case 'in_progress':
+    case 'converged':
+    case 'max_rounds_reached':
+      return true;
+    case 'budget_exhausted':
+      return session.finalAnswer === undefined;
+    default:
+      return false;
+  }
+}
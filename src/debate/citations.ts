@@ -0,0 +1,60 @@
+/**
+ * Citations
+ * Stable reference ids of agent responses, such as R2-gpt-5, which the synthesizer cites inline so that
+ * every point of the final answer can be traced back to who argued it
+ */
+
+import { type AgentResponse, type DebateRound } from './session';
+
+// One or more reference ids in square brackets, e.g. [R2-gpt-5] or [R1-deepseek, R2-gpt-5]
+const CITATION_PATTERN = /\[(R\d+-[^\s[\],;]+(?:\s*[,;]\s*R\d+-[^\s[\],;]+)*)\]/g;
+const REF_SEPARATOR = /\s*[,;]\s*/;
+// Characters that would end a reference id in a citation, and % which escapes them
+const UNCITABLE = /[\s[\],;%]/g;
+
+/**
+ * Result of checking the citations of an answer against the debate
+ */
+export interface CitationCheck {
+  cited: string[];            // Every distinct reference id cited, in order of first use
+  unknown: string[];          // Cited ids that match no response of the debate
+}
+
+/**
+ * Reference id of a response: its round and participant id, or model for responses recorded before
+ * participants existed, e.g. R2-gpt-5. Characters a citation cannot hold are percent-encoded (R1-the%20skeptic).
+ */
+export function responseRef(roundNumber: number, response: Pick<AgentResponse, 'model' | 'participantId'>): string {
+  const speaker = (response.participantId ?? response.model)
+    .replace(UNCITABLE, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+  return `R${roundNumber}-${speaker}`;
+}
+
+/**
+ * Distinct reference ids cited in a text, in order of first use
+ */
+export function extractCitations(text: string): string[] {
+  const refs = [...text.matchAll(CITATION_PATTERN)].flatMap(match => match[1].split(REF_SEPARATOR));
+  return [...new Set(refs)];
+}
+
+/**
+ * Finds the response a reference id stands for
+ */
+export function findCitedResponse(ref: string, rounds: DebateRound[]): { round: DebateRound; response: AgentResponse } | undefined {
+  for (const round of rounds) {
+    const response = round.responses.find(r => responseRef(round.roundNumber, r) === ref);
+    if (response) {
+      return { round, response };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks that every id cited in an answer stands for a response of the debate
+ */
+export function checkCitations(text: string, rounds: DebateRound[]): CitationCheck {
+  const cited = extractCitations(text);
+  return { cited, unknown: cited.filter(ref => !findCitedResponse(ref, rounds)) };
+}
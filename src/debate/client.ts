@@ -1,8 +1,19 @@
 /**
  * AI Builder API Client
  * Handles communication with the AI Builder API at https://space.ai-builders.com/backend
+ * and any other endpoint that speaks the OpenAI chat completions protocol
  */
 
+import {
+  ContentFilteredError,
+  MalformedResponseError,
+  NetworkError,
+  errorFromResponse,
+  parseRetryAfter
+} from './errors';
+import type { ModelPricing } from './usage';
+import { estimateMessageTokens, estimateTokens } from './context';
+
 export interface Message {
   role: 'system' | 'user' | 'assistant';
   content: string;
@@ -13,6 +24,7 @@ export interface ChatRequest {
   messages: Message[];
   temperature?: number;
   max_tokens?: number;
+  stream?: boolean;
 }
 
 export interface ChatResponse {
@@ -21,35 +33,333 @@ export interface ChatResponse {
   usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
 }
 
-export class AIBuilderClient {
-  private readonly baseUrl = 'https://space.ai-builders.com/backend';
-  private readonly authToken: string;
+// Which part of the debate a call belongs to
+export type CallRole = 'agent' | 'moderator' | 'synthesizer' | 'summarizer' | 'ratifier';
 
-  constructor(authToken: string) {
-    if (!authToken) {
-      throw new Error('Authentication token is required');
+/**
+ * Per-call options that are not part of the request payload
+ */
+export interface ChatCallOptions {
+  // Receives content tokens as they arrive. Providers that support it switch to a streamed
+  // completion; the resolved ChatResponse still carries the full content either way.
+  onDelta?: (delta: string) => void;
+  role?: CallRole;
+  roundNumber?: number;
+  // Debate participant the call is made or summarized for
+  participantId?: string;
+  // Aborts the request; the call rejects with the signal's reason
+  signal?: AbortSignal;
+}
+
+/**
+ * Anything that can answer a chat completion request.
+ * RoundManager, Moderator and Synthesizer only depend on this interface,
+ * so participants can be served by different backends in the same debate.
+ */
+export interface ChatProvider {
+  chatCompletion(request: ChatRequest, options?: ChatCallOptions): Promise<ChatResponse>;
+  // Provider names accepted as model prefixes; undefined means the default provider only
+  getProviderNames?(): string[] | undefined;
+  // Models the provider currently serves, with whatever metadata it reports
+  listModels?(signal?: AbortSignal): Promise<ModelMetadata[]>;
+}
+
+/**
+ * A model as reported by a provider's model listing
+ */
+export interface ModelMetadata {
+  id: string;                 // Model identifier as accepted by chatCompletion
+  contextWindow?: number;     // Tokens of prompt plus completion
+  maxOutputTokens?: number;
+  pricing?: ModelPricing;
+}
+
+// Entry of an OpenAI-style GET /models response; the optional fields are reported by some gateways (e.g. OpenRouter)
+interface ListedModel {
+  id: string;
+  context_length?: number;
+  context_window?: number;
+  max_output_tokens?: number;
+  top_provider?: { max_completion_tokens?: number | null };
+  pricing?: { prompt?: string | number; completion?: string | number };  // USD per token
+}
+
+/**
+ * Maps an OpenAI-style model listing entry to ModelMetadata
+ */
+export function toModelMetadata(entry: ListedModel): ModelMetadata {
+  const metadata: ModelMetadata = { id: entry.id };
+
+  const contextWindow = entry.context_length ?? entry.context_window;
+  if (typeof contextWindow === 'number') metadata.contextWindow = contextWindow;
+
+  const maxOutputTokens = entry.max_output_tokens ?? entry.top_provider?.max_completion_tokens;
+  if (typeof maxOutputTokens === 'number') metadata.maxOutputTokens = maxOutputTokens;
+
+  const input = Number(entry.pricing?.prompt);
+  const output = Number(entry.pricing?.completion);
+  if (entry.pricing && Number.isFinite(input) && Number.isFinite(output)) {
+    metadata.pricing = { inputPerMillion: input * 1_000_000, outputPerMillion: output * 1_000_000 };
+  }
+
+  return metadata;
+}
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Reads a text/event-stream response body and yields one entry per event
+ */
+export async function* readEventStream(response: Response): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        buffer += decoder.decode();
+      } else {
+        buffer += decoder.decode(value, { stream: true });
+      }
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.substring(0, newline).replace(/\r$/, '');
+        buffer = buffer.substring(newline + 1);
+
+        if (line === '') {
+          if (dataLines.length > 0) {
+            yield { event: eventName, data: dataLines.join('\n') };
+          }
+          eventName = undefined;
+          dataLines = [];
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.substring(5).replace(/^ /, ''));
+        } else if (line.startsWith('event:')) {
+          eventName = line.substring(6).trim();
+        }
+        // Comments (":") and other fields are ignored
+      }
+
+      if (finished) {
+        break;
+      }
+    }
+
+    if (dataLines.length > 0) {
+      yield { event: eventName, data: dataLines.join('\n') };
+    }
+  } finally {
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Sends a request (POST unless init says otherwise) to a provider endpoint,
+ * turning network and HTTP failures into typed errors
+ */
+export async function requestProvider(url: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'POST', ...init });
+  } catch (error) {
+    // Unreachable hosts, DNS failures and connection resets surface as TypeError('fetch failed')
+    if (error instanceof TypeError) {
+      throw new NetworkError(`Network error: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    const retryAfterMs = parseRetryAfter(response.headers?.get('retry-after'));
+    throw errorFromResponse(response.status, response.statusText, errorText, retryAfterMs);
+  }
+
+  return response;
+}
+
+/**
+ * Reads a JSON response body, raising MalformedResponseError if it is not JSON
+ */
+export async function readJsonBody<T>(response: Response): Promise<T> {
+  try {
+    return await response.json() as T;
+  } catch (error) {
+    throw new MalformedResponseError(`Invalid JSON in provider response: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Parses the data of a streamed event, raising MalformedResponseError if it is not JSON
+ */
+export function parseEventData<T>(event: ServerSentEvent): T {
+  try {
+    return JSON.parse(event.data) as T;
+  } catch (error) {
+    throw new MalformedResponseError(`Invalid JSON in provider stream: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+interface ChatCompletionChunk {
+  id?: string;
+  choices?: { delta?: { content?: string }; finish_reason?: string | null }[];
+  usage?: ChatResponse['usage'];
+}
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string;            // Base URL without the trailing /chat/completions (e.g. https://api.openai.com/v1)
+  apiKey?: string;            // Sent as a Bearer token when provided
+  headers?: Record<string, string>;
+}
+
+/**
+ * Client for any OpenAI-compatible chat completions endpoint
+ */
+export class OpenAICompatibleProvider implements ChatProvider {
+  protected readonly baseUrl: string;
+  protected readonly apiKey?: string;
+  protected readonly headers: Record<string, string>;
+
+  constructor(options: OpenAICompatibleOptions) {
+    if (!options.baseUrl) {
+      throw new Error('Base URL is required');
     }
-    this.authToken = authToken;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.headers = options.headers || {};
   }
 
-  async chatCompletion(request: ChatRequest): Promise<ChatResponse> {
-    const url = `${this.baseUrl}/v1/chat/completions`;
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.authToken}`,
-      },
-      body: JSON.stringify(request),
+  async chatCompletion(request: ChatRequest, options: ChatCallOptions = {}): Promise<ChatResponse> {
+    try {
+      return await this.sendChatCompletion(request, options);
+    } catch (error) {
+      // fetch reports aborts as a generic AbortError; surface the reason the caller aborted with
+      throw options.signal?.aborted && options.signal.reason instanceof Error ? options.signal.reason : error;
+    }
+  }
+
+  /**
+   * Lists the models served by the endpoint (GET /models)
+   */
+  async listModels(signal?: AbortSignal): Promise<ModelMetadata[]> {
+    const headers: Record<string, string> = { ...this.headers };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await requestProvider(`${this.baseUrl}/models`, { method: 'GET', headers, signal });
+    const body = await readJsonBody<{ data?: ListedModel[] }>(response);
+    if (!Array.isArray(body?.data)) {
+      throw new MalformedResponseError('Model listing has no data');
+    }
+
+    return body.data.filter(entry => typeof entry?.id === 'string').map(toModelMetadata);
+  }
+
+  private async sendChatCompletion(request: ChatRequest, options: ChatCallOptions): Promise<ChatResponse> {
+    const url = `${this.baseUrl}/chat/completions`;
+    const streaming = Boolean(request.stream || options.onDelta);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.headers,
+    };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    // Streams only report usage in a final chunk when asked to
+    const response = await requestProvider(url, {
+      headers,
+      body: JSON.stringify(streaming ? { ...request, stream: true, stream_options: { include_usage: true } } : request),
+      signal: options.signal,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+    const data = streaming
+      ? await this.readStreamedCompletion(response, request, options.onDelta)
+      : await readJsonBody<ChatResponse>(response);
+
+    if (!Array.isArray(data?.choices)) {
+      throw new MalformedResponseError('Provider response has no choices');
+    }
+    if (data.choices[0]?.finish_reason === 'content_filter') {
+      throw new ContentFilteredError(`Response from ${request.model} was blocked by the content filter`);
     }
 
-    const data = await response.json();
-    return data as ChatResponse;
+    return data;
   }
-}
\ No newline at end of file
+
+  /**
+   * Assembles a ChatResponse from streamed chat.completion.chunk events. Usage is estimated from the request
+   * and the content if the endpoint reports none, so that budgets still apply.
+   */
+  private async readStreamedCompletion(
+    response: Response,
+    request: ChatRequest,
+    onDelta?: (delta: string) => void
+  ): Promise<ChatResponse> {
+    let id = '';
+    let content = '';
+    let finishReason = 'stop';
+    let usage: ChatResponse['usage'] | undefined;
+
+    for await (const event of readEventStream(response)) {
+      if (event.data === '[DONE]') {
+        break;
+      }
+
+      const chunk = parseEventData<ChatCompletionChunk>(event);
+      id = chunk.id || id;
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+
+      const choice = chunk.choices?.[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta?.(delta);
+      }
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+    }
+
+    if (!usage) {
+      const promptTokens = estimateMessageTokens(request.messages);
+      const completionTokens = estimateTokens(content);
+      usage = { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+    }
+
+    return {
+      id,
+      choices: [{ message: { role: 'assistant', content }, finish_reason: finishReason }],
+      usage
+    };
+  }
+}
+
+export class AIBuilderClient extends OpenAICompatibleProvider {
+  constructor(authToken: string) {
+    if (!authToken) {
+      throw new Error('Authentication token is required');
+    }
+    super({ baseUrl: 'https://space.ai-builders.com/backend/v1', apiKey: authToken });
+  }
+}
@@ -1,15 +1,77 @@
 // DebateConfig interface and validation logic
 
+import { readFileSync } from 'fs';
+import { DEFAULT_PROVIDER, parseModelId } from './providers';
+import { type DebateBudget, type PriceTable } from './usage';
+import { type RetryPolicy } from './retry';
+import { type ModelCatalog } from './model-catalog';
+import { CONTEXT_MODES, type ContextStrategy } from './context';
+import { CONVERGENCE_MODES, type ConvergencePolicy } from './convergence-metrics';
+import { JUDGE_AGGREGATIONS, type JudgeAggregation } from './moderator-panel';
+import { SYNTHESIS_STRATEGIES, type SynthesisStrategy } from './synthesizer';
+
+// Participant ids appear in reference ids such as R2-gpt-5 (citations), which end at whitespace, commas,
+// semicolons and brackets; model identifiers, numbered or not, fit this too
+const PARTICIPANT_ID_PATTERN = /^[A-Za-z0-9_.:#/-]+$/;
+
+/**
+ * One seat in the debate. The same model may back several participants.
+ */
+export interface ParticipantConfig {
+  id: string;                 // Unique within the debate, referenced by AgentResponse.participantId; letters, digits and _ . : # / -
+  name: string;               // Display name (e.g. "The Skeptic")
+  model: string;              // Optionally provider-prefixed, like DebateConfig.models
+  persona?: string;           // Role description added to the system prompt
+  systemPrompt?: string;      // Replaces the default system prompt
+  temperature?: number;       // Default: 0.7
+  maxTokens?: number;         // Default: 8000
+}
+
+/**
+ * How agents take turns within a round:
+ * - parallel: everyone answers at once and only sees earlier rounds
+ * - sequential: agents answer one after another and see the responses given earlier in the round
+ * - round_robin_rotating: sequential, with the speaking order rotated by one every round
+ */
+export const TURN_ORDERS = ['parallel', 'sequential', 'round_robin_rotating'] as const;
+
+export type TurnOrder = typeof TURN_ORDERS[number];
+
+/**
+ * How rounds follow each other:
+ * - auto: every round runs until the debate ends, unless it is paused
+ * - manual: the debate pauses after every round until it is resumed or stepped
+ */
+export const RUN_MODES = ['auto', 'manual'] as const;
+
+export type RunMode = typeof RUN_MODES[number];
+
 export interface DebateConfig {
   topic: string;
-  models: string[];           // At least 2 models required
+  models: string[];           // At least 2 models required, optionally provider-prefixed (e.g. "ollama:llama3")
+  participants?: ParticipantConfig[]; // Takes precedence over models when set
   maxRounds: number;          // Default: 5
+  turnOrder?: TurnOrder;      // Default: parallel
+  runMode?: RunMode;          // Pause after every round for approval (manual), default: auto
   convergenceThreshold: number; // Default: 0.8 (0-1)
+  convergencePolicy?: ConvergencePolicy; // Moderator verdict, local metrics or both, default: moderator only
   moderatorModel: string;     // Model used for moderation
+  moderatorModels?: string[]; // Judges of a moderator panel; takes precedence over moderatorModel when set
+  judgeAggregation?: JudgeAggregation; // How the panel's verdicts are combined, default: majority
+  moderatorSteering?: boolean; // Moderator names disagreements and asks questions for the next round, default: false
   synthesizerModel: string;   // Model used for synthesis
+  structuredSynthesis?: boolean; // Synthesize a typed object and render the final answer from it, default: false
+  synthesisStrategy?: SynthesisStrategy; // Single prompt or map-reduce over rounds or participants, default: auto
+  ratification?: boolean;     // Participants approve or object to the final answer, which is revised once if needed, default: false
+  budget?: DebateBudget;      // Stops the debate with status budget_exhausted once reached
+  pricing?: PriceTable;       // Per-model prices used for cost accounting
+  callTimeoutMs?: number;     // Aborts any single API call that takes longer
+  debateTimeoutMs?: number;   // Cancels the whole debate after this long
+  retryPolicy?: Partial<RetryPolicy>; // Overrides DEFAULT_RETRY_POLICY for agents, moderator and synthesizer
+  contextStrategy?: ContextStrategy; // How earlier rounds appear in prompts, default: full history
 }
 
-// Available models from AI Builder API
+// Models of the AI Builder API, used when the live model catalog is unavailable
 export const AVAILABLE_MODELS = [
   'deepseek',
   'supermind-agent-v1', 
@@ -30,12 +92,107 @@ export interface ValidationResult {
   errors: ValidationError[];
 }
 
+/**
+ * Checks a model identifier against the registered providers.
+ * Models of providers the catalog has a listing for must be in that listing; without a catalog,
+ * unprefixed identifiers must be one of AVAILABLE_MODELS. Other providers accept any non-empty model name.
+ */
+function isValidModelId(modelId: unknown, registeredProviders: string[], catalog?: ModelCatalog): boolean {
+  if (typeof modelId !== 'string') {
+    return false;
+  }
+
+  const { provider, model } = parseModelId(modelId);
+  if (!registeredProviders.includes(provider) || model.trim().length === 0) {
+    return false;
+  }
+
+  if (catalog?.hasProvider(provider)) {
+    return catalog.has(modelId);
+  }
+
+  if (provider === DEFAULT_PROVIDER) {
+    return AVAILABLE_MODELS.includes(model as AvailableModel);
+  }
+
+  return true;
+}
+
+function describeAvailableModels(registeredProviders: string[], catalog?: ModelCatalog): string {
+  const others = registeredProviders.filter(provider => provider !== DEFAULT_PROVIDER);
+  const defaultModels = catalog ? catalog.ids(DEFAULT_PROVIDER) : [...AVAILABLE_MODELS];
+  let description = registeredProviders.includes(DEFAULT_PROVIDER)
+    ? defaultModels.join(', ')
+    : 'none without a provider prefix';
+  if (others.length > 0) {
+    description += `; or <provider>:<model> for providers: ${others.join(', ')}`;
+  }
+  return description;
+}
+
+function validateParticipants(
+  participants: unknown,
+  registeredProviders: string[],
+  catalog: ModelCatalog | undefined,
+  availableModels: string
+): ValidationError[] {
+  if (!Array.isArray(participants)) {
+    return [{ field: 'participants', message: 'participants must be an array' }];
+  }
+
+  const errors: ValidationError[] = [];
+  if (participants.length < 2) {
+    errors.push({ field: 'participants', message: 'At least 2 participants are required for debate' });
+  }
+
+  const seenIds = new Set<string>();
+  participants.forEach((participant: Partial<ParticipantConfig>, index) => {
+    const label = `participants[${index}]`;
+    if (typeof participant?.id !== 'string' || participant.id.trim().length === 0) {
+      errors.push({ field: 'participants', message: `${label}.id must be a non-empty string` });
+    } else if (!PARTICIPANT_ID_PATTERN.test(participant.id)) {
+      errors.push({ field: 'participants', message: `${label}.id may only contain letters, digits and _ . : # / -` });
+    } else if (seenIds.has(participant.id)) {
+      errors.push({ field: 'participants', message: `Duplicate participant id: ${participant.id}` });
+    } else {
+      seenIds.add(participant.id);
+    }
+
+    if (typeof participant?.name !== 'string' || participant.name.trim().length === 0) {
+      errors.push({ field: 'participants', message: `${label}.name must be a non-empty string` });
+    }
+    if (!isValidModelId(participant?.model, registeredProviders, catalog)) {
+      errors.push({
+        field: 'participants',
+        message: `Invalid model for ${label}: ${participant?.model}. Available models: ${availableModels}`
+      });
+    }
+    if (participant?.temperature !== undefined
+      && (typeof participant.temperature !== 'number' || !(participant.temperature >= 0 && participant.temperature <= 2))) {
+      errors.push({ field: 'participants', message: `${label}.temperature must be between 0 and 2 inclusive` });
+    }
+    if (participant?.maxTokens !== undefined && !(Number.isInteger(participant.maxTokens) && participant.maxTokens > 0)) {
+      errors.push({ field: 'participants', message: `${label}.maxTokens must be an integer greater than 0` });
+    }
+  });
+
+  return errors;
+}
+
 /**
  * Validates a DebateConfig object according to requirements
  * Requirements: 1.1, 1.3, 2.1, 2.2, 2.3, 6.1, 6.2, 6.3
+ *
+ * @param registeredProviders - Provider names that model identifiers may target (default: AI Builder only)
+ * @param catalog - Known models per provider; defaults to the static AVAILABLE_MODELS list
  */
-export function validateDebateConfig(config: Partial<DebateConfig>): ValidationResult {
+export function validateDebateConfig(
+  config: Partial<DebateConfig>,
+  registeredProviders: string[] = [DEFAULT_PROVIDER],
+  catalog?: ModelCatalog
+): ValidationResult {
   const errors: ValidationError[] = [];
+  const availableModels = describeAvailableModels(registeredProviders, catalog);
 
   // Validate topic (Requirements 1.1, 1.3)
   if (config.topic === undefined || config.topic === null) {
@@ -46,8 +203,10 @@ export function validateDebateConfig(config: Partial<DebateConfig>): ValidationR
     errors.push({ field: 'topic', message: 'Topic cannot be empty or contain only whitespace' });
   }
 
-  // Validate models array (Requirements 2.1, 2.2, 2.3)
-  if (!config.models) {
+  // Validate participants, or the models array when there are none (Requirements 2.1, 2.2, 2.3)
+  if (config.participants !== undefined) {
+    errors.push(...validateParticipants(config.participants, registeredProviders, catalog, availableModels));
+  } else if (!config.models) {
     errors.push({ field: 'models', message: 'Models array is required' });
   } else if (!Array.isArray(config.models)) {
     errors.push({ field: 'models', message: 'Models must be an array' });
@@ -57,11 +216,11 @@ export function validateDebateConfig(config: Partial<DebateConfig>): ValidationR
     }
     
     // Check for invalid model identifiers
-    const invalidModels = config.models.filter(model => !AVAILABLE_MODELS.includes(model as AvailableModel));
+    const invalidModels = config.models.filter(model => !isValidModelId(model, registeredProviders, catalog));
     if (invalidModels.length > 0) {
       errors.push({ 
         field: 'models', 
-        message: `Invalid model identifiers: ${invalidModels.join(', ')}. Available models: ${AVAILABLE_MODELS.join(', ')}` 
+        message: `Invalid model identifiers: ${invalidModels.join(', ')}. Available models: ${availableModels}` 
       });
     }
   }
@@ -84,19 +243,160 @@ export function validateDebateConfig(config: Partial<DebateConfig>): ValidationR
     }
   }
 
+  // Validate budget
+  if (config.budget !== undefined) {
+    if (typeof config.budget !== 'object' || config.budget === null) {
+      errors.push({ field: 'budget', message: 'budget must be an object' });
+    } else {
+      for (const limit of ['maxTokens', 'maxCost'] as const) {
+        const value = config.budget[limit];
+        if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+          errors.push({ field: 'budget', message: `budget.${limit} must be a number greater than 0` });
+        }
+      }
+    }
+  }
+
+  // Validate timeouts
+  for (const field of ['callTimeoutMs', 'debateTimeoutMs'] as const) {
+    const value = config[field];
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      errors.push({ field, message: `${field} must be a number greater than 0` });
+    }
+  }
+
+  // Validate retryPolicy
+  if (config.retryPolicy !== undefined) {
+    const policy = config.retryPolicy;
+    if (typeof policy !== 'object' || policy === null) {
+      errors.push({ field: 'retryPolicy', message: 'retryPolicy must be an object' });
+    } else {
+      if (policy.maxAttempts !== undefined && !(Number.isInteger(policy.maxAttempts) && policy.maxAttempts >= 1)) {
+        errors.push({ field: 'retryPolicy', message: 'retryPolicy.maxAttempts must be an integer of at least 1' });
+      }
+      for (const delay of ['baseDelayMs', 'maxDelayMs'] as const) {
+        const value = policy[delay];
+        if (value !== undefined && (typeof value !== 'number' || !(value >= 0))) {
+          errors.push({ field: 'retryPolicy', message: `retryPolicy.${delay} must be a number of at least 0` });
+        }
+      }
+      if (policy.jitter !== undefined && (typeof policy.jitter !== 'number' || !(policy.jitter >= 0 && policy.jitter <= 1))) {
+        errors.push({ field: 'retryPolicy', message: 'retryPolicy.jitter must be between 0 and 1 inclusive' });
+      }
+      if (policy.retryOn !== undefined && !(Array.isArray(policy.retryOn) && policy.retryOn.every(c => typeof c === 'function'))) {
+        errors.push({ field: 'retryPolicy', message: 'retryPolicy.retryOn must be a list of error classes' });
+      }
+    }
+  }
+
+  // Validate convergencePolicy
+  if (config.convergencePolicy !== undefined) {
+    const policy = config.convergencePolicy;
+    if (typeof policy !== 'object' || policy === null || !CONVERGENCE_MODES.includes(policy.mode)) {
+      errors.push({
+        field: 'convergencePolicy',
+        message: `convergencePolicy.mode must be one of: ${CONVERGENCE_MODES.join(', ')}`
+      });
+    } else if (policy.llmWeight !== undefined
+      && (typeof policy.llmWeight !== 'number' || policy.llmWeight < 0 || policy.llmWeight > 1)) {
+      errors.push({ field: 'convergencePolicy', message: 'convergencePolicy.llmWeight must be between 0 and 1 inclusive' });
+    }
+  }
+
+  // Validate turnOrder
+  if (config.turnOrder !== undefined && !TURN_ORDERS.includes(config.turnOrder)) {
+    errors.push({
+      field: 'turnOrder',
+      message: `Invalid turn order: ${config.turnOrder}. Available: ${TURN_ORDERS.join(', ')}`
+    });
+  }
+
+  // Validate contextStrategy
+  if (config.contextStrategy !== undefined) {
+    const strategy = config.contextStrategy;
+    if (typeof strategy !== 'object' || strategy === null || !CONTEXT_MODES.includes(strategy.mode)) {
+      errors.push({
+        field: 'contextStrategy',
+        message: `contextStrategy.mode must be one of: ${CONTEXT_MODES.join(', ')}`
+      });
+    } else {
+      if (strategy.rounds !== undefined && !(Number.isInteger(strategy.rounds) && strategy.rounds >= 1)) {
+        errors.push({ field: 'contextStrategy', message: 'contextStrategy.rounds must be an integer of at least 1' });
+      }
+      if (strategy.summarizerModel !== undefined && !isValidModelId(strategy.summarizerModel, registeredProviders, catalog)) {
+        errors.push({
+          field: 'contextStrategy',
+          message: `Invalid summarizer model: ${strategy.summarizerModel}. Available models: ${availableModels}`
+        });
+      }
+    }
+  }
+
+  // Validate moderatorSteering
+  if (config.moderatorSteering !== undefined && typeof config.moderatorSteering !== 'boolean') {
+    errors.push({ field: 'moderatorSteering', message: 'moderatorSteering must be a boolean' });
+  }
+
+  // Validate structuredSynthesis
+  if (config.structuredSynthesis !== undefined && typeof config.structuredSynthesis !== 'boolean') {
+    errors.push({ field: 'structuredSynthesis', message: 'structuredSynthesis must be a boolean' });
+  }
+
+  // Validate synthesisStrategy
+  if (config.synthesisStrategy !== undefined && !SYNTHESIS_STRATEGIES.includes(config.synthesisStrategy)) {
+    errors.push({
+      field: 'synthesisStrategy',
+      message: `synthesisStrategy must be one of: ${SYNTHESIS_STRATEGIES.join(', ')}`
+    });
+  }
+
+  // Validate ratification
+  if (config.ratification !== undefined && typeof config.ratification !== 'boolean') {
+    errors.push({ field: 'ratification', message: 'ratification must be a boolean' });
+  }
+
+  // Validate runMode
+  if (config.runMode !== undefined && !RUN_MODES.includes(config.runMode)) {
+    errors.push({ field: 'runMode', message: `runMode must be one of: ${RUN_MODES.join(', ')}` });
+  }
+
   // Validate moderatorModel
-  if (config.moderatorModel && !AVAILABLE_MODELS.includes(config.moderatorModel as AvailableModel)) {
+  if (config.moderatorModel && !isValidModelId(config.moderatorModel, registeredProviders, catalog)) {
     errors.push({ 
       field: 'moderatorModel', 
-      message: `Invalid moderator model: ${config.moderatorModel}. Available models: ${AVAILABLE_MODELS.join(', ')}` 
+      message: `Invalid moderator model: ${config.moderatorModel}. Available models: ${availableModels}` 
+    });
+  }
+
+  // Validate moderatorModels
+  if (config.moderatorModels !== undefined) {
+    if (!Array.isArray(config.moderatorModels) || config.moderatorModels.length === 0) {
+      errors.push({ field: 'moderatorModels', message: 'moderatorModels must be a non-empty array' });
+    } else {
+      for (const model of config.moderatorModels) {
+        if (!isValidModelId(model, registeredProviders, catalog)) {
+          errors.push({
+            field: 'moderatorModels',
+            message: `Invalid moderator model: ${model}. Available models: ${availableModels}`
+          });
+        }
+      }
+    }
+  }
+
+  // Validate judgeAggregation
+  if (config.judgeAggregation !== undefined && !JUDGE_AGGREGATIONS.includes(config.judgeAggregation)) {
+    errors.push({
+      field: 'judgeAggregation',
+      message: `judgeAggregation must be one of: ${JUDGE_AGGREGATIONS.join(', ')}`
     });
   }
 
   // Validate synthesizerModel
-  if (config.synthesizerModel && !AVAILABLE_MODELS.includes(config.synthesizerModel as AvailableModel)) {
+  if (config.synthesizerModel && !isValidModelId(config.synthesizerModel, registeredProviders, catalog)) {
     errors.push({ 
       field: 'synthesizerModel', 
-      message: `Invalid synthesizer model: ${config.synthesizerModel}. Available models: ${AVAILABLE_MODELS.join(', ')}` 
+      message: `Invalid synthesizer model: ${config.synthesizerModel}. Available models: ${availableModels}` 
     });
   }
 
@@ -106,6 +406,31 @@ export function validateDebateConfig(config: Partial<DebateConfig>): ValidationR
   };
 }
 
+/**
+ * Returns the participants of a debate. Without explicit participants there is one per model;
+ * repeated models get a numbered id and name (e.g. "deepseek#2") so their responses stay distinguishable.
+ */
+export function resolveParticipants(config: Pick<DebateConfig, 'models' | 'participants'>): ParticipantConfig[] {
+  if (config.participants) {
+    return config.participants;
+  }
+
+  const counts = new Map<string, number>();
+  return config.models.map(model => {
+    const count = (counts.get(model) || 0) + 1;
+    counts.set(model, count);
+    const id = count === 1 ? model : `${model}#${count}`;
+    return { id, name: id, model };
+  });
+}
+
+/**
+ * Reads a JSON array of ParticipantConfig from a file
+ */
+export function loadParticipants(filePath: string): ParticipantConfig[] {
+  return JSON.parse(readFileSync(filePath, 'utf-8')) as ParticipantConfig[];
+}
+
 /**
  * Creates a default DebateConfig with sensible defaults
  * Uses models that are known to work reliably
@@ -0,0 +1,207 @@
+/**
+ * Context window management
+ * Decides how earlier rounds appear in prompts and keeps prompts within the model's context window
+ */
+
+import { type Message } from './client';
+import { buildTimeline, speakerName, type DebateRound, type UserIntervention } from './session';
+
+/**
+ * How earlier rounds go into prompts:
+ * - full: every response of every round, verbatim
+ * - last_n: only the latest rounds, verbatim; older rounds are left out
+ * - rolling_summary: the latest rounds verbatim, older rounds as a digest written by a summarizer model
+ */
+export const CONTEXT_MODES = ['full', 'last_n', 'rolling_summary'] as const;
+
+export type ContextMode = typeof CONTEXT_MODES[number];
+
+export interface ContextStrategy {
+  mode: ContextMode;
+  rounds?: number;            // Latest rounds kept verbatim by last_n and rolling_summary, default: 2
+  summarizerModel?: string;   // Writes the round digests, default: the synthesizer model
+}
+
+export const DEFAULT_CONTEXT_STRATEGY: ContextStrategy = { mode: 'full' };
+
+const DEFAULT_VERBATIM_ROUNDS = 2;
+
+// Rough average for English prose; errs on the side of overestimating
+const CHARS_PER_TOKEN = 4;
+// Role and separators added around every message
+const TOKENS_PER_MESSAGE = 4;
+
+/**
+ * Estimates the number of tokens of a text without a model-specific tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates the prompt tokens of a list of chat messages
+ */
+export function estimateMessageTokens(messages: Message[]): number {
+  return messages.reduce((sum, message) => sum + TOKENS_PER_MESSAGE + estimateTokens(message.content), 0);
+}
+
+/**
+ * Digest of a round built from the first sentences of each response, used when no summary was written
+ */
+export function extractiveDigest(round: DebateRound, maxCharsPerResponse = 200): string {
+  return round.responses
+    .filter(response => !response.error && response.content.trim())
+    .map(response => {
+      const content = response.content.trim();
+      const excerpt = content.length > maxCharsPerResponse ? `${content.substring(0, maxCharsPerResponse)}...` : content;
+      return `${speakerName(response)}: ${excerpt}`;
+    })
+    .join('\n');
+}
+
+/**
+ * An earlier round as it goes into a prompt
+ */
+export interface ContextRound {
+  type: 'round';
+  round: DebateRound;
+  digest?: string;            // Set when the round is represented by its digest instead of its responses
+}
+
+/**
+ * What goes into a prompt, in order: selected rounds and all user interventions
+ */
+export type ContextEntry = ContextRound | { type: 'intervention'; intervention: UserIntervention };
+
+export class ContextBuilder {
+  readonly strategy: ContextStrategy;
+  private readonly contextWindowOf: (model: string) => number | undefined;
+
+  /**
+   * @param contextWindowOf - Context window of a model in tokens; prompts for models without one are not trimmed
+   */
+  constructor(
+    strategy: ContextStrategy = DEFAULT_CONTEXT_STRATEGY,
+    contextWindowOf: (model: string) => number | undefined = () => undefined
+  ) {
+    this.strategy = strategy;
+    this.contextWindowOf = contextWindowOf;
+  }
+
+  /**
+   * Rounds that the strategy represents by a digest but that have no summary yet
+   */
+  roundsToSummarize(rounds: DebateRound[]): DebateRound[] {
+    if (this.strategy.mode !== 'rolling_summary') {
+      return [];
+    }
+    return this.olderRounds(rounds).filter(round => round.summary === undefined);
+  }
+
+  /**
+   * Applies the strategy to the rounds so far
+   */
+  selectRounds(rounds: DebateRound[]): ContextRound[] {
+    const verbatim = (round: DebateRound): ContextRound => ({ type: 'round', round });
+    const recent = this.recentRounds(rounds).map(verbatim);
+
+    switch (this.strategy.mode) {
+      case 'last_n':
+        return recent;
+      case 'rolling_summary':
+        return [
+          ...this.olderRounds(rounds).map((round): ContextRound => ({
+            type: 'round',
+            round,
+            digest: round.summary ?? extractiveDigest(round)
+          })),
+          ...recent
+        ];
+      default:
+        return rounds.map(verbatim);
+    }
+  }
+
+  /**
+   * Applies the strategy to the rounds and places the user interventions between them.
+   * Interventions are never left out, even when the round before them is.
+   */
+  selectTimeline(rounds: DebateRound[], interventions: UserIntervention[] = []): ContextEntry[] {
+    const selected = new Map(this.selectRounds(rounds).map(entry => [entry.round, entry]));
+    return buildTimeline(rounds, interventions).flatMap((entry): ContextEntry[] => {
+      if (entry.type === 'intervention') {
+        return [entry];
+      }
+      const contextRound = selected.get(entry.round);
+      return contextRound ? [contextRound] : [];
+    });
+  }
+
+  /**
+   * Tokens available for the prompt of a model after setting aside room for its answer
+   * @returns undefined if the model's context window is unknown
+   */
+  promptBudget(model: string, reservedTokens: number): number | undefined {
+    const contextWindow = this.contextWindowOf(model);
+    if (!contextWindow) {
+      return undefined;
+    }
+    // Never let the answer reservation take more than half of a small window
+    return contextWindow - Math.min(reservedTokens, Math.floor(contextWindow / 2));
+  }
+
+  /**
+   * Drops the oldest history messages until head, history and tail fit the model's prompt budget
+   * @param head - Always kept (system prompt, topic)
+   * @param history - Earlier responses and digests, oldest first
+   * @param tail - Always kept (final instructions)
+   */
+  fitMessages(head: Message[], history: Message[], tail: Message[], model: string, reservedTokens: number): Message[] {
+    const budget = this.promptBudget(model, reservedTokens);
+    let start = 0;
+
+    if (budget !== undefined) {
+      let total = estimateMessageTokens([...head, ...history, ...tail]);
+      while (start < history.length && total > budget) {
+        total -= estimateMessageTokens([history[start]]);
+        start++;
+      }
+    }
+
+    return [...head, ...history.slice(start), ...tail];
+  }
+
+  /**
+   * Renders a single-message prompt from the selected entries, dropping the oldest until it fits.
+   * The latest entry is always kept.
+   */
+  fitEntries(
+    entries: ContextEntry[],
+    render: (entries: ContextEntry[]) => string,
+    model: string,
+    reservedTokens: number
+  ): string {
+    const budget = this.promptBudget(model, reservedTokens);
+    let kept = entries;
+    let prompt = render(kept);
+
+    while (budget !== undefined && kept.length > 1 && estimateTokens(prompt) > budget) {
+      kept = kept.slice(1);
+      prompt = render(kept);
+    }
+
+    return prompt;
+  }
+
+  private verbatimRounds(): number {
+    return this.strategy.rounds ?? DEFAULT_VERBATIM_ROUNDS;
+  }
+
+  private recentRounds(rounds: DebateRound[]): DebateRound[] {
+    return rounds.slice(Math.max(0, rounds.length - this.verbatimRounds()));
+  }
+
+  private olderRounds(rounds: DebateRound[]): DebateRound[] {
+    return rounds.slice(0, Math.max(0, rounds.length - this.verbatimRounds()));
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Local convergence metrics
+ * Deterministic signals of convergence computed from the responses alone, and the policy that
+ * combines them with the moderator's verdict
+ */
+
+import { type ConvergenceAssessment, type DebateRound } from './session';
+
+/**
+ * Who decides convergence:
+ * - llm: the moderator's verdict alone (metrics are still recorded)
+ * - metrics: the local metrics alone; the moderator is only asked when steering needs it
+ * - weighted: a weighted mean of the moderator's verdict and the local metrics
+ */
+export const CONVERGENCE_MODES = ['llm', 'metrics', 'weighted'] as const;
+
+export type ConvergenceMode = typeof CONVERGENCE_MODES[number];
+
+export interface ConvergencePolicy {
+  mode: ConvergenceMode;
+  llmWeight?: number;         // Share of the moderator in the weighted score, 0-1, default: 0.5
+}
+
+export const DEFAULT_CONVERGENCE_POLICY: ConvergencePolicy = { mode: 'llm' };
+
+const DEFAULT_LLM_WEIGHT = 0.5;
+
+/**
+ * Signals computed for the latest round, all between 0 and 1
+ */
+export interface ConvergenceMetrics {
+  similarity: number;         // Mean pairwise TF-IDF cosine similarity of the agents' responses
+  novelty: number;            // Share of the round's terms that no earlier round used
+  stanceAgreement: number;    // 0 = every agent signals disagreement, 0.5 = neutral, 1 = every agent signals agreement
+  score: number;              // Weighted combination of the three; high means converged
+  insufficient?: boolean;     // Fewer than two agents answered, so there is nothing to compare: score is 0
+}
+
+// How much each signal contributes to ConvergenceMetrics.score
+const METRIC_WEIGHTS = { similarity: 0.5, novelty: 0.3, stanceAgreement: 0.2 };
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'we', 'were', 'will', 'with', 'i', 'you', 'they'
+]);
+
+const AGREEMENT_MARKERS = ['agree', 'agreed', 'concur', 'consensus', 'convinced', 'accept', 'aligned', 'common ground', 'fair point', 'valid point'];
+const DISAGREEMENT_MARKERS = ['disagree', 'however', 'but', 'reject', 'wrong', 'incorrect', 'unconvinced', 'doubt', 'object', 'not convinced'];
+
+/**
+ * Lowercase words of a text without punctuation and stop words
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu) || []).filter(word => !STOP_WORDS.has(word));
+}
+
+/**
+ * Mean cosine similarity of all pairs of texts, weighting terms by TF-IDF over the texts themselves
+ * @returns 1 for fewer than two texts
+ */
+export function tfidfSimilarity(texts: string[]): number {
+  if (texts.length < 2) {
+    return 1;
+  }
+
+  const documents = texts.map(tokenize);
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  // Smoothed IDF, so that terms all texts share still count towards their similarity
+  const idf = (term: string) => Math.log((1 + documents.length) / (1 + documentFrequency.get(term)!)) + 1;
+  const vectors = documents.map(terms => {
+    const vector = new Map<string, number>();
+    terms.forEach(term => vector.set(term, (vector.get(term) || 0) + 1));
+    vector.forEach((count, term) => vector.set(term, count * idf(term)));
+    return vector;
+  });
+
+  const norm = (vector: Map<string, number>) => Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  const cosine = (a: Map<string, number>, b: Map<string, number>) => {
+    const denominator = norm(a) * norm(b);
+    if (denominator === 0) {
+      return 0;
+    }
+    let dot = 0;
+    a.forEach((weight, term) => {
+      dot += weight * (b.get(term) || 0);
+    });
+    return dot / denominator;
+  };
+
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < vectors.length; i++) {
+    for (let j = i + 1; j < vectors.length; j++) {
+      total += cosine(vectors[i], vectors[j]);
+      pairs++;
+    }
+  }
+  return total / pairs;
+}
+
+/**
+ * Share of the distinct terms of a text that appear in none of the earlier texts
+ * @returns 1 without earlier texts, 0 for a text without terms
+ */
+export function novelty(text: string, earlierTexts: string[]): number {
+  const terms = new Set(tokenize(text));
+  if (terms.size === 0) {
+    return 0;
+  }
+  const seen = new Set(earlierTexts.flatMap(tokenize));
+  return [...terms].filter(term => !seen.has(term)).length / terms.size;
+}
+
+/**
+ * Stance of a text from agreement and disagreement markers: -1 disagrees, 0 neutral or no markers, 1 agrees
+ */
+export function stanceOf(text: string): number {
+  const lower = ` ${tokenize(text).join(' ')} `;
+  const count = (markers: string[]) => markers.reduce((sum, marker) => sum + lower.split(` ${marker} `).length - 1, 0);
+  const agree = count(AGREEMENT_MARKERS);
+  const disagree = count(DISAGREEMENT_MARKERS);
+  return agree + disagree === 0 ? 0 : (agree - disagree) / (agree + disagree);
+}
+
+/**
+ * Computes the metrics of the latest round. Failed responses are left out; a round with fewer than two
+ * answers is marked insufficient and never counts as converged.
+ */
+export function computeConvergenceMetrics(rounds: DebateRound[]): ConvergenceMetrics {
+  const texts = (round: DebateRound) => round.responses.filter(r => !r.error && r.content.trim()).map(r => r.content);
+  const latest = rounds.length > 0 ? texts(rounds[rounds.length - 1]) : [];
+  const earlier = rounds.slice(0, -1).flatMap(texts);
+
+  const insufficient = latest.length < 2;
+  const similarity = insufficient ? 0 : tfidfSimilarity(latest);
+  const roundNovelty = novelty(latest.join('\n'), earlier);
+  const stanceAgreement = latest.length === 0
+    ? 0.5
+    : latest.reduce((sum, text) => sum + (stanceOf(text) + 1) / 2, 0) / latest.length;
+
+  if (insufficient) {
+    return { similarity, novelty: roundNovelty, stanceAgreement, score: 0, insufficient };
+  }
+
+  const score = METRIC_WEIGHTS.similarity * similarity
+    + METRIC_WEIGHTS.novelty * (1 - roundNovelty)
+    + METRIC_WEIGHTS.stanceAgreement * stanceAgreement;
+
+  return { similarity, novelty: roundNovelty, stanceAgreement, score };
+}
+
+/**
+ * How strongly a verdict speaks for convergence, 0-1: its confidence if it found convergence, otherwise
+ * one minus its confidence, so that a confident "not converged" is as strong a signal as a confident "converged"
+ */
+export function convergenceScore(verdict: Pick<ConvergenceAssessment, 'isConverged' | 'confidenceScore'>): number {
+  return verdict.isConverged ? verdict.confidenceScore : 1 - verdict.confidenceScore;
+}
+
+/**
+ * Decides convergence from the moderator's verdict and the local metrics as the policy says. Metrics of
+ * a round with fewer than two answers keep the metrics and weighted policies from finding convergence.
+ * @param verdict - The moderator's verdict; may be missing in metrics mode
+ */
+export function applyConvergencePolicy(
+  policy: ConvergencePolicy,
+  verdict: ConvergenceAssessment | undefined,
+  metrics: ConvergenceMetrics,
+  threshold: number
+): ConvergenceAssessment {
+  const described = `similarity ${metrics.similarity.toFixed(2)}, novelty ${metrics.novelty.toFixed(2)}, `
+    + `stance agreement ${metrics.stanceAgreement.toFixed(2)}`
+    + (metrics.insufficient ? '; fewer than two agents answered' : '');
+
+  if (policy.mode === 'metrics' || !verdict) {
+    return {
+      isConverged: !metrics.insufficient && metrics.score >= threshold,
+      confidenceScore: metrics.score,
+      reasoning: `Local metrics: ${described}`,
+      metrics
+    };
+  }
+
+  if (policy.mode === 'weighted') {
+    const llmScore = convergenceScore(verdict);
+    const llmWeight = policy.llmWeight ?? DEFAULT_LLM_WEIGHT;
+    const score = llmWeight * llmScore + (1 - llmWeight) * metrics.score;
+    return {
+      ...verdict,
+      isConverged: !metrics.insufficient && score >= threshold,
+      confidenceScore: score,
+      reasoning: `${verdict.reasoning} (weighted score ${score.toFixed(2)} from moderator ${llmScore.toFixed(2)} and local metrics ${metrics.score.toFixed(2)}: ${described})`,
+      metrics
+    };
+  }
+
+  return { ...verdict, metrics };
+}
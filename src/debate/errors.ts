@@ -0,0 +1,162 @@
+/**
+ * Error types raised while running a debate
+ */
+
+import type { ParseDiagnostic } from './structured-output';
+
+/**
+ * Raised when a debate is stopped on purpose (user request, shutdown)
+ */
+export class DebateCancelledError extends Error {
+  constructor(message = 'Debate cancelled') {
+    super(message);
+    this.name = 'DebateCancelledError';
+  }
+}
+
+export interface ProviderErrorOptions {
+  status?: number;            // HTTP status, if the provider answered
+  retryAfterMs?: number;      // From a Retry-After header
+}
+
+/**
+ * Base class for failed calls to an LLM provider.
+ * Used as is for failures without a more specific class (e.g. 400 Bad Request).
+ */
+export class ProviderError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Invalid or missing credentials (401, 403)
+ */
+export class AuthenticationError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Too many requests (429); retryAfterMs tells how long the provider wants us to wait
+ */
+export class RateLimitError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * The provider failed on its side (5xx)
+ */
+export class ServerError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The provider could not be reached at all
+ */
+export class NetworkError extends ProviderError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Raised when a single call or a whole debate exceeds its time limit
+ */
+export class TimeoutError extends ProviderError {
+  readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The provider answered, but not with a usable completion
+ */
+export class MalformedResponseError extends ProviderError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/**
+ * A structured (JSON) answer did not match its schema, even after the model was asked to repair it
+ */
+export class StructuredOutputError extends Error {
+  readonly diagnostics: ParseDiagnostic[];
+
+  constructor(message: string, diagnostics: ParseDiagnostic[] = []) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * The provider refused to answer because of its content policy
+ */
+export class ContentFilteredError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ContentFilteredError';
+  }
+}
+
+/**
+ * Parses a Retry-After header given in seconds or as an HTTP date
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Maps a failed HTTP response to the matching error class
+ */
+export function errorFromResponse(status: number, statusText: string, body: string, retryAfterMs?: number): ProviderError {
+  const message = `API request failed: ${status} ${statusText} - ${body}`;
+  const options = { status, retryAfterMs };
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, options);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, options);
+  }
+  if (status >= 500) {
+    return new ServerError(message, options);
+  }
+  if (/content[_ ]?(filter|policy)/i.test(body)) {
+    return new ContentFilteredError(message, options);
+  }
+  return new ProviderError(message, options);
+}
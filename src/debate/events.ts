@@ -0,0 +1,105 @@
+/**
+ * Debate events
+ * Everything observable while a debate runs, as one discriminated union, and a typed emitter the
+ * orchestrator publishes them on. The CLI, the web server and tests all subscribe to it.
+ */
+
+import type { DebateConfig } from './config';
+import type { AgentResponse, ConvergenceAssessment, DebateRound, ModeratorGuidance, Ratification } from './session';
+import type { AgentDelta } from './round-manager';
+import type { DebateResult } from './orchestrator';
+
+/**
+ * The participant an agent event is about
+ */
+export interface AgentTurn {
+  roundNumber: number;
+  participantId: string;
+  participantName: string;
+  model: string;
+}
+
+export type DebateEvent =
+  // The debate (or its continuation) starts after completedRounds rounds
+  | { type: 'session_started'; sessionId: string; config: DebateConfig; completedRounds: number }
+  | { type: 'round_started'; sessionId: string; roundNumber: number }
+  | ({ type: 'agent_started'; sessionId: string } & AgentTurn)
+  // Streamed tokens of a response; a new attempt means earlier deltas were discarded
+  | { type: 'agent_delta'; sessionId: string; delta: AgentDelta }
+  // A failed attempt that will be retried after delayMs
+  | ({ type: 'agent_retry'; sessionId: string; attempt: number; delayMs: number; error: string } & AgentTurn)
+  // ref is the reference id the final answer cites the response by
+  | { type: 'agent_response'; sessionId: string; roundNumber: number; response: AgentResponse; ref: string }
+  // Retries are exhausted or the error is not retryable; response.error says why
+  | { type: 'agent_failed'; sessionId: string; roundNumber: number; response: AgentResponse; ref: string }
+  | { type: 'round_completed'; sessionId: string; round: DebateRound }
+  // The round now carries its convergence check; judgeSplit describes where a moderator panel disagreed
+  | {
+    type: 'convergence_evaluated';
+    sessionId: string;
+    round: DebateRound;
+    assessment: ConvergenceAssessment;
+    guidance?: ModeratorGuidance;
+    judgeSplit?: string;
+  }
+  // The debate stopped at a round boundary (pause, step or manual run mode); runDebate resolves with it
+  | { type: 'paused'; sessionId: string; completedRounds: number }
+  | { type: 'synthesis_started'; sessionId: string; structured: boolean }
+  | { type: 'ratification_completed'; sessionId: string; ratification: Ratification }
+  | { type: 'completed'; sessionId: string; result: DebateResult }
+  | { type: 'cancelled'; sessionId: string; reason: string; result: DebateResult }
+  // The debate failed; runDebate rejects with the same error
+  | { type: 'error'; sessionId: string; error: Error };
+
+export type DebateEventType = DebateEvent['type'];
+
+/**
+ * The event of one type, e.g. DebateEventOf<'agent_response'>
+ */
+export type DebateEventOf<T extends DebateEventType> = Extract<DebateEvent, { type: T }>;
+
+export type DebateEventListener<T extends DebateEventType> = (event: DebateEventOf<T>) => void;
+
+/**
+ * A typed event emitter for debate events. Listeners are called synchronously, in the order they
+ * subscribed; an exception thrown by a listener propagates to the debate.
+ */
+export class DebateEventEmitter {
+  private listeners = new Map<DebateEventType, Set<(event: DebateEvent) => void>>();
+  private anyListeners = new Set<(event: DebateEvent) => void>();
+
+  /**
+   * Subscribes to one type of event
+   * @returns A function that unsubscribes the listener
+   */
+  on<T extends DebateEventType>(type: T, listener: DebateEventListener<T>): () => void {
+    const untyped = listener as (event: DebateEvent) => void;
+    const listeners = this.listeners.get(type) ?? new Set();
+    listeners.add(untyped);
+    this.listeners.set(type, listeners);
+    return () => {
+      listeners.delete(untyped);
+    };
+  }
+
+  /**
+   * Subscribes to every event
+   * @returns A function that unsubscribes the listener
+   */
+  onAny(listener: (event: DebateEvent) => void): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  emit(event: DebateEvent): void {
+    // Copied, so that listeners may unsubscribe while being called
+    for (const listener of [...(this.listeners.get(event.type) ?? [])]) {
+      listener(event);
+    }
+    for (const listener of [...this.anyListeners]) {
+      listener(event);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Extractive summaries
+ * Picks the most central sentences of a debate without calling any model, so that a synthesis can be
+ * produced offline when the synthesizer fails
+ */
+
+import { responseRef } from './citations';
+import { tokenize } from './convergence-metrics';
+import { speakerName, type DebateRound } from './session';
+
+/**
+ * A sentence taken verbatim from a response, with the reference id it can be cited by
+ */
+export interface ExtractedSentence {
+  text: string;
+  speaker: string;
+  ref: string;
+  score: number;              // Centrality: how many responses use the sentence's terms, on average
+}
+
+// Sentences sharing more than this share of their terms with a picked one add nothing new
+const MAX_OVERLAP = 0.5;
+// Sentences with fewer terms are rarely informative on their own
+const MIN_TERMS = 4;
+
+/**
+ * Splits text into sentences, treating list items and paragraphs as sentences of their own.
+ * Markdown emphasis, headings and list markers are removed.
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .map(line => line.replace(/^\s*(#+|[-*+]|\d+[.)])\s+/, '').replace(/[*_`]+/g, '').trim())
+    .flatMap(line => line.split(/(?<=[.!?])\s+(?=[\p{Lu}\p{N}"'(])/u))
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Picks up to limit sentences that use the terms most responses share, skipping sentences that repeat
+ * a picked one and, where others are left, sentences sharing no term with any other response.
+ * Failed responses are left out.
+ * @param include - Only sentences of the responses it accepts are picked; centrality is still measured over all rounds
+ * @returns The picked sentences in debate order
+ */
+export function extractKeySentences(rounds: DebateRound[], limit: number, include: (ref: string) => boolean = () => true): ExtractedSentence[] {
+  const candidates = rounds.flatMap(round => round.responses
+    .filter(response => !response.error && response.content.trim())
+    .map(response => ({
+      speaker: speakerName(response),
+      ref: responseRef(round.roundNumber, response),
+      sentences: splitSentences(response.content)
+    })));
+
+  // Number of responses using each term
+  const responseFrequency = new Map<string, number>();
+  for (const candidate of candidates) {
+    for (const term of new Set(candidate.sentences.flatMap(tokenize))) {
+      responseFrequency.set(term, (responseFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const scored = candidates.flatMap(({ speaker, ref, sentences }) => sentences.map(text => {
+    const terms = new Set(tokenize(text));
+    const centrality = [...terms].reduce((sum, term) => sum + responseFrequency.get(term)!, 0) / Math.max(terms.size, 1);
+    return {
+      text,
+      speaker,
+      ref,
+      terms,
+      score: terms.size < MIN_TERMS ? centrality / 2 : centrality,
+      onThread: [...terms].some(term => responseFrequency.get(term)! > 1)
+    };
+  }));
+
+  const included = scored.filter(sentence => include(sentence.ref));
+  const onThread = included.filter(sentence => sentence.onThread);
+  const pool = onThread.length > 0 ? onThread : included;
+
+  const overlap = (a: Set<string>, b: Set<string>) => {
+    const shared = [...a].filter(term => b.has(term)).length;
+    return shared / Math.max(Math.min(a.size, b.size), 1);
+  };
+
+  const picked: typeof scored = [];
+  for (const sentence of [...pool].sort((a, b) => b.score - a.score)) {
+    if (picked.length >= limit) {
+      break;
+    }
+    if (sentence.terms.size > 0 && picked.every(other => overlap(sentence.terms, other.terms) <= MAX_OVERLAP)) {
+      picked.push(sentence);
+    }
+  }
+
+  return scored
+    .filter(sentence => picked.includes(sentence))
+    .map(({ text, speaker, ref, score }) => ({ text, speaker, ref, score }));
+}
+
+/**
+ * Renders picked sentences as a cited list, e.g. "- The Skeptic: Types slow prototypes. [R2-skeptic]"
+ */
+export function formatExtract(sentences: ExtractedSentence[]): string {
+  return sentences.map(sentence => `- ${sentence.speaker}: ${sentence.text} [${sentence.ref}]`).join('\n');
+}
@@ -5,7 +5,11 @@
  */
 
 import { DebateResult } from './orchestrator';
-import { DebateRound, AgentResponse, ConvergenceAssessment } from './session';
+import { DebateRound, AgentResponse, ConvergenceAssessment, DebateSessionManager, Ratification, formatGuidance, speakerName } from './session';
+import { summarizeUsage, UsageSummary, UsageTotals } from './usage';
+import { describeJudgeSplit } from './moderator-panel';
+import { findCitedResponse, responseRef } from './citations';
+import { describeRatification } from './ratification';
 
 /**
  * Formats a complete debate history for display
@@ -25,16 +29,33 @@ export function formatDebateHistory(result: DebateResult): string {
   lines.push(`Total Rounds: ${totalRounds}`);
   lines.push(`Convergence Achieved: ${convergenceAchieved ? 'Yes' : 'No'}`);
   lines.push(`Participating Models: ${session.config.models.join(', ')}`);
+  if (session.config.participants) {
+    lines.push(`Participants: ${session.config.participants.map(p => `${p.name} (${p.model})`).join(', ')}`);
+  }
+  if (session.status === 'budget_exhausted') {
+    lines.push('Stopped Early: budget exhausted');
+  } else if (session.status === 'cancelled') {
+    lines.push(`Stopped Early: ${session.cancellationReason || 'cancelled'}`);
+  }
   lines.push('');
 
-  // Format each round (Requirements 7.1, 7.2)
-  for (const round of session.rounds) {
+  // Format each round, with user interventions where they were given (Requirements 7.1, 7.2)
+  for (const entry of DebateSessionManager.getTimeline(session)) {
+    if (entry.type === 'intervention') {
+      lines.push('--- USER INTERVENTION ---');
+      lines.push(entry.intervention.content);
+      lines.push(`(Timestamp: ${entry.intervention.timestamp.toISOString()})`);
+      lines.push('');
+      continue;
+    }
+
+    const { round } = entry;
     lines.push(`--- ROUND ${round.roundNumber} ---`);
     lines.push('');
 
     // Format agent responses with names and content (Requirement 7.2)
     for (const response of round.responses) {
-      lines.push(`[${response.model.toUpperCase()}]`);
+      lines.push(formatSpeaker(round.roundNumber, response));
       if (response.error) {
         lines.push(`ERROR: ${response.error}`);
       } else {
@@ -50,6 +71,20 @@ export function formatDebateHistory(result: DebateResult): string {
       lines.push(formatConvergenceAssessment(round.convergenceCheck));
       lines.push('');
     }
+
+    if (round.diagnostics && round.diagnostics.length > 0) {
+      lines.push('--- PARSE DIAGNOSTICS ---');
+      for (const diagnostic of round.diagnostics) {
+        lines.push(`${diagnostic.role} (${diagnostic.model}), ${diagnostic.stage} answer rejected: ${diagnostic.error}`);
+      }
+      lines.push('');
+    }
+
+    if (round.guidance) {
+      lines.push('--- MODERATOR GUIDANCE ---');
+      lines.push(formatGuidance(round.guidance));
+      lines.push('');
+    }
   }
 
   // Include final synthesized answer (Requirement 7.3)
@@ -59,6 +94,42 @@ export function formatDebateHistory(result: DebateResult): string {
   lines.push(finalAnswer);
   lines.push('');
 
+  // Citations as Markdown link definitions, so that [R2-gpt-5] in the answer links to the response headed #R2-gpt-5
+  if (session.citations && session.citations.cited.length > 0) {
+    lines.push('--- CITATIONS ---');
+    for (const ref of session.citations.cited) {
+      const cited = findCitedResponse(ref, session.rounds);
+      if (cited) {
+        lines.push(`[${ref}]: #${ref} "Round ${cited.round.roundNumber}, ${speakerName(cited.response)}"`);
+      }
+    }
+    if (session.citations.unknown.length > 0) {
+      lines.push(`Unknown citations (no such response): ${session.citations.unknown.join(', ')}`);
+    }
+    lines.push('');
+  }
+
+  // The same answer as the object downstream tooling reads (structuredSynthesis)
+  if (result.synthesis) {
+    lines.push('--- STRUCTURED SYNTHESIS ---');
+    lines.push(JSON.stringify(result.synthesis, null, 2));
+    lines.push('');
+  }
+
+  if (session.synthesisDiagnostics) {
+    lines.push('--- SYNTHESIS PARSE DIAGNOSTICS ---');
+    for (const diagnostic of session.synthesisDiagnostics) {
+      lines.push(`${diagnostic.role} (${diagnostic.model}), ${diagnostic.stage} answer rejected: ${diagnostic.error}`);
+    }
+    lines.push('');
+  }
+
+  if (session.ratification) {
+    lines.push('--- RATIFICATION ---');
+    lines.push(formatRatification(session.ratification));
+    lines.push('');
+  }
+
   // Include final convergence assessment if different from last round
   if (session.convergenceAssessment && 
       (!session.rounds.length || 
@@ -68,6 +139,74 @@ export function formatDebateHistory(result: DebateResult): string {
     lines.push('');
   }
 
+  // Include token usage when calls were recorded
+  if (session.usage && session.usage.length > 0) {
+    lines.push('--- TOKEN USAGE ---');
+    lines.push(formatUsageSummary(summarizeUsage(session.usage)));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats the heading of an agent response; the model is added when the participant has its own name.
+ * The heading ends with the response's reference id, which citations in the final answer point to.
+ */
+function formatSpeaker(roundNumber: number, response: AgentResponse): string {
+  const name = speakerName(response);
+  const heading = name === response.model ? `[${name.toUpperCase()}]` : `[${name.toUpperCase()}] (${response.model})`;
+  return `${heading} #${responseRef(roundNumber, response)}`;
+}
+
+/**
+ * Formats the participants' ballots on the final answer and whether it was revised after them
+ */
+function formatRatification(ratification: Ratification): string {
+  const lines: string[] = [describeRatification(ratification)];
+  for (const ballot of ratification.ballots) {
+    const name = ballot.participantName === ballot.model ? ballot.participantName : `${ballot.participantName} (${ballot.model})`;
+    lines.push(ballot.vote ? `  ${name}: ${ballot.vote} - ${ballot.reasoning}` : `  ${name}: abstained - ${ballot.error}`);
+    for (const correction of ballot.corrections) {
+      lines.push(`    - ${correction}`);
+    }
+  }
+  for (const diagnostic of ratification.diagnostics || []) {
+    lines.push(`${diagnostic.role} (${diagnostic.model}), ${diagnostic.stage} answer rejected: ${diagnostic.error}`);
+  }
+  if (ratification.originalAnswer !== undefined) {
+    lines.push('The final answer above was revised after the ballots; the answer as voted on was:');
+    lines.push(ratification.originalAnswer);
+  } else if (ratification.revisionError) {
+    lines.push(`Revision failed, the final answer is the one voted on: ${ratification.revisionError}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Formats a usage summary for display
+ * @param summary - Aggregated usage of a debate
+ * @returns Formatted string
+ */
+function formatUsageSummary(summary: UsageSummary): string {
+  const totals = (usage: UsageTotals) =>
+    `${usage.totalTokens} tokens (${usage.promptTokens} prompt / ${usage.completionTokens} completion), ` +
+    `${usage.calls} calls, $${usage.cost.toFixed(4)}`;
+
+  const lines: string[] = [];
+  lines.push(`Total: ${totals(summary)}`);
+  lines.push('By Role:');
+  for (const [role, usage] of Object.entries(summary.byRole)) {
+    lines.push(`  ${role}: ${totals(usage!)}`);
+  }
+  lines.push('By Model:');
+  for (const [model, usage] of Object.entries(summary.byModel)) {
+    lines.push(`  ${model}: ${totals(usage)}`);
+  }
+  lines.push('By Round:');
+  for (const [roundNumber, usage] of Object.entries(summary.byRound)) {
+    lines.push(`  Round ${roundNumber}: ${totals(usage)}`);
+  }
   return lines.join('\n');
 }
 
@@ -81,5 +220,17 @@ function formatConvergenceAssessment(assessment: ConvergenceAssessment): string
   lines.push(`Converged: ${assessment.isConverged ? 'Yes' : 'No'}`);
   lines.push(`Confidence Score: ${assessment.confidenceScore.toFixed(2)}`);
   lines.push(`Reasoning: ${assessment.reasoning}`);
+  if (assessment.metrics) {
+    const { similarity, novelty, stanceAgreement, score } = assessment.metrics;
+    lines.push(`Metrics: similarity ${similarity.toFixed(2)}, novelty ${novelty.toFixed(2)}, stance agreement ${stanceAgreement.toFixed(2)}, score ${score.toFixed(2)}`);
+  }
+  if (assessment.judges) {
+    const split = describeJudgeSplit(assessment.judges);
+    lines.push(split ? `Judges disagreed: ${split}` : 'Judges agreed');
+    for (const judge of assessment.judges) {
+      const vote = judge.failed ? 'abstained' : `${judge.isConverged ? 'converged' : 'not converged'} (${judge.confidenceScore.toFixed(2)})`;
+      lines.push(`  ${judge.model}: ${vote} - ${judge.reasoning}`);
+    }
+  }
   return lines.join('\n');
 }
\ No newline at end of file
@@ -2,26 +2,244 @@
 // This file will be populated with the main debate orchestration logic
 // Exports will be added as components are implemented
 
-export { AIBuilderClient, type ChatRequest, type ChatResponse, type Message } from './client';
+export { 
+  AIBuilderClient, 
+  OpenAICompatibleProvider,
+  readEventStream,
+  requestProvider,
+  readJsonBody,
+  parseEventData,
+  toModelMetadata,
+  type ChatProvider,
+  type ModelMetadata,
+  type ChatCallOptions,
+  type CallRole,
+  type ServerSentEvent,
+  type OpenAICompatibleOptions,
+  type ChatRequest, 
+  type ChatResponse, 
+  type Message 
+} from './client';
+export {
+  ProviderRegistry,
+  AnthropicProvider,
+  OllamaProvider,
+  DEFAULT_PROVIDER,
+  parseModelId,
+  createProviderRegistryFromEnv,
+  type ParsedModelId,
+  type AnthropicOptions,
+  type OllamaOptions
+} from './providers';
 export { 
   type DebateConfig, 
+  type ParticipantConfig,
   type ValidationError, 
   type ValidationResult,
   type AvailableModel,
+  type TurnOrder,
+  type RunMode,
   AVAILABLE_MODELS,
+  TURN_ORDERS,
+  RUN_MODES,
   validateDebateConfig,
+  resolveParticipants,
+  loadParticipants,
   createDefaultConfig 
 } from './config';
 export { 
   DebateSessionManager,
+  speakerName,
+  buildTimeline,
+  formatGuidance,
+  type UserIntervention,
+  type ModeratorGuidance,
+  type TimelineEntry,
   type DebateSession,
+  type SessionLease,
   type DebateRound,
   type AgentResponse,
   type ConvergenceAssessment,
+  type JudgeVerdict,
+  type RatificationBallot,
+  type Ratification,
   type DebateStatus
 } from './session';
-export { RoundManager } from './round-manager';
-export { Moderator } from './moderator';
-export { Synthesizer } from './synthesizer';
-export { DebateOrchestrator, type DebateResult } from './orchestrator';
-export { formatDebateHistory } from './formatter';
\ No newline at end of file
+export { RoundManager, type AgentDelta } from './round-manager';
+export { Moderator, type ModeratorVerdict } from './moderator';
+export {
+  ModeratorPanel,
+  describeJudgeSplit,
+  JUDGE_AGGREGATIONS,
+  type JudgeAggregation
+} from './moderator-panel';
+export {
+  computeConvergenceMetrics,
+  applyConvergencePolicy,
+  convergenceScore,
+  tfidfSimilarity,
+  novelty,
+  stanceOf,
+  tokenize,
+  CONVERGENCE_MODES,
+  DEFAULT_CONVERGENCE_POLICY,
+  type ConvergenceMode,
+  type ConvergencePolicy,
+  type ConvergenceMetrics
+} from './convergence-metrics';
+export {
+  requestStructuredOutput,
+  parseStructuredOutput,
+  extractJsonObject,
+  stripCodeFences,
+  describeSchema,
+  validateAgainstSchema,
+  type OutputSchema,
+  type FieldSchema,
+  type FieldType,
+  type ParseDiagnostic,
+  type StructuredOutput
+} from './structured-output';
+export { RoundSummarizer } from './round-summarizer';
+export {
+  ContextBuilder,
+  CONTEXT_MODES,
+  DEFAULT_CONTEXT_STRATEGY,
+  estimateTokens,
+  estimateMessageTokens,
+  extractiveDigest,
+  type ContextMode,
+  type ContextStrategy,
+  type ContextRound,
+  type ContextEntry
+} from './context';
+export {
+  responseRef,
+  extractCitations,
+  findCitedResponse,
+  checkCitations,
+  type CitationCheck
+} from './citations';
+export {
+  Synthesizer,
+  SYNTHESIS_STRATEGIES,
+  renderSynthesis,
+  type StructuredSynthesis,
+  type SynthesisDisagreement,
+  type MinorityPosition,
+  type SynthesisResult,
+  type SynthesisStrategy
+} from './synthesizer';
+export {
+  splitSentences,
+  extractKeySentences,
+  formatExtract,
+  type ExtractedSentence
+} from './extractive-summary';
+export {
+  Ratifier,
+  RATIFICATION_VOTES,
+  tallyRatification,
+  describeRatification,
+  needsRevision,
+  type RatificationVote
+} from './ratification';
+export { DebateOrchestrator, DEFAULT_CONTINUATION_ROUNDS, type DebateResult } from './orchestrator';
+export {
+  DebateEventEmitter,
+  type DebateEvent,
+  type DebateEventType,
+  type DebateEventOf,
+  type DebateEventListener,
+  type AgentTurn
+} from './events';
+export {
+  serializeSession,
+  deserializeSession,
+  isInterrupted,
+  hasLiveLease,
+  CHECKPOINT_VERSION,
+  LEASE_HEARTBEAT_MS,
+  LEASE_TTL_MS,
+  LEASE_OWNER,
+  type Checkpoint
+} from './checkpoint';
+export {
+  MemorySessionStore,
+  FileSessionStore,
+  SqliteSessionStore,
+  createSessionStore,
+  type SessionStore,
+  type SessionFilter,
+  type RetentionPolicy
+} from './session-store';
+export { formatDebateHistory } from './formatter';
+export {
+  RecordingClient,
+  ReplayClient,
+  hashChatRequest,
+  loadCassette,
+  CASSETTE_VERSION,
+  type Cassette,
+  type CassetteInteraction
+} from './cassette';
+export {
+  ScriptedMockProvider,
+  loadMockScript,
+  type MockScript,
+  type MockVerdict,
+  type MockBallot,
+  type MockFailure
+} from './mock-provider';
+export {
+  UsageTrackingProvider,
+  summarizeUsage,
+  calculateCost,
+  findPricing,
+  loadPriceTable,
+  isBudgetExhausted,
+  type UsageRecord,
+  type UsageTotals,
+  type UsageSummary,
+  type DebateBudget,
+  type ModelPricing,
+  type PriceTable
+} from './usage';
+export {
+  DebateCancelledError,
+  ProviderError,
+  AuthenticationError,
+  RateLimitError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  MalformedResponseError,
+  ContentFilteredError,
+  StructuredOutputError,
+  errorFromResponse,
+  parseRetryAfter,
+  type ProviderErrorOptions
+} from './errors';
+export {
+  ModelCatalog,
+  STATIC_MODELS,
+  type ModelInfo
+} from './model-catalog';
+export {
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  isRetryable,
+  computeRetryDelay,
+  withRetry,
+  type RetryPolicy,
+  type ErrorClass
+} from './retry';
+export {
+  CallTimeoutProvider,
+  withTimeout,
+  abortableDelay,
+  raceAbort,
+  throwIfAborted,
+  abortReason,
+  type LinkedSignal
+} from './cancellation';
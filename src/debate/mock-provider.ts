@@ -0,0 +1,193 @@
+/**
+ * Scripted mock provider
+ * Plays back what each participant, the moderator and the synthesizer say from a script,
+ * so the CLI, the server and the frontend can be exercised without any API token
+ */
+
+import { readFileSync } from 'fs';
+import { parseModelId, DEFAULT_PROVIDER } from './providers';
+import { abortableDelay, throwIfAborted } from './cancellation';
+import { TimeoutError, errorFromResponse } from './errors';
+import {
+  type CallRole,
+  type ChatCallOptions,
+  type ChatProvider,
+  type ChatRequest,
+  type ChatResponse
+} from './client';
+import type { StructuredSynthesis } from './synthesizer';
+import type { RatificationVote } from './ratification';
+
+/**
+ * A scripted failure. Every set field must match the call for the failure to apply.
+ */
+export interface MockFailure {
+  role?: CallRole;
+  model?: string;
+  round?: number;
+  kind: 'error' | 'timeout';
+  status?: number;            // For 'error', default: 500
+  message?: string;
+  retryAfterMs?: number;      // For 'error', reported as if sent in a Retry-After header
+  times?: number;             // How many matching calls fail before succeeding, default: 1
+}
+
+/**
+ * A scripted moderator verdict. Objects are sent as JSON, strings are sent verbatim (e.g. malformed JSON).
+ * Steering verdicts add "disagreements" and "questions".
+ */
+export type MockVerdict = string | {
+  isConverged: boolean;
+  confidenceScore: number;
+  reasoning: string;
+  disagreements?: string[];
+  questions?: string[];
+};
+
+/**
+ * A scripted ratification ballot. Objects are sent as JSON, strings are sent verbatim.
+ */
+export type MockBallot = string | {
+  vote: RatificationVote;
+  corrections: string[];
+  reasoning: string;
+};
+
+export interface MockScript {
+  // Per participant id or model, one entry per round; the last entry is reused for later rounds.
+  // "{model}" and "{round}" are substituted.
+  agents?: Record<string, string[]>;
+  // Used for models without their own entry
+  defaultAgentResponse?: string;
+  // One verdict per round
+  moderator?: MockVerdict[];
+  // Per judge model of a moderator panel, one verdict per round; judges without an entry use moderator
+  judges?: Record<string, MockVerdict[]>;
+  // A structured synthesis object is sent as JSON (structuredSynthesis), a string verbatim
+  synthesizer?: string | StructuredSynthesis;
+  // Digest of a compressed round (rolling_summary context); "{round}" is substituted
+  roundSummary?: string;
+  // Per participant id or model, its ballot on the final answer (ratification); others approve
+  ballots?: Record<string, MockBallot>;
+  failures?: MockFailure[];
+  latencyMs?: number;         // Simulated delay before each response
+  timeoutMs?: number;         // Delay before a scripted timeout is raised, default: 1000
+}
+
+/**
+ * Reads a mock script from a JSON file
+ */
+export function loadMockScript(filePath: string): MockScript {
+  return JSON.parse(readFileSync(filePath, 'utf-8')) as MockScript;
+}
+
+export class ScriptedMockProvider implements ChatProvider {
+  private readonly script: MockScript;
+  private readonly failureCounts: number[];
+  private callCount = 0;
+
+  constructor(script: MockScript | string = {}) {
+    this.script = typeof script === 'string' ? loadMockScript(script) : script;
+    this.failureCounts = (this.script.failures || []).map(() => 0);
+  }
+
+  async chatCompletion(request: ChatRequest, options: ChatCallOptions = {}): Promise<ChatResponse> {
+    const role = options.role || 'agent';
+    const round = options.roundNumber || 1;
+    this.callCount++;
+    throwIfAborted(options.signal);
+
+    if (this.script.latencyMs) {
+      await abortableDelay(this.script.latencyMs, options.signal);
+    }
+
+    const failure = this.takeFailure(role, request.model, round);
+    if (failure) {
+      if (failure.kind === 'timeout') {
+        const timeoutMs = this.script.timeoutMs ?? 1000;
+        await abortableDelay(timeoutMs, options.signal);
+        throw new TimeoutError(`Request timed out (mock ${role} ${request.model}, round ${round})`, timeoutMs);
+      }
+      const status = failure.status || 500;
+      throw errorFromResponse(status, 'Mock Failure', failure.message || 'Scripted failure', failure.retryAfterMs);
+    }
+
+    const content = this.contentFor(role, request.model, round, options.participantId);
+    if (options.onDelta) {
+      for (const piece of content.match(/\S+\s*/g) || []) {
+        options.onDelta(piece);
+      }
+    }
+
+    const promptTokens = Math.ceil(request.messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      id: `mock-${this.callCount}`,
+      choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      }
+    };
+  }
+
+  getProviderNames(): string[] {
+    const providers = new Set([DEFAULT_PROVIDER]);
+    Object.keys(this.script.agents || {}).forEach(model => providers.add(parseModelId(model).provider));
+    return Array.from(providers);
+  }
+
+  private takeFailure(role: CallRole, model: string, round: number): MockFailure | undefined {
+    const failures = this.script.failures || [];
+
+    for (let i = 0; i < failures.length; i++) {
+      const failure = failures[i];
+      const matches = (failure.role === undefined || failure.role === role)
+        && (failure.model === undefined || failure.model === model)
+        && (failure.round === undefined || failure.round === round);
+
+      if (matches && this.failureCounts[i] < (failure.times ?? 1)) {
+        this.failureCounts[i]++;
+        return failure;
+      }
+    }
+
+    return undefined;
+  }
+
+  private contentFor(role: CallRole, model: string, round: number, participantId?: string): string {
+    const pick = <T>(entries: T[] | undefined): T | undefined =>
+      entries && entries.length > 0 ? entries[Math.min(round, entries.length) - 1] : undefined;
+
+    switch (role) {
+      case 'moderator': {
+        const verdict = pick(this.script.judges?.[model])
+          ?? pick(this.script.moderator)
+          ?? { isConverged: false, confidenceScore: 0.5, reasoning: `Mock moderator verdict for round ${round}` };
+        return typeof verdict === 'string' ? verdict : JSON.stringify(verdict);
+      }
+      case 'synthesizer':
+        if (typeof this.script.synthesizer === 'object') {
+          return JSON.stringify(this.script.synthesizer);
+        }
+        return this.script.synthesizer ?? 'Mock synthesis of the debate.';
+      case 'summarizer':
+        return (this.script.roundSummary ?? 'Mock summary of round {round}.').replace(/\{round\}/g, String(round));
+      case 'ratifier': {
+        const ballot = (participantId ? this.script.ballots?.[participantId] : undefined)
+          ?? this.script.ballots?.[model]
+          ?? { vote: 'approve', corrections: [], reasoning: `Mock ballot of ${model}` };
+        return typeof ballot === 'string' ? ballot : JSON.stringify(ballot);
+      }
+      default: {
+        const template = pick(participantId ? this.script.agents?.[participantId] : undefined)
+          ?? pick(this.script.agents?.[model])
+          ?? this.script.defaultAgentResponse
+          ?? '{model} argues its position for round {round}.';
+        return template.replace(/\{model\}/g, model).replace(/\{round\}/g, String(round));
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Model catalog
+ * Caches the models each provider serves, so validation, the API and the CLI do not depend on a hardcoded list
+ */
+
+import { AVAILABLE_MODELS } from './config';
+import { DEFAULT_PROVIDER, parseModelId } from './providers';
+import { withTimeout } from './cancellation';
+import { type ChatProvider, type ModelMetadata } from './client';
+import { type PriceTable } from './usage';
+
+export interface ModelInfo extends ModelMetadata {
+  provider: string;           // Provider the model belongs to; id carries the matching prefix unless it is the default
+}
+
+// Used for the default provider until (or unless) its listing can be fetched
+export const STATIC_MODELS: ModelInfo[] = AVAILABLE_MODELS.map(id => ({ id, provider: DEFAULT_PROVIDER }));
+
+export class ModelCatalog {
+  // Keyed by provider, then by provider-local model name
+  private providers = new Map<string, Map<string, ModelInfo>>();
+  private refreshedAt?: Date;
+
+  constructor(models: ModelInfo[] = STATIC_MODELS) {
+    this.replace(models);
+  }
+
+  /**
+   * Fetches the model listing from the provider and replaces the cached models of every provider it reports.
+   * Providers whose listing fails or times out keep their previous (or static) models.
+   * @returns Number of models received
+   */
+  async refresh(provider: ChatProvider, timeoutMs = 5000): Promise<number> {
+    if (!provider.listModels) {
+      return 0;
+    }
+
+    const linked = withTimeout(undefined, timeoutMs, 'Model listing');
+    try {
+      const listed = await provider.listModels(linked.signal);
+      this.replace(listed.map(model => ({ ...model, provider: parseModelId(model.id).provider })));
+      this.refreshedAt = new Date();
+      return listed.length;
+    } catch {
+      return 0;
+    } finally {
+      linked.dispose();
+    }
+  }
+
+  /**
+   * Whether the last successful refresh is older than maxAgeMs (or never happened)
+   */
+  isStale(maxAgeMs: number): boolean {
+    return !this.refreshedAt || Date.now() - this.refreshedAt.getTime() > maxAgeMs;
+  }
+
+  list(): ModelInfo[] {
+    return Array.from(this.providers.values()).flatMap(models => Array.from(models.values()));
+  }
+
+  /**
+   * Identifiers of the known models, optionally of a single provider
+   */
+  ids(provider?: string): string[] {
+    return this.list().filter(model => provider === undefined || model.provider === provider).map(model => model.id);
+  }
+
+  /**
+   * Looks up a model by identifier, with or without the default provider prefix. A name without a tag
+   * also finds its ":latest" tag, which is how Ollama lists the models it pulled without one.
+   */
+  get(modelId: string): ModelInfo | undefined {
+    const { provider, model } = parseModelId(modelId);
+    const models = this.providers.get(provider);
+    return models?.get(model) ?? (model.includes(':') ? undefined : models?.get(`${model}:latest`));
+  }
+
+  has(modelId: string): boolean {
+    return this.get(modelId) !== undefined;
+  }
+
+  /**
+   * Whether the catalog knows the models of a provider; models of unknown providers cannot be checked
+   */
+  hasProvider(provider: string): boolean {
+    return this.providers.has(provider);
+  }
+
+  /**
+   * Prices of all models that report them, keyed by identifier
+   */
+  getPriceTable(): PriceTable {
+    const table: PriceTable = {};
+    for (const model of this.list()) {
+      if (model.pricing) {
+        table[model.id] = model.pricing;
+      }
+    }
+    return table;
+  }
+
+  private replace(models: ModelInfo[]): void {
+    const byProvider = new Map<string, Map<string, ModelInfo>>();
+    for (const info of models) {
+      const { model } = parseModelId(info.id);
+      if (!byProvider.has(info.provider)) {
+        byProvider.set(info.provider, new Map());
+      }
+      byProvider.get(info.provider)!.set(model, info);
+    }
+
+    byProvider.forEach((models, provider) => this.providers.set(provider, models));
+  }
+}
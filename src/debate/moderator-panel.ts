@@ -0,0 +1,128 @@
+/**
+ * ModeratorPanel - Several moderators judging convergence independently
+ * Runs the judges in parallel and combines their verdicts with an aggregation rule
+ */
+
+import { ChatProvider } from './client';
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from './retry';
+import { ContextBuilder } from './context';
+import { convergenceScore } from './convergence-metrics';
+import { Moderator, type ModeratorVerdict } from './moderator';
+import { type DebateRound, type JudgeVerdict, type UserIntervention } from './session';
+
+/**
+ * How the judges' verdicts are combined:
+ * - majority: more than half of the judges find convergence
+ * - unanimous: every judge finds convergence
+ * - mean_confidence: the judges' mean convergence score reaches the threshold
+ */
+export const JUDGE_AGGREGATIONS = ['majority', 'unanimous', 'mean_confidence'] as const;
+
+export type JudgeAggregation = typeof JUDGE_AGGREGATIONS[number];
+
+/**
+ * Describes how the judges of an assessment split, e.g. "2 of 3 judges found convergence (gpt-5 did not)"
+ * @returns undefined if there was no panel or all judges agreed
+ */
+export function describeJudgeSplit(judges: JudgeVerdict[] | undefined): string | undefined {
+  const voting = (judges || []).filter(judge => !judge.failed);
+  const converged = voting.filter(judge => judge.isConverged);
+  if (converged.length === 0 || converged.length === voting.length) {
+    return undefined;
+  }
+  const dissenting = voting.filter(judge => !judge.isConverged).map(judge => judge.model);
+  return `${converged.length} of ${voting.length} judges found convergence (${dissenting.join(', ')} did not)`;
+}
+
+export class ModeratorPanel {
+  private judges: { model: string; moderator: Moderator }[];
+  private aggregation: JudgeAggregation;
+
+  /**
+   * @param models - One judge per model; the first one with a usable verdict gives the guidance when steering
+   */
+  constructor(
+    client: ChatProvider,
+    models: string[],
+    aggregation: JudgeAggregation = 'majority',
+    retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    context: ContextBuilder = new ContextBuilder()
+  ) {
+    this.judges = models.map(model => ({ model, moderator: new Moderator(client, model, retryPolicy, context) }));
+    this.aggregation = aggregation;
+  }
+
+  /**
+   * Asks every judge in parallel and combines their verdicts. Judges that give no usable verdict abstain.
+   * A panel of one judge returns that judge's verdict unchanged.
+   *
+   * @param steering - Ask the judges for guidance for the next round (moderatorSteering); the guidance of
+   * the first judge that gave a usable verdict is kept, so a failing judge does not cost the round its steering
+   */
+  async assess(
+    topic: string,
+    rounds: DebateRound[],
+    threshold: number,
+    signal?: AbortSignal,
+    interventions: UserIntervention[] = [],
+    steering = false
+  ): Promise<ModeratorVerdict> {
+    if (this.judges.length === 1) {
+      return this.judges[0].moderator.assess(topic, rounds, threshold, signal, interventions, steering);
+    }
+
+    // mean_confidence compares the mean against the threshold, so the judges must not apply it themselves
+    const judgeThreshold = this.aggregation === 'mean_confidence' ? 0 : threshold;
+    const verdicts = await Promise.all(this.judges.map(({ moderator }) =>
+      moderator.assess(topic, rounds, judgeThreshold, signal, interventions, steering)
+    ));
+
+    const judges: JudgeVerdict[] = verdicts.map((verdict, i) => ({
+      model: this.judges[i].model,
+      ...verdict.assessment,
+      ...(verdict.failed ? { failed: true } : {})
+    }));
+
+    return {
+      assessment: { ...this.aggregate(judges, threshold), judges },
+      guidance: verdicts.find(verdict => !verdict.failed && verdict.guidance)?.guidance,
+      diagnostics: verdicts.flatMap(verdict => verdict.diagnostics),
+      failed: judges.every(judge => judge.failed) || undefined
+    };
+  }
+
+  /**
+   * Combines the verdicts of the judges that did not fail
+   */
+  private aggregate(judges: JudgeVerdict[], threshold: number): { isConverged: boolean; confidenceScore: number; reasoning: string } {
+    const voting = judges.filter(judge => !judge.failed);
+    if (voting.length === 0) {
+      return { isConverged: false, confidenceScore: 0, reasoning: 'No judge gave a usable verdict' };
+    }
+
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    const converged = voting.filter(judge => judge.isConverged);
+    const votes = `${converged.length} of ${voting.length} judges found convergence`;
+
+    if (this.aggregation === 'mean_confidence') {
+      const score = mean(voting.map(convergenceScore));
+      const isConverged = score >= threshold;
+      return {
+        isConverged,
+        confidenceScore: isConverged ? score : 1 - score,
+        reasoning: `${votes}; mean convergence score ${score.toFixed(2)} against threshold ${threshold}`
+      };
+    }
+
+    const isConverged = this.aggregation === 'unanimous'
+      ? converged.length === voting.length
+      : converged.length > voting.length / 2;
+    // Confidence of the judges on the winning side
+    const winners = voting.filter(judge => judge.isConverged === isConverged);
+    return {
+      isConverged,
+      confidenceScore: winners.length > 0 ? mean(winners.map(judge => judge.confidenceScore)) : 0,
+      reasoning: `${votes} (${this.aggregation})`
+    };
+  }
+}
@@ -3,16 +3,64 @@
  * Analyzes debate rounds to determine if agents have reached consensus
  */
 
-import { AIBuilderClient, Message } from './client';
-import { DebateRound, ConvergenceAssessment } from './session';
+import { ChatProvider, Message } from './client';
+import { StructuredOutputError } from './errors';
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from './retry';
+import { ContextBuilder, type ContextEntry } from './context';
+import { describeSchema, requestStructuredOutput, type OutputSchema, type ParseDiagnostic } from './structured-output';
+import { DebateRound, ConvergenceAssessment, ModeratorGuidance, UserIntervention, speakerName } from './session';
+
+const MODERATOR_MAX_TOKENS = 500;
+// Guidance is kept short so that it steers the next round instead of taking it over
+const MAX_GUIDANCE_QUESTIONS = 3;
+
+const VERDICT_SCHEMA: OutputSchema = {
+  isConverged: { type: 'boolean' },
+  confidenceScore: { type: 'number' },
+  reasoning: { type: 'string' }
+};
+
+// A converged debate needs no steering, so the guidance fields may be left out
+const STEERING_VERDICT_SCHEMA: OutputSchema = {
+  ...VERDICT_SCHEMA,
+  disagreements: { type: 'string[]', optional: true },
+  questions: { type: 'string[]', optional: true }
+};
+
+interface VerdictJson {
+  isConverged: boolean;
+  confidenceScore: number;
+  reasoning: string;
+  disagreements?: string[];
+  questions?: string[];
+}
+
+/**
+ * Convergence verdict, the guidance for the next round (steering mode) and the answers that could not be parsed
+ */
+export interface ModeratorVerdict {
+  assessment: ConvergenceAssessment;
+  guidance?: ModeratorGuidance;   // Missing if steering is off, or the moderator gave none or failed
+  diagnostics: ParseDiagnostic[];
+  failed?: boolean;               // The assessment is a fallback because the moderator gave no usable verdict
+}
 
 export class Moderator {
-  private client: AIBuilderClient;
+  private client: ChatProvider;
   private model: string;
+  private retryPolicy: RetryPolicy;
+  private context: ContextBuilder;
 
-  constructor(client: AIBuilderClient, model: string) {
+  constructor(
+    client: ChatProvider,
+    model: string,
+    retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    context: ContextBuilder = new ContextBuilder()
+  ) {
     this.client = client;
     this.model = model;
+    this.retryPolicy = retryPolicy;
+    this.context = context;
   }
 
   /**
@@ -22,27 +70,58 @@ export class Moderator {
    * @param topic - The debate topic
    * @param rounds - All debate rounds so far
    * @param threshold - Convergence threshold (0-1)
+   * @param signal - Aborts the evaluation; it then rejects instead of falling back
+   * @param interventions - User input given between the rounds
    * @returns Promise<ConvergenceAssessment>
    */
   async evaluateConvergence(
     topic: string,
     rounds: DebateRound[],
-    threshold: number
+    threshold: number,
+    signal?: AbortSignal,
+    interventions: UserIntervention[] = []
   ): Promise<ConvergenceAssessment> {
+    return (await this.assess(topic, rounds, threshold, signal, interventions)).assessment;
+  }
+
+  /**
+   * Evaluates convergence like evaluateConvergence, keeping the diagnostics of answers that had to be repaired
+   * or could not be parsed. With steering, the same call also names the main points of disagreement and asks
+   * one to three focused questions for the next round.
+   *
+   * @param steering - Ask for guidance for the next round (moderatorSteering)
+   */
+  async assess(
+    topic: string,
+    rounds: DebateRound[],
+    threshold: number,
+    signal?: AbortSignal,
+    interventions: UserIntervention[] = [],
+    steering = false
+  ): Promise<ModeratorVerdict> {
     if (rounds.length === 0) {
       return {
-        isConverged: false,
-        confidenceScore: 0,
-        reasoning: 'No rounds to evaluate'
+        assessment: {
+          isConverged: false,
+          confidenceScore: 0,
+          reasoning: 'No rounds to evaluate'
+        },
+        diagnostics: []
       };
     }
 
-    const prompt = this.buildConvergencePrompt(topic, rounds, threshold);
+    const schema = steering ? STEERING_VERDICT_SCHEMA : VERDICT_SCHEMA;
+    const prompt = this.context.fitEntries(
+      this.context.selectTimeline(rounds, interventions),
+      selected => this.buildConvergencePrompt(topic, selected, threshold, steering),
+      this.model,
+      MODERATOR_MAX_TOKENS
+    );
     
     const messages: Message[] = [
       {
         role: 'system',
-        content: 'You are a debate moderator. Analyze the provided debate rounds and determine if the participants have reached convergence. You MUST respond ONLY with a valid JSON object in this exact format: {"isConverged": boolean, "confidenceScore": number, "reasoning": string}. Do not include any other text before or after the JSON. The confidenceScore must be between 0 and 1.'
+        content: `You are a debate moderator. Analyze the provided debate rounds and determine if the participants have reached convergence. You MUST respond ONLY with a valid JSON object in this exact format: ${describeSchema(schema)}. Do not include any other text before or after the JSON. The confidenceScore must be between 0 and 1.`
       },
       {
         role: 'user',
@@ -51,25 +130,51 @@ export class Moderator {
     ];
 
     try {
-      const response = await this.client.chatCompletion({
-        model: this.model,
-        messages,
-        temperature: 0.3, // Lower temperature for more consistent analysis
-        max_tokens: 500
-      });
+      const { value, diagnostics } = await requestStructuredOutput<VerdictJson>(
+        this.client,
+        {
+          model: this.model,
+          messages,
+          temperature: 0.3, // Lower temperature for more consistent analysis
+          max_tokens: MODERATOR_MAX_TOKENS
+        },
+        { role: 'moderator', roundNumber: rounds[rounds.length - 1].roundNumber, signal },
+        schema,
+        this.retryPolicy
+      );
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response content from moderator');
+      return {
+        assessment: this.toAssessment(value, threshold),
+        guidance: steering ? this.toGuidance(value) : undefined,
+        diagnostics
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      // Conservative fallback; the diagnostics tell a parse failure apart from a genuine verdict
+      if (error instanceof StructuredOutputError) {
+        return {
+          assessment: {
+            isConverged: false,
+            confidenceScore: 0,
+            reasoning: `Failed to parse moderator response: ${error.message}`
+          },
+          diagnostics: error.diagnostics,
+          failed: true
+        };
       }
 
-      return this.parseConvergenceResponse(content, threshold);
-    } catch (error) {
       // Fallback assessment if moderator fails
       return {
-        isConverged: false,
-        confidenceScore: 0,
-        reasoning: `Moderator evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        assessment: {
+          isConverged: false,
+          confidenceScore: 0,
+          reasoning: `Moderator evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        },
+        diagnostics: [],
+        failed: true
       };
     }
   }
@@ -77,16 +182,25 @@ export class Moderator {
   /**
    * Builds the prompt for convergence analysis
    */
-  private buildConvergencePrompt(topic: string, rounds: DebateRound[], threshold: number): string {
+  private buildConvergencePrompt(topic: string, entries: ContextEntry[], threshold: number, steering: boolean): string {
     let prompt = `Topic: "${topic}"\n\n`;
     prompt += `Convergence Threshold: ${threshold}\n\n`;
     prompt += `Please analyze the following debate rounds to determine convergence:\n\n`;
 
-    rounds.forEach((round, index) => {
+    entries.forEach(entry => {
+      if (entry.type === 'intervention') {
+        prompt += `=== User Intervention ===\n${entry.intervention.content}\n\n`;
+        return;
+      }
+      const { round, digest } = entry;
+      if (digest !== undefined) {
+        prompt += `=== Round ${round.roundNumber} (summary) ===\n${digest}\n\n`;
+        return;
+      }
       prompt += `=== Round ${round.roundNumber} ===\n`;
       round.responses.forEach(response => {
         if (!response.error) {
-          prompt += `${response.model}: ${response.content}\n\n`;
+          prompt += `${speakerName(response)}: ${response.content}\n\n`;
         }
       });
     });
@@ -95,8 +209,13 @@ export class Moderator {
     prompt += `1. Are the agents' positions semantically aligned?\n`;
     prompt += `2. Have new substantive arguments stopped emerging?\n`;
     prompt += `3. Have agents acknowledged or incorporated others' points?\n\n`;
+    if (steering) {
+      prompt += `Unless the agents have converged, also steer the next round:\n`;
+      prompt += `- disagreements: the main points the agents still disagree on\n`;
+      prompt += `- questions: one to three focused questions or instructions that would move the debate forward\n\n`;
+    }
     prompt += `IMPORTANT: You MUST respond with ONLY a valid JSON object in this exact format:\n`;
-    prompt += `{"isConverged": boolean, "confidenceScore": number, "reasoning": string}\n\n`;
+    prompt += `${describeSchema(steering ? STEERING_VERDICT_SCHEMA : VERDICT_SCHEMA)}\n\n`;
     prompt += `Do not include any explanatory text, analysis, or commentary outside the JSON.\n`;
     prompt += `The confidenceScore should reflect how certain you are about the convergence assessment (0 = not certain, 1 = completely certain).`;
 
@@ -104,59 +223,31 @@ export class Moderator {
   }
 
   /**
-   * Parses the moderator's response and ensures confidence score is bounded
+   * Turns a validated verdict into an assessment with the confidence score bounded to [0, 1]
    */
-  private parseConvergenceResponse(content: string, threshold: number): ConvergenceAssessment {
-    try {
-      // Clean the content and try to extract JSON
-      const cleanContent = content.trim();
-      
-      // Try to parse the entire content as JSON first
-      let parsed;
-      try {
-        parsed = JSON.parse(cleanContent);
-      } catch {
-        // If that fails, try to extract JSON from response
-        const jsonMatch = cleanContent.match(/\{[\s\S]*?\}/);
-        if (!jsonMatch) {
-          throw new Error(`No JSON found in response. Raw content: ${cleanContent.substring(0, 200)}`);
-        }
-        parsed = JSON.parse(jsonMatch[0]);
-      }
-      
-      if (typeof parsed.isConverged !== 'boolean') {
-        throw new Error('isConverged must be a boolean');
-      }
-      
-      if (typeof parsed.confidenceScore !== 'number') {
-        throw new Error('confidenceScore must be a number');
-      }
-      
-      if (typeof parsed.reasoning !== 'string') {
-        throw new Error('reasoning must be a string');
-      }
+  private toAssessment(verdict: VerdictJson, threshold: number): ConvergenceAssessment {
+    // Ensure confidenceScore is clamped to [0, 1] (Requirement 4.4)
+    const clampedScore = Math.max(0, Math.min(1, verdict.confidenceScore));
 
-      // Ensure confidenceScore is clamped to [0, 1] (Requirement 4.4)
-      const clampedScore = Math.max(0, Math.min(1, parsed.confidenceScore));
-      
+    return {
       // Determine convergence based on threshold
-      const isConverged = parsed.isConverged && clampedScore >= threshold;
+      isConverged: verdict.isConverged && clampedScore >= threshold,
+      confidenceScore: clampedScore,
+      reasoning: verdict.reasoning
+    };
+  }
 
-      return {
-        isConverged,
-        confidenceScore: clampedScore,
-        reasoning: parsed.reasoning
-      };
-    } catch (error) {
-      // Fallback parsing if JSON parsing fails
-      const lowerContent = content.toLowerCase();
-      const seemsConverged = lowerContent.includes('converged') || lowerContent.includes('consensus');
-      
-      return {
-        isConverged: false, // Conservative fallback
-        confidenceScore: 0,
-        reasoning: `Failed to parse moderator response: ${error instanceof Error ? error.message : 'Unknown error'}. Raw content: ${content.substring(0, 200)}${content.length > 200 ? '...' : ''}`
-      };
+  /**
+   * Reads the guidance of a steering verdict; blank entries are dropped and at most three questions kept
+   * @returns undefined if the verdict has no usable questions
+   */
+  private toGuidance(verdict: VerdictJson): ModeratorGuidance | undefined {
+    const nonBlank = (items: string[] = []) => items.map(item => item.trim()).filter(Boolean);
+    const questions = nonBlank(verdict.questions).slice(0, MAX_GUIDANCE_QUESTIONS);
+    if (questions.length === 0) {
+      return undefined;
     }
+
+    return { disagreements: nonBlank(verdict.disagreements), questions };
   }
-}
\ No newline at end of file
+}
@@ -4,154 +4,509 @@
  * Requirements: 4.2, 4.3, 5.3
  */
 
-import { AIBuilderClient } from './client';
-import { DebateConfig, validateDebateConfig } from './config';
-import { DebateSession, DebateSessionManager, DebateRound, ConvergenceAssessment } from './session';
+import { ChatProvider } from './client';
+import { DebateConfig, validateDebateConfig, resolveParticipants } from './config';
+import { DebateSession, DebateSessionManager, DebateRound, ConvergenceAssessment, type Ratification } from './session';
 import { RoundManager } from './round-manager';
-import { Moderator } from './moderator';
-import { Synthesizer } from './synthesizer';
+import { type ModeratorVerdict } from './moderator';
+import { ModeratorPanel, describeJudgeSplit } from './moderator-panel';
+import { applyConvergencePolicy, computeConvergenceMetrics, DEFAULT_CONVERGENCE_POLICY } from './convergence-metrics';
+import { Synthesizer, type StructuredSynthesis, type SynthesisResult } from './synthesizer';
+import { Ratifier, needsRevision } from './ratification';
+import { checkCitations } from './citations';
+import { RoundSummarizer } from './round-summarizer';
+import { ContextBuilder } from './context';
+import { UsageTrackingProvider, summarizeUsage, isBudgetExhausted } from './usage';
+import { CallTimeoutProvider, withTimeout, throwIfAborted, abortReason } from './cancellation';
+import { resolveRetryPolicy } from './retry';
+import { ModelCatalog } from './model-catalog';
+import { DebateEventEmitter } from './events';
+import { hasLiveLease, isInterrupted, LEASE_HEARTBEAT_MS, LEASE_OWNER, LEASE_TTL_MS } from './checkpoint';
+import { type SessionStore } from './session-store';
+
+// Rounds added by continueDebate unless the caller asks for a different number
+export const DEFAULT_CONTINUATION_ROUNDS = 3;
 
 export interface DebateResult {
   session: DebateSession;
   finalAnswer: string;
+  synthesis?: StructuredSynthesis; // Set with structuredSynthesis unless the synthesizer gave no usable object
   totalRounds: number;
   convergenceAchieved: boolean;
 }
 
 export class DebateOrchestrator {
-  private client: AIBuilderClient;
+  // Lifecycle events of every debate this orchestrator runs
+  readonly events: DebateEventEmitter;
+  private client: ChatProvider;
+  private catalog: ModelCatalog;
   private roundManager: RoundManager;
-  private moderator: Moderator;
+  private moderator: ModeratorPanel;
   private synthesizer: Synthesizer;
+  private ratifier: Ratifier;
+  private context: ContextBuilder;
+  private roundSummarizer: RoundSummarizer;
+  private store?: SessionStore;
+  // Running debates asked to pause at the next round boundary, and debates running a single round
+  private pauseRequests = new Set<string>();
+  private steps = new Set<string>();
 
-  constructor(client: AIBuilderClient) {
+  /**
+   * @param catalog - Models configurations are validated against, and the fallback source of prices
+   * @param events - Where lifecycle events are published, default: a new emitter
+   * @param store - Where sessions are kept and saved after every response, verdict and answer, default: nowhere
+   */
+  constructor(
+    client: ChatProvider,
+    catalog: ModelCatalog = new ModelCatalog(),
+    events: DebateEventEmitter = new DebateEventEmitter(),
+    store?: SessionStore
+  ) {
+    this.events = events;
+    this.store = store;
     this.client = client;
+    this.catalog = catalog;
     this.roundManager = new RoundManager(client);
     // Moderator and Synthesizer will be initialized with specific models from config
-    this.moderator = new Moderator(client, 'deepseek'); // Default, will be overridden
+    this.moderator = new ModeratorPanel(client, ['deepseek']); // Default, will be overridden
     this.synthesizer = new Synthesizer(client, 'deepseek'); // Default, will be overridden
+    this.ratifier = new Ratifier(client);
+    this.context = new ContextBuilder();
+    this.roundSummarizer = new RoundSummarizer(client, 'deepseek');
   }
 
   /**
    * Creates a new debate session with validated configuration
    * @param config - The debate configuration
-   * @returns A new DebateSession
+   * @returns A new DebateSession, added to the session store if there is one
    * @throws Error if configuration is invalid
    */
   createSession(config: DebateConfig): DebateSession {
-    const validation = validateDebateConfig(config);
+    const validation = validateDebateConfig(config, this.client.getProviderNames?.(), this.catalog);
     if (!validation.isValid) {
       const errorMessages = validation.errors.map(e => `${e.field}: ${e.message}`).join('; ');
       throw new Error(`Invalid debate configuration: ${errorMessages}`);
     }
 
-    return DebateSessionManager.createSession(config);
+    const session = DebateSessionManager.createSession(config);
+    this.store?.create(session);
+    return session;
   }
 
   /**
    * Runs a complete debate from start to finish
    * Requirements: 4.2, 4.3, 5.3
    * 
+   * Progress is published on events, from session_started to completed, paused, cancelled or error.
+   * A paused session continues from its last completed round when it is run again, an interrupted one
+   * (see findInterruptedSessions) from its last checkpointed step.
+   * 
    * @param session - The debate session to run
-   * @returns Promise<DebateResult> - Complete debate result with final answer
+   * @param signal - Cancels the debate; it then resolves with status cancelled instead of rejecting
+   * @returns Promise<DebateResult> - Complete debate result with final answer, or without one if the debate paused
+   * @throws Error if another process sharing the session store is running the debate
    */
-  async runDebate(
-    session: DebateSession,
-    onRoundComplete?: (round: DebateRound) => void,
-    onAgentResponse?: (response: any) => void
-  ): Promise<DebateResult> {
-    // Initialize moderator and synthesizer with models from config
-    this.moderator = new Moderator(this.client, session.config.moderatorModel);
-    this.synthesizer = new Synthesizer(this.client, session.config.synthesizerModel);
+  async runDebate(session: DebateSession, signal?: AbortSignal): Promise<DebateResult> {
+    const sessionId = session.id;
+    this.assertNotRunningElsewhere(session);
+    // The debate timeout and the caller's signal cancel the same way
+    const debate = withTimeout(signal, session.config.debateTimeoutMs, 'Debate');
+
+    // Record every call made for this session against it
+    const usage = session.usage || (session.usage = []);
+    const client = new UsageTrackingProvider(
+      new CallTimeoutProvider(this.client, session.config.callTimeoutMs),
+      record => usage.push(record),
+      { ...this.catalog.getPriceTable(), ...session.config.pricing }
+    );
+    const budgetExhausted = () => isBudgetExhausted(summarizeUsage(usage), session.config.budget);
+
+    // Initialize components with the tracked client, models, retry policy and context strategy from config
+    const retryPolicy = resolveRetryPolicy(session.config.retryPolicy);
+    const strategy = session.config.contextStrategy;
+    this.context = new ContextBuilder(strategy, model => this.catalog.get(model)?.contextWindow);
+    this.roundManager = new RoundManager(client, retryPolicy, this.context);
+    this.moderator = new ModeratorPanel(
+      client,
+      session.config.moderatorModels ?? [session.config.moderatorModel],
+      session.config.judgeAggregation,
+      retryPolicy,
+      this.context
+    );
+    this.synthesizer = new Synthesizer(client, session.config.synthesizerModel, retryPolicy, this.context, session.config.synthesisStrategy);
+    this.ratifier = new Ratifier(client, retryPolicy);
+    this.roundSummarizer = new RoundSummarizer(
+      client,
+      strategy?.summarizerModel || session.config.synthesizerModel,
+      retryPolicy
+    );
+
+    // An interrupted debate that had converged only misses its final answer
+    let convergenceAchieved = session.status === 'converged';
+    let stoppedByBudget = false;
 
-    // Update session status to in_progress
+    // Update session status to in_progress; the lease keeps other processes sharing the store off the debate
     session.status = 'in_progress';
+    session.cancellationReason = undefined;
+    session.lease = { owner: LEASE_OWNER, heartbeatAt: new Date() };
+    this.saveCheckpoint(session);
+    // Calls can take longer than the lease lasts
+    const heartbeat = this.store ? setInterval(() => this.saveCheckpoint(session), LEASE_HEARTBEAT_MS) : undefined;
+    heartbeat?.unref();
+    this.events.emit({ type: 'session_started', sessionId, config: session.config, completedRounds: session.rounds.length });
+
+    let finalConvergenceAssessment: ConvergenceAssessment | undefined = session.convergenceAssessment;
+
+    try {
+      // Execute rounds until convergence, max rounds or an exhausted budget (Requirements 4.2, 4.3)
+      while ((session.rounds.length < session.config.maxRounds || this.uncheckedRound(session)) && !convergenceAchieved) {
+        throwIfAborted(debate.signal);
+
+        if (budgetExhausted()) {
+          stoppedByBudget = true;
+          break;
+        }
+
+        // A round saved before its convergence check (interrupted debate) is evaluated without running it again
+        let round = this.uncheckedRound(session);
+        if (!round) {
+          // Execute the next round
+          this.events.emit({ type: 'round_started', sessionId, roundNumber: session.rounds.length + 1 });
+          round = await this.executeRound(session, debate.signal);
+          session.rounds.push(round);
+          this.saveCheckpoint(session);
+
+          // Notify progress
+          this.events.emit({ type: 'round_completed', sessionId, round });
+
+          // Don't spend more on moderation once the budget is gone
+          if (budgetExhausted()) {
+            stoppedByBudget = true;
+            break;
+          }
+        }
+
+        // Compress rounds that just fell out of the verbatim window (rolling_summary)
+        await this.summarizeOlderRounds(session, debate.signal);
+
+        // Evaluate convergence after the round (Requirement 4.2), steering the next one if enabled
+        const { assessment: convergenceAssessment, guidance, diagnostics } = await this.evaluateRound(session, debate.signal);
+
+        // Keep the answers that had to be repaired or could not be parsed apart from the verdict
+        if (diagnostics.length > 0) {
+          round.diagnostics = diagnostics;
+        }
+
+        // Store convergence assessment in the round
+        round.convergenceCheck = convergenceAssessment;
+        finalConvergenceAssessment = convergenceAssessment;
+
+        // Guidance only matters if another round follows
+        if (guidance && !convergenceAssessment.isConverged && session.rounds.length < session.config.maxRounds) {
+          round.guidance = guidance;
+        }
+        // Saved as converged, so that an interrupted debate knows it only misses its final answer
+        if (convergenceAssessment.isConverged) {
+          session.status = 'converged';
+        }
+        this.saveCheckpoint(session);
+        this.events.emit({
+          type: 'convergence_evaluated',
+          sessionId,
+          round,
+          assessment: convergenceAssessment,
+          guidance: round.guidance,
+          judgeSplit: describeJudgeSplit(convergenceAssessment.judges)
+        });
+
+        // Check if convergence is achieved (Requirement 4.2)
+        if (convergenceAssessment.isConverged) {
+          convergenceAchieved = true;
+          break;
+        }
 
-    let convergenceAchieved = false;
-    let finalConvergenceAssessment: ConvergenceAssessment | undefined;
+        // Stop at the round boundary if asked to, unless the debate ends here anyway
+        if (this.shouldPause(session) && session.rounds.length < session.config.maxRounds) {
+          session.status = 'paused';
+          session.lease = undefined;
+          this.saveCheckpoint(session);
+          this.events.emit({ type: 'paused', sessionId, completedRounds: session.rounds.length });
+          return {
+            session,
+            finalAnswer: '',
+            totalRounds: session.rounds.length,
+            convergenceAchieved
+          };
+        }
+      }
+
+      if (stoppedByBudget) {
+        session.status = 'budget_exhausted';
+      } else if (!convergenceAchieved && session.rounds.length >= session.config.maxRounds) {
+        // If we exited the loop due to max rounds, update status (Requirement 4.3)
+        session.status = 'max_rounds_reached';
+      }
 
-    // Execute rounds until convergence or max rounds (Requirements 4.2, 4.3)
-    while (session.rounds.length < session.config.maxRounds && !convergenceAchieved) {
-      // Execute the next round
-      const round = await this.executeRound(session, onAgentResponse);
-      session.rounds.push(round);
+      throwIfAborted(debate.signal);
+
+      // An interrupted debate that already has its final answer only misses the ratification
+      let synthesized: SynthesisResult;
+      if (session.finalAnswer !== undefined) {
+        synthesized = { answer: session.finalAnswer, synthesis: session.synthesis, diagnostics: session.synthesisDiagnostics ?? [] };
+      } else {
+        // Generate final synthesized answer even when out of budget (Requirement 5.3)
+        this.events.emit({ type: 'synthesis_started', sessionId, structured: session.config.structuredSynthesis === true });
+        synthesized = session.config.structuredSynthesis
+          ? await this.synthesizer.synthesizeStructured(session.config.topic, session.rounds, debate.signal, session.interventions)
+          : { answer: await this.synthesizer.synthesize(session.config.topic, session.rounds, debate.signal, session.interventions), diagnostics: [] };
+
+        // Update session with final results
+        this.storeAnswer(session, synthesized);
+        this.saveCheckpoint(session);
+      }
+      session.convergenceAssessment = finalConvergenceAssessment;
 
-      // Notify progress
-      if (onRoundComplete) {
-        onRoundComplete(round);
+      // Let the participants review the answer, unless the budget is gone (ratification)
+      if (session.config.ratification && !session.ratification && !budgetExhausted()) {
+        const ratification = await this.ratify(session, synthesized, debate.signal);
+        this.events.emit({ type: 'ratification_completed', sessionId, ratification });
       }
+      session.status = stoppedByBudget ? 'budget_exhausted' : 'completed';
+      session.lease = undefined;
+      this.saveCheckpoint(session);
 
-      // Evaluate convergence after the round (Requirement 4.2)
-      const convergenceAssessment = await this.moderator.evaluateConvergence(
-        session.config.topic,
-        session.rounds,
-        session.config.convergenceThreshold
-      );
-
-      // Store convergence assessment in the round
-      round.convergenceCheck = convergenceAssessment;
-      finalConvergenceAssessment = convergenceAssessment;
-
-      // Check if convergence is achieved (Requirement 4.2)
-      if (convergenceAssessment.isConverged) {
-        convergenceAchieved = true;
-        session.status = 'converged';
-        break;
+      const result: DebateResult = {
+        session,
+        finalAnswer: session.finalAnswer!,
+        synthesis: session.synthesis,
+        totalRounds: session.rounds.length,
+        convergenceAchieved
+      };
+      this.events.emit({ type: 'completed', sessionId, result });
+      return result;
+    } catch (error) {
+      if (!debate.signal?.aborted) {
+        this.events.emit({ type: 'error', sessionId, error: error instanceof Error ? error : new Error(String(error)) });
+        throw error;
       }
+
+      // Keep the completed rounds; the round in flight is dropped
+      session.status = 'cancelled';
+      session.cancellationReason = abortReason(debate.signal).message;
+      session.convergenceAssessment = finalConvergenceAssessment;
+      session.pendingRound = undefined;
+      session.lease = undefined;
+      this.saveCheckpoint(session);
+
+      const result: DebateResult = {
+        session,
+        finalAnswer: session.finalAnswer ?? '',
+        synthesis: session.synthesis,
+        totalRounds: session.rounds.length,
+        convergenceAchieved
+      };
+      this.events.emit({ type: 'cancelled', sessionId, reason: session.cancellationReason, result });
+      return result;
+    } finally {
+      clearInterval(heartbeat);
+      this.pauseRequests.delete(sessionId);
+      this.steps.delete(sessionId);
+      debate.dispose();
     }
+  }
 
-    // If we exited the loop due to max rounds, update status (Requirement 4.3)
-    if (!convergenceAchieved && session.rounds.length >= session.config.maxRounds) {
-      session.status = 'max_rounds_reached';
+  /**
+   * Asks a running debate to pause once the current round and its convergence check are done.
+   * runDebate then resolves with status paused. Has no effect if no further round would follow.
+   * @returns Whether the debate is running and will pause
+   */
+  pause(session: DebateSession): boolean {
+    if (session.status !== 'in_progress') {
+      return false;
     }
+    this.pauseRequests.add(session.id);
+    return true;
+  }
 
-    // Generate final synthesized answer (Requirement 5.3)
-    const finalAnswer = await this.synthesizer.synthesize(
-      session.config.topic,
-      session.rounds
-    );
+  /**
+   * Runs a paused debate on from where it stopped; in manual run mode it pauses again after the next round
+   * @throws Error if the debate is not paused
+   */
+  async resume(session: DebateSession, signal?: AbortSignal): Promise<DebateResult> {
+    if (session.status !== 'paused') {
+      throw new Error(`Only a paused debate can be resumed (status: ${session.status})`);
+    }
+    return this.runDebate(session, signal);
+  }
 
-    // Update session with final results
-    session.finalAnswer = finalAnswer;
-    session.convergenceAssessment = finalConvergenceAssessment;
-    session.status = 'completed';
+  /**
+   * Runs a single round of a paused or not yet started debate and pauses again, unless the debate ends
+   * with that round and goes on to the final answer
+   * @throws Error if the debate is neither paused nor pending
+   */
+  async step(session: DebateSession, signal?: AbortSignal): Promise<DebateResult> {
+    if (session.status !== 'paused' && session.status !== 'pending') {
+      throw new Error(`Only a paused or pending debate can be stepped (status: ${session.status})`);
+    }
+    this.steps.add(session.id);
+    return this.runDebate(session, signal);
+  }
 
-    return {
-      session,
-      finalAnswer,
-      totalRounds: session.rounds.length,
-      convergenceAchieved
-    };
+  /**
+   * Stored sessions whose debate was still running when they were last saved and whose lease has expired,
+   * e.g. because the process running them stopped. runDebate continues them from their last completed step
+   * without repeating its calls.
+   */
+  findInterruptedSessions(now: Date = new Date()): DebateSession[] {
+    const running = this.store?.list({ status: ['in_progress', 'converged', 'max_rounds_reached', 'budget_exhausted'] });
+    return running?.filter(session => isInterrupted(session) && !hasLiveLease(session, now)) ?? [];
+  }
+
+  /**
+   * Whether the debate stops after the round that just ended
+   */
+  private shouldPause(session: DebateSession): boolean {
+    return this.pauseRequests.has(session.id) || this.steps.has(session.id) || session.config.runMode === 'manual';
   }
 
   /**
-   * Continues an existing debate with new instructions
+   * Continues an existing debate, optionally with new instructions from the user
+   * @param instructions - Recorded as a user intervention after the last round; ignored if blank
+   * @param additionalRounds - How many more rounds may run (default: 3)
+   * @param signal - Cancels the debate, as for runDebate
    */
   async continueDebate(
     session: DebateSession,
     instructions: string,
-    onRoundComplete?: (round: DebateRound) => void,
-    onAgentResponse?: (response: any) => void
+    additionalRounds: number = DEFAULT_CONTINUATION_ROUNDS,
+    signal?: AbortSignal
   ): Promise<DebateResult> {
-    // Reset status to allow more rounds
+    if (!Number.isInteger(additionalRounds) || additionalRounds < 1) {
+      throw new Error('additionalRounds must be an integer of at least 1');
+    }
+    this.assertNotRunningElsewhere(session);
+
+    if (instructions.trim()) {
+      DebateSessionManager.addIntervention(session, instructions.trim());
+    }
+
+    // Reset status and allow more rounds from where the debate stopped
     session.status = 'in_progress';
     session.finalAnswer = undefined; // Clear previous answer
+    session.synthesis = undefined;
+    session.synthesisDiagnostics = undefined;
+    session.citations = undefined;
+    session.ratification = undefined;
+    session.config.maxRounds = session.rounds.length + additionalRounds;
+
+    // Re-run the main loop
+    return this.runDebate(session, signal);
+  }
 
-    // Add the user instruction as a special "system" context for the next rounds
-    // In a real implementation, we might want to track this in a "turns" structure
-    // For now, we'll append to the topic or similar mechanism, but better is to let the RoundManager handle context
-    // Ideally session.rounds should support user interventions. 
-    // We will handle this by appending a fake "round" or just relying on context builder.
-    // However, RoundManager builds context from rounds. 
-    // We will need to adapt RoundManager or Session structure to support user input in between.
-    // For simplicity in this iteration: We assume RoundManager uses all previous rounds. 
-    // We can inject the user instruction into the session config or a new field.
+  private saveCheckpoint(session: DebateSession): void {
+    if (session.lease) {
+      session.lease.heartbeatAt = new Date();
+    }
+    this.store?.update(session);
+  }
+
+  /**
+   * @throws Error if another process sharing the session store holds the lease of the debate
+   */
+  private assertNotRunningElsewhere(session: DebateSession): void {
+    const stored = this.store?.get(session.id);
+    if (stored?.lease && stored.lease.owner !== LEASE_OWNER && hasLiveLease(stored)) {
+      throw new Error(`Session ${session.id} is running in another process (${stored.lease.owner}); `
+        + `if that process stopped, try again in ${LEASE_TTL_MS / 1000}s`);
+    }
+  }
 
-    // Update maxRounds to allow continuation
-    session.config.maxRounds += 3; // Add 3 more rounds by default
+  /**
+   * The last round if it was saved before its convergence check, i.e. the debate was interrupted in between
+   */
+  private uncheckedRound(session: DebateSession): DebateRound | undefined {
+    const lastRound = session.rounds[session.rounds.length - 1];
+    return lastRound && !lastRound.convergenceCheck ? lastRound : undefined;
+  }
 
-    // Re-run the main loop
-    return this.runDebate(session, onRoundComplete, onAgentResponse);
+  /**
+   * Stores a synthesized answer on the session, with the citations it makes
+   */
+  private storeAnswer(session: DebateSession, { answer, synthesis, diagnostics }: SynthesisResult): void {
+    session.finalAnswer = answer;
+    session.synthesis = synthesis;
+    session.synthesisDiagnostics = diagnostics.length > 0 ? diagnostics : undefined;
+    session.citations = checkCitations(answer, session.rounds);
+  }
+
+  /**
+   * Asks every participant to approve or object to the synthesized answer and has the synthesizer revise
+   * it once if anyone asked for changes. A failed revision leaves the answer as voted on.
+   */
+  private async ratify(session: DebateSession, synthesized: SynthesisResult, signal?: AbortSignal): Promise<Ratification> {
+    const { topic } = session.config;
+    const { ballots, diagnostics } = await this.ratifier.collectBallots(
+      topic,
+      resolveParticipants(session.config),
+      session.rounds,
+      synthesized.answer,
+      signal
+    );
+    const ratification: Ratification = { ballots, ...(diagnostics.length > 0 ? { diagnostics } : {}) };
+
+    if (needsRevision(ballots)) {
+      try {
+        this.storeAnswer(session, await this.synthesizer.revise(topic, synthesized, ballots, signal));
+        ratification.originalAnswer = synthesized.answer;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        ratification.revisionError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    session.ratification = ratification;
+    return ratification;
+  }
+
+  /**
+   * Decides convergence of the rounds so far under the configured policy. The moderator is asked unless
+   * the policy relies on the local metrics alone and no guidance is needed.
+   */
+  private async evaluateRound(session: DebateSession, signal?: AbortSignal): Promise<ModeratorVerdict> {
+    const { topic, convergenceThreshold, moderatorSteering } = session.config;
+    const policy = session.config.convergencePolicy ?? DEFAULT_CONVERGENCE_POLICY;
+    const metrics = computeConvergenceMetrics(session.rounds);
+
+    // The weighted policy compares the combined score against the threshold, so the moderator must not apply it
+    const moderatorThreshold = policy.mode === 'weighted' ? 0 : convergenceThreshold;
+    const verdict = policy.mode !== 'metrics' || moderatorSteering
+      ? await this.moderator.assess(topic, session.rounds, moderatorThreshold, signal, session.interventions, moderatorSteering)
+      : undefined;
+    // A fallback verdict says nothing about the debate; the weighted policy goes by the metrics alone then
+    const usable = policy.mode === 'llm' || (policy.mode === 'weighted' && !verdict?.failed);
+    const assessment = applyConvergencePolicy(policy, usable ? verdict?.assessment : undefined, metrics, convergenceThreshold);
+    if (policy.mode === 'weighted' && verdict?.failed) {
+      assessment.reasoning = `${verdict.assessment.reasoning}; ${assessment.reasoning}`;
+    }
+
+    return {
+      assessment,
+      guidance: verdict?.guidance,
+      diagnostics: verdict?.diagnostics ?? [],
+      failed: verdict?.failed
+    };
+  }
+
+  /**
+   * Writes the digests the context strategy needs but the session does not have yet
+   */
+  private async summarizeOlderRounds(session: DebateSession, signal?: AbortSignal): Promise<void> {
+    for (const round of this.context.roundsToSummarize(session.rounds)) {
+      round.summary = await this.roundSummarizer.summarizeRound(session.config.topic, round, signal);
+      this.saveCheckpoint(session);
+    }
   }
 
   /**
@@ -159,7 +514,7 @@ export class DebateOrchestrator {
    * @param session - The current debate session
    * @returns Promise<DebateRound> - The completed round
    */
-  private async executeRound(session: DebateSession, onAgentResponse?: (response: any) => void): Promise<DebateRound> {
-    return await this.roundManager.executeRound(session, onAgentResponse);
+  private async executeRound(session: DebateSession, signal?: AbortSignal): Promise<DebateRound> {
+    return await this.roundManager.executeRound(session, this.events, signal, () => this.saveCheckpoint(session));
   }
 }
\ No newline at end of file
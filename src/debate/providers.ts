@@ -0,0 +1,342 @@
+/**
+ * LLM provider adapters and registry
+ * Routes provider-prefixed model identifiers (e.g. "ollama:llama3") to the matching backend
+ */
+
+import {
+  AIBuilderClient,
+  OpenAICompatibleProvider,
+  requestProvider,
+  readEventStream,
+  readJsonBody,
+  parseEventData,
+  type ChatCallOptions,
+  type ChatProvider,
+  type ChatRequest,
+  type ChatResponse,
+  type Message,
+  type ModelMetadata
+} from './client';
+import { ContentFilteredError, MalformedResponseError, ProviderError, ServerError } from './errors';
+
+// Provider used for model identifiers without a "provider:" prefix
+export const DEFAULT_PROVIDER = 'ai-builder';
+
+export interface ParsedModelId {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Splits a model identifier into provider and model name.
+ * Only the first colon is significant, so "ollama:llama3:8b" targets model "llama3:8b".
+ */
+export function parseModelId(modelId: string): ParsedModelId {
+  const separator = modelId.indexOf(':');
+  if (separator === -1) {
+    return { provider: DEFAULT_PROVIDER, model: modelId };
+  }
+  return {
+    provider: modelId.substring(0, separator),
+    model: modelId.substring(separator + 1)
+  };
+}
+
+export interface AnthropicOptions {
+  apiKey: string;
+  baseUrl?: string;           // Default: https://api.anthropic.com
+  version?: string;           // anthropic-version header, default: 2023-06-01
+  defaultMaxTokens?: number;  // The messages API requires max_tokens, default: 4096
+}
+
+interface AnthropicMessagesResponse {
+  id: string;
+  content: { type: string; text?: string }[];
+  stop_reason: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { id: string; usage?: { input_tokens?: number; output_tokens?: number } };
+  delta?: { type?: string; text?: string; stop_reason?: string | null };
+  usage?: { output_tokens?: number };
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Adapter for Anthropic-style messages APIs
+ */
+export class AnthropicProvider implements ChatProvider {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly version: string;
+  private readonly defaultMaxTokens: number;
+
+  constructor(options: AnthropicOptions) {
+    if (!options.apiKey) {
+      throw new Error('Authentication token is required');
+    }
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+    this.version = options.version || '2023-06-01';
+    this.defaultMaxTokens = options.defaultMaxTokens || 4096;
+  }
+
+  async chatCompletion(request: ChatRequest, options: ChatCallOptions = {}): Promise<ChatResponse> {
+    try {
+      return await this.sendMessage(request, options);
+    } catch (error) {
+      throw options.signal?.aborted && options.signal.reason instanceof Error ? options.signal.reason : error;
+    }
+  }
+
+  /**
+   * Lists the models available to the API key (GET /v1/models)
+   */
+  async listModels(signal?: AbortSignal): Promise<ModelMetadata[]> {
+    const response = await requestProvider(`${this.baseUrl}/v1/models`, {
+      method: 'GET',
+      headers: { 'x-api-key': this.apiKey, 'anthropic-version': this.version },
+      signal
+    });
+    const body = await readJsonBody<{ data?: { id: string }[] }>(response);
+    if (!Array.isArray(body?.data)) {
+      throw new MalformedResponseError('Model listing has no data');
+    }
+
+    return body.data.map(entry => ({ id: entry.id }));
+  }
+
+  private async sendMessage(request: ChatRequest, options: ChatCallOptions): Promise<ChatResponse> {
+    const streaming = Boolean(request.stream || options.onDelta);
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: this.toAnthropicMessages(request.messages),
+      max_tokens: request.max_tokens || this.defaultMaxTokens
+    };
+    if (system) body.system = system;
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (streaming) body.stream = true;
+
+    const response = await requestProvider(`${this.baseUrl}/v1/messages`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': this.version,
+      },
+      body: JSON.stringify(body),
+      signal: options.signal,
+    });
+
+    if (streaming) {
+      return this.checkStopReason(await this.readStreamedMessage(response, options.onDelta), request.model);
+    }
+
+    const data = await readJsonBody<AnthropicMessagesResponse>(response);
+    if (!Array.isArray(data?.content) || !data.usage) {
+      throw new MalformedResponseError('Provider response has no content');
+    }
+
+    const content = data.content
+      .filter(block => block.type === 'text' && block.text)
+      .map(block => block.text)
+      .join('');
+
+    return this.checkStopReason({
+      id: data.id,
+      choices: [{
+        message: { role: 'assistant', content },
+        finish_reason: data.stop_reason || 'stop'
+      }],
+      usage: {
+        prompt_tokens: data.usage.input_tokens,
+        completion_tokens: data.usage.output_tokens,
+        total_tokens: data.usage.input_tokens + data.usage.output_tokens
+      }
+    }, request.model);
+  }
+
+  private checkStopReason(response: ChatResponse, model: string): ChatResponse {
+    if (response.choices[0].finish_reason === 'refusal') {
+      throw new ContentFilteredError(`Response from ${model} was refused by the content filter`);
+    }
+    return response;
+  }
+
+  /**
+   * Assembles a ChatResponse from streamed message events
+   */
+  private async readStreamedMessage(response: Response, onDelta?: (delta: string) => void): Promise<ChatResponse> {
+    let id = '';
+    let content = '';
+    let finishReason = 'stop';
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of readEventStream(response)) {
+      const payload = parseEventData<AnthropicStreamEvent>(event);
+
+      switch (payload.type) {
+        case 'message_start':
+          id = payload.message?.id || id;
+          inputTokens = payload.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_delta':
+          if (payload.delta?.type === 'text_delta' && payload.delta.text) {
+            content += payload.delta.text;
+            onDelta?.(payload.delta.text);
+          }
+          break;
+        case 'message_delta':
+          finishReason = payload.delta?.stop_reason || finishReason;
+          outputTokens = payload.usage?.output_tokens || outputTokens;
+          break;
+        case 'error': {
+          const message = `API stream error: ${payload.error?.message || 'Unknown error'}`;
+          throw payload.error?.type === 'overloaded_error' || payload.error?.type === 'api_error'
+            ? new ServerError(message)
+            : new ProviderError(message);
+        }
+      }
+    }
+
+    return {
+      id,
+      choices: [{ message: { role: 'assistant', content }, finish_reason: finishReason }],
+      usage: { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens }
+    };
+  }
+
+  /**
+   * The messages API only accepts alternating user/assistant turns starting with user,
+   * so consecutive messages with the same role are merged.
+   */
+  private toAnthropicMessages(messages: Message[]): { role: 'user' | 'assistant'; content: string }[] {
+    const result: { role: 'user' | 'assistant'; content: string }[] = [];
+
+    for (const message of messages) {
+      if (message.role === 'system') continue;
+
+      const last = result[result.length - 1];
+      if (last && last.role === message.role) {
+        last.content += `\n\n${message.content}`;
+      } else {
+        result.push({ role: message.role, content: message.content });
+      }
+    }
+
+    if (result.length === 0 || result[0].role !== 'user') {
+      result.unshift({ role: 'user', content: 'Please begin.' });
+    }
+
+    return result;
+  }
+}
+
+export interface OllamaOptions {
+  baseUrl?: string;           // Default: http://localhost:11434/v1
+  apiKey?: string;
+}
+
+/**
+ * Adapter for a local Ollama or llama.cpp server through its OpenAI-compatible endpoint
+ */
+export class OllamaProvider extends OpenAICompatibleProvider {
+  constructor(options: OllamaOptions = {}) {
+    super({ baseUrl: options.baseUrl || 'http://localhost:11434/v1', apiKey: options.apiKey });
+  }
+}
+
+/**
+ * Dispatches requests to registered providers based on the model identifier prefix
+ */
+export class ProviderRegistry implements ChatProvider {
+  private providers = new Map<string, ChatProvider>();
+
+  /**
+   * Registers a provider under a name usable as a model prefix
+   * @returns The registry, for chaining
+   */
+  register(name: string, provider: ChatProvider): this {
+    if (!name || name.includes(':')) {
+      throw new Error(`Invalid provider name: "${name}"`);
+    }
+    this.providers.set(name, provider);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  getProviderNames(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Resolves a model identifier to its provider and the provider-local model name
+   * @throws Error if the provider is not registered
+   */
+  resolve(modelId: string): { provider: ChatProvider; model: string } {
+    const { provider, model } = parseModelId(modelId);
+    const chatProvider = this.providers.get(provider);
+    if (!chatProvider) {
+      throw new Error(`No provider registered for "${provider}" (model: ${modelId})`);
+    }
+    return { provider: chatProvider, model };
+  }
+
+  async chatCompletion(request: ChatRequest, options?: ChatCallOptions): Promise<ChatResponse> {
+    const { provider, model } = this.resolve(request.model);
+    return provider.chatCompletion({ ...request, model }, options);
+  }
+
+  /**
+   * Lists the models of every registered provider that supports listing, as prefixed identifiers.
+   * Providers that cannot be reached are left out.
+   */
+  async listModels(signal?: AbortSignal): Promise<ModelMetadata[]> {
+    const listings = await Promise.allSettled(
+      Array.from(this.providers, async ([name, provider]) => {
+        const models = await provider.listModels?.(signal) ?? [];
+        return models.map(model => ({ ...model, id: name === DEFAULT_PROVIDER ? model.id : `${name}:${model.id}` }));
+      })
+    );
+
+    return listings.flatMap(listing => listing.status === 'fulfilled' ? listing.value : []);
+  }
+}
+
+/**
+ * Builds a registry from environment variables.
+ * AI_BUILDER_TOKEN registers the default provider; OPENAI_API_KEY / OPENAI_BASE_URL register "openai";
+ * ANTHROPIC_API_KEY registers "anthropic"; OLLAMA_BASE_URL overrides the always-available "ollama" provider.
+ */
+export function createProviderRegistryFromEnv(env: NodeJS.ProcessEnv = process.env): ProviderRegistry {
+  const registry = new ProviderRegistry();
+
+  if (env.AI_BUILDER_TOKEN) {
+    registry.register(DEFAULT_PROVIDER, new AIBuilderClient(env.AI_BUILDER_TOKEN));
+  }
+  if (env.OPENAI_API_KEY || env.OPENAI_BASE_URL) {
+    registry.register('openai', new OpenAICompatibleProvider({
+      baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      apiKey: env.OPENAI_API_KEY
+    }));
+  }
+  if (env.ANTHROPIC_API_KEY) {
+    registry.register('anthropic', new AnthropicProvider({
+      apiKey: env.ANTHROPIC_API_KEY,
+      baseUrl: env.ANTHROPIC_BASE_URL
+    }));
+  }
+  registry.register('ollama', new OllamaProvider({ baseUrl: env.OLLAMA_BASE_URL }));
+
+  return registry;
+}
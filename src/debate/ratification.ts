@@ -0,0 +1,165 @@
+/**
+ * Ratification - The participants review the synthesized answer
+ * Each participant checks the final answer against its own position and approves it, approves it with
+ * edits or objects to it; the synthesizer then revises the answer once if anyone asked for changes
+ */
+
+import { ChatProvider, Message } from './client';
+import { StructuredOutputError } from './errors';
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from './retry';
+import { requestStructuredOutput, describeSchema, type OutputSchema, type ParseDiagnostic } from './structured-output';
+import { responseRef } from './citations';
+import { type ParticipantConfig } from './config';
+import { type AgentResponse, type DebateRound, type Ratification, type RatificationBallot } from './session';
+
+/**
+ * A participant's verdict on the synthesized answer:
+ * - approve: the answer represents its position as it is
+ * - approve_with_edits: acceptable once the listed corrections are made
+ * - object: misrepresents its position; the corrections say how
+ */
+export const RATIFICATION_VOTES = ['approve', 'approve_with_edits', 'object'] as const;
+
+export type RatificationVote = typeof RATIFICATION_VOTES[number];
+
+const BALLOT_MAX_TOKENS = 800;
+
+const BALLOT_SCHEMA: OutputSchema = {
+  vote: { type: 'string', values: RATIFICATION_VOTES },
+  corrections: { type: 'string[]' },
+  reasoning: { type: 'string' }
+};
+
+/**
+ * Counts the participants that ratified the answer, i.e. approved it with or without edits.
+ * Abstaining participants count as not having ratified it.
+ */
+export function tallyRatification(ratification: Ratification): { ratified: number; total: number } {
+  const ratified = ratification.ballots.filter(ballot => ballot.vote === 'approve' || ballot.vote === 'approve_with_edits');
+  return { ratified: ratified.length, total: ratification.ballots.length };
+}
+
+/**
+ * Describes the outcome of a ratification, e.g. "Ratified by 3/4 agents"
+ */
+export function describeRatification(ratification: Ratification): string {
+  const { ratified, total } = tallyRatification(ratification);
+  return `Ratified by ${ratified}/${total} agents`;
+}
+
+/**
+ * Whether any participant asked for changes to the answer
+ */
+export function needsRevision(ballots: RatificationBallot[]): boolean {
+  return ballots.some(ballot => ballot.vote === 'approve_with_edits' || ballot.vote === 'object');
+}
+
+export class Ratifier {
+  private client: ChatProvider;
+  private retryPolicy: RetryPolicy;
+
+  constructor(client: ChatProvider, retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+    this.client = client;
+    this.retryPolicy = retryPolicy;
+  }
+
+  /**
+   * Asks every participant in parallel to review the answer. Participants that give no usable ballot abstain.
+   * @param signal - Aborts the review; it then rejects instead of recording abstentions
+   * @returns One ballot per participant, in the participants' order, and the diagnostics of rejected ballots
+   */
+  async collectBallots(
+    topic: string,
+    participants: ParticipantConfig[],
+    rounds: DebateRound[],
+    answer: string,
+    signal?: AbortSignal
+  ): Promise<{ ballots: RatificationBallot[]; diagnostics: ParseDiagnostic[] }> {
+    const results = await Promise.all(participants.map(participant => this.collectBallot(topic, participant, rounds, answer, signal)));
+
+    return {
+      ballots: results.map(result => result.ballot),
+      diagnostics: results.flatMap(result => result.diagnostics)
+    };
+  }
+
+  private async collectBallot(
+    topic: string,
+    participant: ParticipantConfig,
+    rounds: DebateRound[],
+    answer: string,
+    signal?: AbortSignal
+  ): Promise<{ ballot: RatificationBallot; diagnostics: ParseDiagnostic[] }> {
+    const { id: participantId, name: participantName, model } = participant;
+    const messages: Message[] = [
+      {
+        role: 'system',
+        content: `You are ${participantName}, a participant in a multi-agent debate.${participant.persona ? ` ${participant.persona}` : ''} A neutral synthesizer has written the final answer of the debate. Check that it represents your position accurately and completely. You MUST respond ONLY with a valid JSON object in this exact format: ${describeSchema(BALLOT_SCHEMA)}. Vote "approve" if it represents your position, "approve_with_edits" if it is acceptable once small corrections are made, or "object" if it misrepresents or omits your position. List each specific correction in corrections; leave it empty when approving. Do not include any other text before or after the JSON.`
+      },
+      {
+        role: 'user',
+        content: this.buildBallotPrompt(topic, participant, rounds, answer)
+      }
+    ];
+
+    try {
+      const { value, diagnostics } = await requestStructuredOutput<{ vote: RatificationVote; corrections: string[]; reasoning: string }>(
+        this.client,
+        {
+          model,
+          messages,
+          temperature: 0.3, // Lower temperature for well-formed JSON
+          max_tokens: BALLOT_MAX_TOKENS
+        },
+        { role: 'ratifier', participantId, signal },
+        BALLOT_SCHEMA,
+        this.retryPolicy
+      );
+
+      const corrections = value.corrections.map(correction => correction.trim()).filter(correction => correction.length > 0);
+      return {
+        ballot: { participantId, participantName, model, vote: value.vote, corrections, reasoning: value.reasoning.trim() },
+        diagnostics
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      return {
+        ballot: {
+          participantId,
+          participantName,
+          model,
+          corrections: [],
+          reasoning: '',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        },
+        diagnostics: error instanceof StructuredOutputError ? error.diagnostics : []
+      };
+    }
+  }
+
+  /**
+   * Shows the participant its own final position next to the answer it is asked to review
+   */
+  private buildBallotPrompt(topic: string, participant: ParticipantConfig, rounds: DebateRound[], answer: string): string {
+    let position: { roundNumber: number; response: AgentResponse } | undefined;
+    for (const round of rounds) {
+      for (const response of round.responses) {
+        if ((response.participantId ?? response.model) === participant.id && !response.error) {
+          position = { roundNumber: round.roundNumber, response };
+        }
+      }
+    }
+
+    let prompt = `Topic: "${topic}"\n\n`;
+    prompt += `=== YOUR FINAL POSITION ===\n\n`;
+    prompt += position
+      ? `[${responseRef(position.roundNumber, position.response)}]\n${position.response.content}\n\n`
+      : `(You gave no successful response in this debate.)\n\n`;
+    prompt += `=== SYNTHESIZED FINAL ANSWER ===\n\n${answer}\n\n`;
+    prompt += `Respond with the JSON object of your vote on the synthesized answer:`;
+    return prompt;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Retry policy shared by RoundManager, Moderator and Synthesizer
+ * Decides which failures are worth another attempt and how long to wait in between
+ */
+
+import { abortableDelay } from './cancellation';
+import {
+  MalformedResponseError,
+  NetworkError,
+  ProviderError,
+  RateLimitError,
+  ServerError,
+  TimeoutError
+} from './errors';
+
+// Constructor of an error class, matched with instanceof
+export type ErrorClass = abstract new (...args: any[]) => Error;
+
+export interface RetryPolicy {
+  maxAttempts: number;        // Including the first call, default: 3
+  baseDelayMs: number;        // Wait before the second attempt, doubled for every further one, default: 2000
+  maxDelayMs: number;         // Upper bound of every wait, Retry-After included, default: 30000
+  jitter: number;             // Fraction of each backoff that is randomized (0-1), default: 0.2
+  respectRetryAfter: boolean; // Wait as long as a Retry-After header asks (up to maxDelayMs) instead of backing off, default: true
+  retryOn: ErrorClass[];      // Errors worth another attempt; anything else fails immediately
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30_000,
+  jitter: 0.2,
+  respectRetryAfter: true,
+  retryOn: [RateLimitError, ServerError, NetworkError, TimeoutError, MalformedResponseError]
+};
+
+/**
+ * Fills in the defaults for a partially specified policy
+ */
+export function resolveRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...overrides };
+}
+
+/**
+ * Checks whether the policy allows retrying after this error
+ */
+export function isRetryable(error: unknown, policy: RetryPolicy): boolean {
+  return policy.retryOn.some(errorClass => error instanceof errorClass);
+}
+
+/**
+ * Computes how long to wait before the attempt after `attempt`. Never more than maxDelayMs, so a server
+ * asking for an hour cannot stall the debate between attempts, where call timeouts do not reach.
+ * @param random - Source of jitter in [0, 1)
+ */
+export function computeRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  if (policy.respectRetryAfter && error instanceof ProviderError && error.retryAfterMs !== undefined) {
+    return Math.min(policy.maxDelayMs, error.retryAfterMs);
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(backoff * (1 - policy.jitter * random()));
+}
+
+/**
+ * Runs an operation until it succeeds, fails with a non-retryable error or runs out of attempts.
+ * The last error is rethrown; an aborted signal stops retrying at once.
+ * @param operation - Receives the 1-based attempt number
+ * @param onRetry - Told about each failed attempt that will be retried, before the wait
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= policy.maxAttempts || !isRetryable(error, policy)) {
+        throw error;
+      }
+      const delayMs = computeRetryDelay(error, attempt, policy);
+      onRetry?.(error, attempt, delayMs);
+      await abortableDelay(delayMs, signal);
+    }
+  }
+}
@@ -1,132 +1,294 @@
 /**
  * RoundManager - Executes debate rounds
- * Handles building context, sending concurrent requests, and collecting responses
+ * Handles building context, sending requests in the configured turn order, and collecting responses
  * Requirements: 3.1, 3.2, 3.3
  */
 
-import { AIBuilderClient, type Message } from './client';
-import { type DebateSession, type DebateRound, type AgentResponse } from './session';
+import { type ChatProvider, type Message } from './client';
+import { MalformedResponseError } from './errors';
+import { DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from './retry';
+import { ContextBuilder } from './context';
+import { resolveParticipants, type ParticipantConfig, type TurnOrder } from './config';
+import { formatGuidance, speakerName, type DebateSession, type DebateRound, type AgentResponse } from './session';
+import { responseRef } from './citations';
+import { type AgentTurn, type DebateEventEmitter } from './events';
+
+const DEFAULT_SYSTEM_PROMPT = 'You are participating in a multi-agent debate. Provide thoughtful responses that consider other agents\' perspectives while maintaining your own reasoning.';
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 8000;
+
+/**
+ * A chunk of an agent's response, emitted while it is still being generated
+ */
+export interface AgentDelta {
+  model: string;
+  participantId: string;
+  participantName: string;
+  roundNumber: number;
+  attempt: number;   // Restarts at a new attempt mean earlier deltas were discarded
+  delta: string;
+}
 
 export class RoundManager {
-  private client: AIBuilderClient;
+  private client: ChatProvider;
+  private retryPolicy: RetryPolicy;
+  private context: ContextBuilder;
 
-  constructor(client: AIBuilderClient) {
+  /**
+   * @param context - Selects the earlier rounds each agent sees and keeps prompts within context windows
+   */
+  constructor(client: ChatProvider, retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY, context: ContextBuilder = new ContextBuilder()) {
     this.client = client;
+    this.retryPolicy = retryPolicy;
+    this.context = context;
   }
 
   /**
-   * Executes a single debate round
+   * Executes a single debate round. Responses are collected in session.pendingRound while the round runs;
+   * participants that already answered there (a round interrupted earlier) are not asked again.
    * @param session - The current debate session
+   * @param events - Told when each agent starts, retries, streams tokens and finishes or fails
+   * @param signal - Aborts all in-flight requests; the round then rejects with the abort reason
+   * @param onResponse - Called once each response is in session.pendingRound, e.g. to checkpoint it
    * @returns Promise resolving to the completed round
    */
-  async executeRound(session: DebateSession, onAgentResponse?: (response: AgentResponse) => void): Promise<DebateRound> {
+  async executeRound(
+    session: DebateSession,
+    events?: DebateEventEmitter,
+    signal?: AbortSignal,
+    onResponse?: (response: AgentResponse) => void
+  ): Promise<DebateRound> {
     const roundNumber = session.rounds.length + 1;
-    const contextMessages = this.buildContextMessages(session.config.topic, session.rounds);
+    const turnOrder = session.config.turnOrder || 'parallel';
+    const participants = this.orderParticipants(resolveParticipants(session.config), turnOrder, roundNumber);
+    const sessionId = session.id;
+    const pending: DebateRound = session.pendingRound?.roundNumber === roundNumber
+      ? session.pendingRound
+      : { roundNumber, responses: [] };
+    session.pendingRound = pending;
 
-    // Send requests to all participating agents concurrently
-    const responsePromises = session.config.models.map(async model => {
-      const response = await this.getAgentResponse(model, contextMessages);
+    const respond = async (participant: ParticipantConfig, earlierInRound: AgentResponse[]) => {
+      const given = pending.responses.find(response => (response.participantId ?? response.model) === participant.id);
+      if (given) {
+        return given;
+      }
+
+      const turn: AgentTurn = { roundNumber, participantId: participant.id, participantName: participant.name, model: participant.model };
+      events?.emit({ type: 'agent_started', sessionId, ...turn });
+
+      const messages = this.buildContextMessages(participant, session, roundNumber, earlierInRound);
+      const response = await this.getAgentResponse(
+        participant,
+        roundNumber,
+        messages,
+        events && ((attempt, delta) => events.emit({ type: 'agent_delta', sessionId, delta: { ...turn, attempt, delta } })),
+        events && ((attempt, delayMs, error) => events.emit({ type: 'agent_retry', sessionId, ...turn, attempt, delayMs, error })),
+        signal
+      );
+      pending.responses.push(response);
+      onResponse?.(response);
 
       // Notify when this specific agent is done
-      if (response && onAgentResponse) {
-        onAgentResponse(response);
-      }
+      events?.emit({
+        type: response.error ? 'agent_failed' : 'agent_response',
+        sessionId,
+        roundNumber,
+        response,
+        ref: responseRef(roundNumber, response)
+      });
 
       return response;
-    });
+    };
 
-    // Collect all responses
-    const responses = await Promise.all(responsePromises);
+    let responses: AgentResponse[];
+    if (turnOrder === 'parallel') {
+      // Send requests to all participants concurrently
+      responses = await Promise.all(participants.map(participant => respond(participant, [])));
+    } else {
+      // One at a time, each agent seeing what was already said in this round
+      responses = [];
+      for (const participant of participants) {
+        responses.push(await respond(participant, [...responses]));
+      }
+    }
 
-    return {
-      roundNumber,
-      responses: responses.filter(response => response !== null) as AgentResponse[]
-    };
+    session.pendingRound = undefined;
+    return { roundNumber, responses };
+  }
+
+  /**
+   * Puts participants in speaking order; round_robin_rotating starts each round one seat later
+   */
+  private orderParticipants(participants: ParticipantConfig[], turnOrder: TurnOrder, roundNumber: number): ParticipantConfig[] {
+    if (turnOrder !== 'round_robin_rotating' || participants.length === 0) {
+      return participants;
+    }
+    const offset = (roundNumber - 1) % participants.length;
+    return [...participants.slice(offset), ...participants.slice(0, offset)];
+  }
+
+  /**
+   * Builds the system prompt of a participant: its own prompt or the default, followed by its persona
+   */
+  private buildSystemPrompt(participant: ParticipantConfig): string {
+    const prompt = participant.systemPrompt || DEFAULT_SYSTEM_PROMPT;
+    return participant.persona
+      ? `${prompt}\n\nYou are ${participant.name}. ${participant.persona}`
+      : prompt;
   }
 
   /**
-   * Builds context messages with topic and all previous responses
+   * Builds the conversation as one participant sees it: its own earlier turns as assistant messages,
+   * everyone else's as attributed user messages (compressed rounds as their digest) and user
+   * interventions where they were given, trimmed to its
+   * context window and ending with an instruction for this turn. Failed responses are left out.
    * Requirements: 3.1, 3.2, 3.3
+   * @param earlierInRound - Responses already given in the current round (sequential turn orders)
    */
-  private buildContextMessages(topic: string, previousRounds: DebateRound[]): Message[] {
-    const messages: Message[] = [
+  private buildContextMessages(
+    participant: ParticipantConfig,
+    session: DebateSession,
+    roundNumber: number,
+    earlierInRound: AgentResponse[] = []
+  ): Message[] {
+    const head: Message[] = [
       {
         role: 'system',
-        content: 'You are participating in a multi-agent debate. Provide thoughtful responses that consider other agents\' perspectives while maintaining your own reasoning.'
+        content: this.buildSystemPrompt(participant)
       },
       {
         role: 'user',
-        content: `Topic for debate: ${topic}`
+        content: `Topic for debate: ${session.config.topic}`
       }
     ];
 
-    // Add all previous responses with clear agent attribution
-    for (const round of previousRounds) {
-      for (const response of round.responses) {
-        messages.push({
-          role: 'assistant',
-          content: `[Agent ${response.model}]: ${response.content}`
-        });
+    const turn = (response: AgentResponse): Message => (response.participantId ?? response.model) === participant.id
+      ? { role: 'assistant', content: response.content }
+      : { role: 'user', content: `[Agent ${speakerName(response)}]: ${response.content}` };
+    const turns = (responses: AgentResponse[]) => responses.filter(response => !response.error).map(turn);
+
+    const history: Message[] = [];
+    for (const entry of this.context.selectTimeline(session.rounds, session.interventions)) {
+      if (entry.type === 'intervention') {
+        history.push({ role: 'user', content: `[User intervention]: ${entry.intervention.content}` });
+      } else {
+        const { round, digest } = entry;
+        if (digest !== undefined) {
+          history.push({ role: 'user', content: `[Summary of round ${round.roundNumber}]: ${digest}` });
+        } else {
+          history.push(...turns(round.responses));
+        }
+        if (round.guidance) {
+          history.push({ role: 'user', content: `[Moderator guidance after round ${round.roundNumber}]:\n${formatGuidance(round.guidance)}` });
+        }
       }
     }
+    history.push(...turns(earlierInRound));
 
-    if (previousRounds.length > 0) {
-      messages.push({
-        role: 'user',
-        content: 'Please provide your response considering the above perspectives. Try to control the lenght of the response in less than 1000 words.'
-      });
-    }
+    const lastRound = session.rounds[session.rounds.length - 1];
+    const justIntervened = (session.interventions || []).some(i => i.afterRound === session.rounds.length);
+    const tail: Message[] = [{
+      role: 'user',
+      content: this.buildTurnInstruction(
+        participant,
+        roundNumber,
+        session.config.maxRounds,
+        history.length > 0,
+        justIntervened,
+        lastRound?.guidance !== undefined
+      )
+    }];
 
-    return messages;
+    return this.context.fitMessages(head, history, tail, participant.model, participant.maxTokens ?? DEFAULT_MAX_TOKENS);
   }
 
   /**
-   * Gets response from a single agent with retry logic
-   * Requirements: 3.4 - retry up to 3 times before marking agent as unavailable
+   * Tells the agent where it stands in the debate and what this turn should do
    */
-  private async getAgentResponse(model: string, messages: Message[]): Promise<AgentResponse | null> {
-    const maxRetries = 3;
-    let lastError: Error | null = null;
+  private buildTurnInstruction(
+    participant: ParticipantConfig,
+    roundNumber: number,
+    maxRounds: number,
+    hasHistory: boolean,
+    justIntervened: boolean,
+    guided: boolean
+  ): string {
+    let position = `This is round ${roundNumber} of at most ${maxRounds}, and you are ${participant.name}.`;
+    if (justIntervened) {
+      position += ' The user has just intervened; take their input into account.';
+    }
+    if (guided) {
+      position += " Address the moderator's questions for this round.";
+    }
+    if (!hasHistory) {
+      return `${position} Give your opening position on the topic. Try to keep your response under 1000 words.`;
+    }
+    return `${position} Your own earlier turns appear as your messages; the other participants' turns are marked with their names. `
+      + 'Respond to their latest arguments: say where you agree, where you disagree and why, and refine your position. '
+      + 'Try to keep your response under 1000 words.';
+  }
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        const response = await this.client.chatCompletion({
+  /**
+   * Gets response from a single agent, retrying as the retry policy allows
+   * Requirements: 3.4 - retry before marking agent as unavailable
+   * @param onRetry - Told about each failed attempt that will be retried
+   */
+  private async getAgentResponse(
+    participant: ParticipantConfig,
+    roundNumber: number,
+    messages: Message[],
+    onDelta?: (attempt: number, delta: string) => void,
+    onRetry?: (attempt: number, delayMs: number, error: string) => void,
+    signal?: AbortSignal
+  ): Promise<AgentResponse> {
+    const { model, id: participantId, name: participantName } = participant;
+    let attempts = 0;
+
+    try {
+      return await withRetry(async attempt => {
+        attempts = attempt;
+        const request = {
           model,
           messages,
-          temperature: 0.7,
-          max_tokens: 8000
+          temperature: participant.temperature ?? DEFAULT_TEMPERATURE,
+          max_tokens: participant.maxTokens ?? DEFAULT_MAX_TOKENS
+        };
+        const response = await this.client.chatCompletion(request, {
+          role: 'agent',
+          roundNumber,
+          participantId,
+          onDelta: onDelta && (delta => onDelta(attempt, delta)),
+          signal
         });
 
-        if (response.choices && response.choices.length > 0) {
-          return {
-            model,
-            content: response.choices[0].message.content,
-            timestamp: new Date()
-          };
-        } else {
-          throw new Error('No response choices returned from API');
-        }
-      } catch (error) {
-        lastError = error as Error;
-
-        // Don't retry on authentication errors
-        if (error instanceof Error && error.message.includes('401')) {
-          break;
+        if (!response.choices || response.choices.length === 0) {
+          throw new MalformedResponseError('No response choices returned from API');
         }
 
-        // Wait before retry (exponential backoff)
-        if (attempt < maxRetries) {
-          await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
-        }
+        return {
+          model,
+          participantId,
+          participantName,
+          content: response.choices[0].message.content,
+          timestamp: new Date()
+        };
+      }, this.retryPolicy, signal, onRetry && ((error, attempt, delayMs) =>
+        onRetry(attempt, delayMs, error instanceof Error ? error.message : 'Unknown error')));
+    } catch (error) {
+      // A cancelled debate is not an agent failure
+      if (signal?.aborted) {
+        throw error;
       }
-    }
 
-    // Return error response if all retries failed
-    return {
-      model,
-      content: '',
-      timestamp: new Date(),
-      error: `Failed after ${maxRetries} attempts: ${lastError?.message || 'Unknown error'}`
-    };
+      // Return error response once retries are exhausted or the error is not retryable
+      return {
+        model,
+        participantId,
+        participantName,
+        content: '',
+        timestamp: new Date(),
+        error: `Failed after ${attempts} attempts: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * RoundSummarizer - Compresses a finished round into a short digest
+ * Used by the rolling_summary context strategy so older rounds stop growing every prompt
+ */
+
+import { ChatProvider, Message } from './client';
+import { extractiveDigest } from './context';
+import { MalformedResponseError } from './errors';
+import { DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from './retry';
+import { DebateRound, speakerName } from './session';
+
+export class RoundSummarizer {
+  private client: ChatProvider;
+  private model: string;
+  private retryPolicy: RetryPolicy;
+
+  constructor(client: ChatProvider, model: string, retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+    this.client = client;
+    this.model = model;
+    this.retryPolicy = retryPolicy;
+  }
+
+  /**
+   * Writes the digest of a round
+   * @param signal - Aborts the call; it then rejects instead of falling back
+   * @returns The digest, or an extractive digest if the summarizer fails
+   */
+  async summarizeRound(topic: string, round: DebateRound, signal?: AbortSignal): Promise<string> {
+    const messages: Message[] = [
+      {
+        role: 'system',
+        content: 'You compress rounds of a multi-agent debate. Write a concise digest that keeps each participant\'s position, key arguments and points of agreement or disagreement, attributed by name. Do not add your own opinions.'
+      },
+      {
+        role: 'user',
+        content: this.buildSummaryPrompt(topic, round)
+      }
+    ];
+
+    try {
+      return await withRetry(async () => {
+        const response = await this.client.chatCompletion({
+          model: this.model,
+          messages,
+          temperature: 0.3,
+          max_tokens: 600
+        }, { role: 'summarizer', roundNumber: round.roundNumber, signal });
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+          throw new MalformedResponseError('No response content from summarizer');
+        }
+        return content.trim();
+      }, this.retryPolicy, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      return extractiveDigest(round);
+    }
+  }
+
+  private buildSummaryPrompt(topic: string, round: DebateRound): string {
+    let prompt = `Topic: "${topic}"\n\n`;
+    prompt += `=== Round ${round.roundNumber} ===\n`;
+    round.responses.forEach(response => {
+      if (!response.error) {
+        prompt += `${speakerName(response)}: ${response.content}\n\n`;
+      }
+    });
+    prompt += `Summarize this round in at most 200 words.`;
+    return prompt;
+  }
+}
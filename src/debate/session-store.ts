@@ -0,0 +1,342 @@
+/**
+ * Session stores - Where debate sessions are kept
+ * An in-memory store, one JSON file per session in a directory, or a SQLite database. The orchestrator
+ * checkpoints running debates into the store, so the web server and the CLI can share one and inspect
+ * or continue each other's debates.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { DatabaseSync } from 'node:sqlite';
+import { type DebateSession, type DebateStatus } from './session';
+import { deserializeSession, isInterrupted, serializeSession } from './checkpoint';
+
+/**
+ * Which sessions list returns. All given conditions must hold.
+ */
+export interface SessionFilter {
+  status?: DebateStatus | DebateStatus[];
+  topic?: string;             // Case-insensitive part of the topic
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  limit?: number;             // Most recently updated first
+}
+
+/**
+ * How long sessions are kept. Debates that can still be continued (see isResumable) are never deleted.
+ */
+export interface RetentionPolicy {
+  ttlMs?: number;             // Sessions not updated for this long are deleted
+  maxSessions?: number;       // Only this many of the most recently updated sessions are kept
+}
+
+export interface SessionStore {
+  /**
+   * Adds a new session
+   * @throws Error if the store already has a session with its id
+   */
+  create(session: DebateSession): void;
+  get(sessionId: string): DebateSession | undefined;
+  /**
+   * Saves the current state of a session, adding it if the store does not have it yet
+   */
+  update(session: DebateSession): void;
+  /**
+   * Sessions matching the filter, most recently updated first
+   */
+  list(filter?: SessionFilter): DebateSession[];
+  delete(sessionId: string): void;
+  /**
+   * Deletes the sessions the retention policy no longer keeps
+   * @returns How many sessions were deleted
+   */
+  prune(now?: Date): number;
+}
+
+/**
+ * Opens the store a specification names: "memory", "file:<directory>" or "sqlite:<database file>"
+ * @throws Error if the specification names no known kind of store
+ */
+export function createSessionStore(spec: string, retention: RetentionPolicy = {}): SessionStore {
+  const separator = spec.indexOf(':');
+  const kind = separator === -1 ? spec : spec.slice(0, separator);
+  const location = separator === -1 ? '' : spec.slice(separator + 1);
+
+  if (kind === 'memory') {
+    return new MemorySessionStore(retention);
+  }
+  if (kind === 'file' && location) {
+    return new FileSessionStore(location, retention);
+  }
+  if (kind === 'sqlite' && location) {
+    return new SqliteSessionStore(location, retention);
+  }
+  throw new Error(`Invalid session store "${spec}". Use memory, file:<directory> or sqlite:<database file>`);
+}
+
+/**
+ * Whether the debate can still be continued: it was interrupted (see isInterrupted) or paused
+ */
+function isResumable(session: DebateSession): boolean {
+  return isInterrupted(session) || session.status === 'paused';
+}
+
+/**
+ * Sorts the sessions by last update, most recent first, and keeps those matching the filter
+ */
+function applyFilter(sessions: DebateSession[], filter: SessionFilter = {}): DebateSession[] {
+  const statuses = filter.status === undefined ? undefined : ([] as DebateStatus[]).concat(filter.status);
+  const topic = filter.topic?.toLowerCase();
+  const updated = (session: DebateSession) => session.updatedAt?.getTime() ?? 0;
+
+  const matching = sessions
+    .filter(session =>
+      (!statuses || statuses.includes(session.status))
+      && (!topic || session.config.topic.toLowerCase().includes(topic))
+      && (!filter.updatedAfter || updated(session) > filter.updatedAfter.getTime())
+      && (!filter.updatedBefore || updated(session) < filter.updatedBefore.getTime()))
+    .sort((a, b) => updated(b) - updated(a));
+  return filter.limit === undefined ? matching : matching.slice(0, filter.limit);
+}
+
+/**
+ * The ids of the sessions the retention policy no longer keeps
+ */
+function selectExpired(sessions: DebateSession[], retention: RetentionPolicy, now: Date): string[] {
+  const candidates = applyFilter(sessions.filter(session => !isResumable(session)));
+  return candidates
+    .filter((session, index) =>
+      (retention.ttlMs !== undefined && now.getTime() - (session.updatedAt?.getTime() ?? 0) > retention.ttlMs)
+      || (retention.maxSessions !== undefined && index >= retention.maxSessions))
+    .map(session => session.id);
+}
+
+/**
+ * Keeps sessions in this process only. Sessions are copied in and out, as the other stores do.
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<string, string>();
+  private readonly retention: RetentionPolicy;
+
+  constructor(retention: RetentionPolicy = {}) {
+    this.retention = retention;
+  }
+
+  create(session: DebateSession): void {
+    if (this.sessions.has(session.id)) {
+      throw new Error(`Session ${session.id} already exists`);
+    }
+    this.update(session);
+  }
+
+  get(sessionId: string): DebateSession | undefined {
+    const json = this.sessions.get(sessionId);
+    return json === undefined ? undefined : deserializeSession(json);
+  }
+
+  update(session: DebateSession): void {
+    session.updatedAt = new Date();
+    this.sessions.set(session.id, serializeSession(session));
+  }
+
+  list(filter?: SessionFilter): DebateSession[] {
+    return applyFilter([...this.sessions.values()].map(deserializeSession), filter);
+  }
+
+  delete(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  prune(now: Date = new Date()): number {
+    const expired = selectExpired(this.list(), this.retention, now);
+    expired.forEach(sessionId => this.delete(sessionId));
+    return expired.length;
+  }
+}
+
+/**
+ * Keeps one checkpoint file per session in a directory. Files are replaced atomically, so a crash while
+ * saving leaves the previous version intact.
+ */
+export class FileSessionStore implements SessionStore {
+  private readonly directory: string;
+  private readonly retention: RetentionPolicy;
+
+  constructor(directory: string, retention: RetentionPolicy = {}) {
+    this.directory = directory;
+    this.retention = retention;
+    mkdirSync(directory, { recursive: true });
+  }
+
+  create(session: DebateSession): void {
+    if (existsSync(this.filePath(session.id))) {
+      throw new Error(`Session ${session.id} already exists`);
+    }
+    this.update(session);
+  }
+
+  get(sessionId: string): DebateSession | undefined {
+    const filePath = this.filePath(sessionId);
+    return existsSync(filePath) ? deserializeSession(readFileSync(filePath, 'utf-8')) : undefined;
+  }
+
+  update(session: DebateSession): void {
+    session.updatedAt = new Date();
+    const filePath = this.filePath(session.id);
+    // A temporary name of its own per write, so processes sharing the directory never write into
+    // each other's half-written file
+    const tempPath = `${filePath}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`;
+    try {
+      writeFileSync(tempPath, serializeSession(session));
+      renameSync(tempPath, filePath);
+    } catch (error) {
+      rmSync(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  list(filter?: SessionFilter): DebateSession[] {
+    const sessions = readdirSync(this.directory)
+      .filter(file => file.endsWith('.json'))
+      .map(file => deserializeSession(readFileSync(path.join(this.directory, file), 'utf-8')));
+    return applyFilter(sessions, filter);
+  }
+
+  delete(sessionId: string): void {
+    rmSync(this.filePath(sessionId), { force: true });
+  }
+
+  prune(now: Date = new Date()): number {
+    const expired = selectExpired(this.list(), this.retention, now);
+    expired.forEach(sessionId => this.delete(sessionId));
+    return expired.length;
+  }
+
+  private filePath(sessionId: string): string {
+    // Session ids are UUIDs; anything else must not escape the directory
+    return path.join(this.directory, `${encodeURIComponent(sessionId)}.json`);
+  }
+}
+
+/**
+ * Keeps sessions in a SQLite database, one row per session holding its checkpoint next to the columns
+ * sessions are filtered by. Needs node:sqlite (Node.js 22.13 or later).
+ */
+export class SqliteSessionStore implements SessionStore {
+  private readonly db: DatabaseSync;
+  private readonly retention: RetentionPolicy;
+
+  constructor(filePath: string, retention: RetentionPolicy = {}) {
+    this.retention = retention;
+    this.db = new (loadSqlite().DatabaseSync)(filePath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        topic TEXT NOT NULL,
+        status TEXT NOT NULL,
+        resumable INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        checkpoint TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS sessions_updated_at ON sessions (updated_at);
+    `);
+  }
+
+  create(session: DebateSession): void {
+    if (this.db.prepare('SELECT 1 FROM sessions WHERE id = ?').get(session.id)) {
+      throw new Error(`Session ${session.id} already exists`);
+    }
+    this.update(session);
+  }
+
+  get(sessionId: string): DebateSession | undefined {
+    const row = this.db.prepare('SELECT checkpoint FROM sessions WHERE id = ?').get(sessionId);
+    return row ? deserializeSession(row.checkpoint as string) : undefined;
+  }
+
+  update(session: DebateSession): void {
+    session.updatedAt = new Date();
+    this.db.prepare(`
+      INSERT INTO sessions (id, topic, status, resumable, updated_at, checkpoint) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        topic = excluded.topic, status = excluded.status, resumable = excluded.resumable,
+        updated_at = excluded.updated_at, checkpoint = excluded.checkpoint
+    `).run(
+      session.id,
+      session.config.topic,
+      session.status,
+      isResumable(session) ? 1 : 0,
+      session.updatedAt.getTime(),
+      serializeSession(session)
+    );
+  }
+
+  list(filter: SessionFilter = {}): DebateSession[] {
+    const conditions: string[] = [];
+    const parameters: (string | number)[] = [];
+    if (filter.status !== undefined) {
+      const statuses = ([] as DebateStatus[]).concat(filter.status);
+      conditions.push(`status IN (${statuses.map(() => '?').join(', ') || 'NULL'})`);
+      parameters.push(...statuses);
+    }
+    if (filter.topic) {
+      conditions.push('instr(lower(topic), lower(?)) > 0');
+      parameters.push(filter.topic);
+    }
+    if (filter.updatedAfter) {
+      conditions.push('updated_at > ?');
+      parameters.push(filter.updatedAfter.getTime());
+    }
+    if (filter.updatedBefore) {
+      conditions.push('updated_at < ?');
+      parameters.push(filter.updatedBefore.getTime());
+    }
+
+    let sql = 'SELECT checkpoint FROM sessions';
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    sql += ' ORDER BY updated_at DESC';
+    if (filter.limit !== undefined) {
+      sql += ' LIMIT ?';
+      parameters.push(filter.limit);
+    }
+    return this.db.prepare(sql).all(...parameters).map(row => deserializeSession(row.checkpoint as string));
+  }
+
+  delete(sessionId: string): void {
+    this.db.prepare('DELETE FROM sessions WHERE id = ?').run(sessionId);
+  }
+
+  prune(now: Date = new Date()): number {
+    let deleted = 0;
+    if (this.retention.ttlMs !== undefined) {
+      deleted += Number(this.db.prepare('DELETE FROM sessions WHERE resumable = 0 AND updated_at < ?')
+        .run(now.getTime() - this.retention.ttlMs).changes);
+    }
+    if (this.retention.maxSessions !== undefined) {
+      deleted += Number(this.db.prepare(`
+        DELETE FROM sessions WHERE resumable = 0 AND id NOT IN (
+          SELECT id FROM sessions WHERE resumable = 0 ORDER BY updated_at DESC LIMIT ?
+        )
+      `).run(this.retention.maxSessions).changes);
+    }
+    return deleted;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Loads node:sqlite on first use, so that the other stores work on Node.js versions without it
+ */
+function loadSqlite(): typeof import('node:sqlite') {
+  try {
+    return require('node:sqlite');
+  } catch {
+    throw new Error(`SQLite session stores need node:sqlite (Node.js 22.13 or later), this is Node.js ${process.versions.node}`);
+  }
+}
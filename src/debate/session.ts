@@ -1,34 +1,166 @@
 import { randomUUID } from 'crypto';
 import { DebateConfig } from './config';
+import { UsageRecord } from './usage';
+import type { ParseDiagnostic } from './structured-output';
+import type { ConvergenceMetrics } from './convergence-metrics';
+import type { StructuredSynthesis } from './synthesizer';
+import type { CitationCheck } from './citations';
+import type { RatificationVote } from './ratification';
 
 export interface DebateRound {
   roundNumber: number;
   responses: AgentResponse[];
   convergenceCheck?: ConvergenceAssessment;
+  summary?: string;           // Digest used in place of the responses once the round is compressed (rolling_summary)
+  guidance?: ModeratorGuidance; // Steering for the next round (moderatorSteering)
+  diagnostics?: ParseDiagnostic[]; // Structured answers about this round that were rejected
+}
+
+/**
+ * What the moderator asks the agents to focus on in the next round
+ */
+export interface ModeratorGuidance {
+  disagreements: string[];    // Main points the agents still disagree on
+  questions: string[];        // One to three focused questions or instructions
+}
+
+/**
+ * Input from the user between rounds, e.g. when continuing a finished debate
+ */
+export interface UserIntervention {
+  content: string;
+  afterRound: number;         // Rounds completed when it was given; 0 means before the first round
+  timestamp: Date;
+}
+
+/**
+ * Rounds and user interventions in the order they happened
+ */
+export type TimelineEntry =
+  | { type: 'round'; round: DebateRound }
+  | { type: 'intervention'; intervention: UserIntervention };
+
+/**
+ * Merges rounds and interventions into one timeline; an intervention follows the round it was given after
+ */
+export function buildTimeline(rounds: DebateRound[], interventions: UserIntervention[] = []): TimelineEntry[] {
+  const pending = [...interventions].sort((a, b) => a.afterRound - b.afterRound);
+  const timeline: TimelineEntry[] = [];
+  let next = 0;
+
+  for (const round of rounds) {
+    while (next < pending.length && pending[next].afterRound < round.roundNumber) {
+      timeline.push({ type: 'intervention', intervention: pending[next++] });
+    }
+    timeline.push({ type: 'round', round });
+  }
+  while (next < pending.length) {
+    timeline.push({ type: 'intervention', intervention: pending[next++] });
+  }
+
+  return timeline;
 }
 
 export interface AgentResponse {
   model: string;
+  participantId?: string;     // ParticipantConfig.id; missing in responses recorded before participants existed
+  participantName?: string;   // ParticipantConfig.name
   content: string;
   timestamp: Date;
   error?: string;
 }
 
+/**
+ * Name an agent is shown under in prompts and output
+ */
+export function speakerName(response: Pick<AgentResponse, 'model' | 'participantName'>): string {
+  return response.participantName || response.model;
+}
+
+/**
+ * Renders moderator guidance as the agents and the debate history show it
+ */
+export function formatGuidance(guidance: ModeratorGuidance): string {
+  const lines: string[] = [];
+  if (guidance.disagreements.length > 0) {
+    lines.push('Main points of disagreement:', ...guidance.disagreements.map(point => `- ${point}`));
+  }
+  lines.push('Questions for the next round:', ...guidance.questions.map((question, i) => `${i + 1}. ${question}`));
+  return lines.join('\n');
+}
+
 export interface ConvergenceAssessment {
   isConverged: boolean;
   confidenceScore: number;  // 0-1
   reasoning: string;
+  metrics?: ConvergenceMetrics; // Local metrics of the round, whatever the convergence policy
+  judges?: JudgeVerdict[];    // Every judge's verdict when a moderator panel decided (moderatorModels)
 }
 
-export type DebateStatus = 'pending' | 'in_progress' | 'converged' | 'max_rounds_reached' | 'completed';
+/**
+ * The verdict of one judge of a moderator panel
+ */
+export interface JudgeVerdict {
+  model: string;
+  isConverged: boolean;
+  confidenceScore: number;
+  reasoning: string;
+  failed?: boolean;           // Gave no usable verdict and abstained
+}
+
+/**
+ * A participant's review of the synthesized answer (ratification)
+ */
+export interface RatificationBallot {
+  participantId: string;
+  participantName: string;
+  model: string;
+  vote?: RatificationVote;    // Missing if the participant gave no usable ballot and abstained
+  corrections: string[];      // Specific changes the participant asks for
+  reasoning: string;
+  error?: string;             // Why the participant abstained
+}
+
+/**
+ * The participants' ballots on the synthesized answer and whether it was revised after them
+ */
+export interface Ratification {
+  ballots: RatificationBallot[];
+  originalAnswer?: string;    // The synthesized answer as voted on; set if it was revised
+  revisionError?: string;     // Set if a revision was needed but failed, leaving the answer as voted on
+  diagnostics?: ParseDiagnostic[]; // Ballots that had to be repaired or could not be parsed
+}
+
+/**
+ * A claim on a running debate by the process running it, renewed with every checkpoint and heartbeat.
+ * Other processes sharing the session store leave the debate alone until the lease expires.
+ */
+export interface SessionLease {
+  owner: string;              // The process holding the lease, see LEASE_OWNER
+  heartbeatAt: Date;          // Last renewal
+}
+
+// paused: stopped at a round boundary until it is resumed or stepped
+export type DebateStatus = 'pending' | 'in_progress' | 'paused' | 'converged' | 'max_rounds_reached' | 'budget_exhausted' | 'cancelled' | 'completed';
 
 export interface DebateSession {
   id: string;
   config: DebateConfig;
   rounds: DebateRound[];
+  pendingRound?: DebateRound; // Responses of the round in flight, kept so an interrupted round resumes where it stopped
   status: DebateStatus;
   finalAnswer?: string;
+  synthesis?: StructuredSynthesis; // The final answer as a typed object (structuredSynthesis)
+  synthesisDiagnostics?: ParseDiagnostic[]; // Structured syntheses that were rejected
+  citations?: CitationCheck;  // Response ids the final answer cites, and those that match no response
+  ratification?: Ratification; // The participants' review of the final answer (ratification)
   convergenceAssessment?: ConvergenceAssessment;
+  usage?: UsageRecord[];      // Every API call made for this session
+  cancellationReason?: string; // Set when status is cancelled (user request or timeout)
+  interventions?: UserIntervention[]; // User input between rounds, see buildTimeline
+  createdAt?: Date;
+  updatedAt?: Date;           // Last saved to a session store
+  lease?: SessionLease;       // Set while a process runs the debate
 }
 
 export class DebateSessionManager {
@@ -42,7 +174,26 @@ export class DebateSessionManager {
       id: randomUUID(),
       config,
       rounds: [],
-      status: 'pending'
+      status: 'pending',
+      usage: [],
+      interventions: [],
+      createdAt: new Date()
     };
   }
+
+  /**
+   * Records user input to be taken into account from the next round on
+   */
+  static addIntervention(session: DebateSession, content: string): UserIntervention {
+    const intervention = { content, afterRound: session.rounds.length, timestamp: new Date() };
+    (session.interventions || (session.interventions = [])).push(intervention);
+    return intervention;
+  }
+
+  /**
+   * The session's rounds and interventions in order
+   */
+  static getTimeline(session: DebateSession): TimelineEntry[] {
+    return buildTimeline(session.rounds, session.interventions);
+  }
 }
\ No newline at end of file
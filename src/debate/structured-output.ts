@@ -0,0 +1,258 @@
+/**
+ * Structured output
+ * Extracts and validates the JSON answers of models, asking the model once to repair an invalid answer
+ */
+
+import { type CallRole, type ChatCallOptions, type ChatProvider, type ChatRequest, type Message } from './client';
+import { MalformedResponseError, StructuredOutputError } from './errors';
+import { DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from './retry';
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'string[]' | 'object[]';
+
+export interface FieldSchema {
+  type: FieldType;
+  optional?: boolean;         // May be missing; a present field must still have the right type
+  items?: OutputSchema;       // Fields of each element of an object[] field
+  values?: readonly string[]; // The only values a string field may take
+}
+
+/**
+ * Fields of the JSON object a model is asked for, in the order they are described to it
+ */
+export type OutputSchema = Record<string, FieldSchema>;
+
+/**
+ * An answer that was rejected, recorded so that parse failures can be told apart from genuine verdicts
+ */
+export interface ParseDiagnostic {
+  role: CallRole;
+  model: string;
+  stage: 'initial' | 'repair'; // Whether the first answer or the repaired one was rejected
+  error: string;
+  content: string;            // Start of the rejected answer
+  timestamp: Date;
+}
+
+/**
+ * A validated answer together with the answers rejected on the way to it
+ */
+export interface StructuredOutput<T> {
+  value: T;
+  diagnostics: ParseDiagnostic[];
+}
+
+const DIAGNOSTIC_CONTENT_CHARS = 200;
+
+/**
+ * Renders a schema the way prompts describe the expected format, e.g. {"isConverged": boolean}
+ */
+export function describeSchema(schema: OutputSchema): string {
+  const describeField = (field: FieldSchema) => {
+    if (field.type === 'object[]' && field.items) {
+      return `[${describeSchema(field.items)}, ...]`;
+    }
+    return field.values ? field.values.map(value => `"${value}"`).join(' | ') : field.type;
+  };
+  return `{${Object.entries(schema).map(([name, field]) => `"${name}": ${describeField(field)}`).join(', ')}}`;
+}
+
+/**
+ * Removes a Markdown code fence wrapped around the whole text; text with fences inside is left as is
+ */
+export function stripCodeFences(text: string): string {
+  const trimmed = text.trim();
+  const match = trimmed.match(/^```[\w-]*[ \t]*\r?\n([\s\S]*?)\r?\n?```$/);
+  return match ? match[1].trim() : trimmed;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Finds the end of the balanced {...} starting at start, skipping braces inside strings
+ * @returns The index of the closing brace, or -1 if the object is not closed
+ */
+function findObjectEnd(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Parses the text as a JSON object, or else the first balanced {...} in it that is valid JSON.
+ * Braces in prose before the object and inside its strings are handled.
+ * @throws Error if the text contains no JSON object
+ */
+export function extractJsonObject(text: string): Record<string, unknown> {
+  const content = stripCodeFences(text);
+
+  try {
+    const parsed = JSON.parse(content);
+    if (isObject(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // Fall through to the search below
+  }
+
+  for (let start = content.indexOf('{'); start !== -1; start = content.indexOf('{', start + 1)) {
+    const end = findObjectEnd(content, start);
+    if (end === -1) {
+      break;
+    }
+    try {
+      const parsed = JSON.parse(content.substring(start, end + 1));
+      if (isObject(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Not JSON; try the next opening brace
+    }
+  }
+
+  throw new Error('No JSON object found in response');
+}
+
+/**
+ * Checks the fields of a parsed object against the schema, descending into the elements of object[] fields
+ * @param path - Prefix of the field names in the messages, e.g. "disagreements[0]."
+ * @returns One message per invalid field; empty if the object is valid
+ */
+export function validateAgainstSchema(value: Record<string, unknown>, schema: OutputSchema, path = ''): string[] {
+  const issues: string[] = [];
+
+  for (const [name, field] of Object.entries(schema)) {
+    const fieldValue = value[name];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (!field.optional) {
+        issues.push(`${path}${name} is missing`);
+      }
+      continue;
+    }
+
+    if (field.type === 'object[]') {
+      if (!Array.isArray(fieldValue) || !fieldValue.every(isObject)) {
+        issues.push(`${path}${name} must be an array of objects`);
+      } else if (field.items) {
+        const items = field.items;
+        fieldValue.forEach((item, i) => issues.push(...validateAgainstSchema(item, items, `${path}${name}[${i}].`)));
+      }
+      continue;
+    }
+
+    const valid = field.type === 'string[]'
+      ? Array.isArray(fieldValue) && fieldValue.every(item => typeof item === 'string')
+      : typeof fieldValue === field.type && !(field.type === 'number' && !Number.isFinite(fieldValue));
+    if (!valid) {
+      issues.push(`${path}${name} must be ${field.type === 'string[]' ? 'an array of strings' : `a ${field.type}`}`);
+    } else if (field.type === 'string' && field.values && !field.values.includes(fieldValue as string)) {
+      issues.push(`${path}${name} must be one of: ${field.values.join(', ')}`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Extracts the JSON object of an answer and validates it against the schema
+ * @throws StructuredOutputError if there is no JSON object or it does not match the schema
+ */
+export function parseStructuredOutput<T>(content: string, schema: OutputSchema): T {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = extractJsonObject(content);
+  } catch (error) {
+    throw new StructuredOutputError(error instanceof Error ? error.message : 'Invalid JSON');
+  }
+
+  const issues = validateAgainstSchema(parsed, schema);
+  if (issues.length > 0) {
+    throw new StructuredOutputError(issues.join('; '));
+  }
+  return parsed as T;
+}
+
+/**
+ * Sends a request whose answer must be a JSON object matching the schema. An invalid answer is
+ * sent back to the model once, with the validation error, to be repaired.
+ *
+ * @param options - Call options; role is required so that diagnostics can be attributed
+ * @returns The validated answer and the diagnostics of rejected answers
+ * @throws StructuredOutputError if the repaired answer is still invalid; its diagnostics list every rejected answer
+ */
+export async function requestStructuredOutput<T>(
+  client: ChatProvider,
+  request: ChatRequest,
+  options: ChatCallOptions & { role: CallRole },
+  schema: OutputSchema,
+  retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<StructuredOutput<T>> {
+  const diagnostics: ParseDiagnostic[] = [];
+  const complete = (messages: Message[]) => withRetry(async () => {
+    const response = await client.chatCompletion({ ...request, messages }, options);
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new MalformedResponseError(`No response content from ${options.role}`);
+    }
+    return content;
+  }, retryPolicy, options.signal);
+  const reject = (stage: ParseDiagnostic['stage'], content: string, error: StructuredOutputError) => diagnostics.push({
+    role: options.role,
+    model: request.model,
+    stage,
+    error: error.message,
+    content: content.substring(0, DIAGNOSTIC_CONTENT_CHARS),
+    timestamp: new Date()
+  });
+
+  const content = await complete(request.messages);
+  let firstError: StructuredOutputError;
+  try {
+    return { value: parseStructuredOutput<T>(content, schema), diagnostics };
+  } catch (error) {
+    firstError = error as StructuredOutputError;
+    reject('initial', content, firstError);
+  }
+
+  let repaired: string;
+  try {
+    repaired = await complete([
+      ...request.messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your response could not be used: ${firstError.message}. Respond again with ONLY a valid JSON object in this exact format: ${describeSchema(schema)}. Do not include any other text.`
+      }
+    ]);
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
+    throw new StructuredOutputError(`${firstError.message} (repair request failed: ${error instanceof Error ? error.message : 'Unknown error'})`, diagnostics);
+  }
+
+  try {
+    return { value: parseStructuredOutput<T>(repaired, schema), diagnostics };
+  } catch (error) {
+    reject('repair', repaired, error as StructuredOutputError);
+    throw new StructuredOutputError((error as StructuredOutputError).message, diagnostics);
+  }
+}
@@ -1,18 +1,155 @@
 /**
  * Synthesizer class for generating final consolidated answers
- * Takes complete debate history and generates a comprehensive final answer
+ * Takes complete debate history and generates a comprehensive final answer; transcripts too long for one
+ * prompt are summarized per round or per participant first and the summaries combined (map-reduce)
  */
 
-import { AIBuilderClient, Message } from './client';
-import { DebateRound } from './session';
+import { ChatProvider, Message } from './client';
+import { MalformedResponseError, StructuredOutputError } from './errors';
+import { DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from './retry';
+import { ContextBuilder, estimateTokens, type ContextEntry } from './context';
+import { extractKeySentences, formatExtract } from './extractive-summary';
+import {
+  describeSchema,
+  requestStructuredOutput,
+  stripCodeFences,
+  type OutputSchema,
+  type ParseDiagnostic
+} from './structured-output';
+import { responseRef } from './citations';
+import { DebateRound, UserIntervention, speakerName, type RatificationBallot } from './session';
+
+const SYNTHESIZER_MAX_TOKENS = 1000;
+// The JSON object repeats the participants' names and positions, so it needs more room than prose
+const STRUCTURED_SYNTHESIZER_MAX_TOKENS = 2000;
+const PARTIAL_SUMMARY_MAX_TOKENS = 600;
+// Without a known context window, longer transcripts are synthesized hierarchically
+const SINGLE_PASS_MAX_TOKENS = 24000;
+// Sentences kept by the offline fallbacks
+const PARTIAL_FALLBACK_SENTENCES = 5;
+const FALLBACK_KEY_POINTS = 8;
+const FALLBACK_POSITION_SENTENCES = 2;
+
+/**
+ * How the transcript reaches the synthesizer:
+ * - auto: single while the whole transcript fits the synthesizer's prompt budget, otherwise by_participant
+ *   if there are fewer participants than rounds, else by_round
+ * - single: the whole transcript in one prompt, dropping the oldest rounds if it does not fit
+ * - by_round: each round is summarized first and the synthesis combines the summaries
+ * - by_participant: each participant's trajectory over all rounds is summarized first
+ */
+export const SYNTHESIS_STRATEGIES = ['auto', 'single', 'by_round', 'by_participant'] as const;
+
+export type SynthesisStrategy = typeof SYNTHESIS_STRATEGIES[number];
+
+/**
+ * A round or a participant's trajectory, summarized separately in hierarchical synthesis
+ */
+interface SynthesisPart {
+  title: string;
+  rounds: DebateRound[];      // For a trajectory, only the participant's responses
+  roundNumber?: number;
+  participantId?: string;
+}
+
+const SYNTHESIS_SCHEMA: OutputSchema = {
+  executiveSummary: { type: 'string' },
+  consensus: { type: 'string[]' },
+  disagreements: {
+    type: 'object[]',
+    items: {
+      issue: { type: 'string' },
+      sides: { type: 'object[]', items: { position: { type: 'string' }, participants: { type: 'string[]' } } }
+    }
+  },
+  minorityPositions: { type: 'object[]', items: { participant: { type: 'string' }, position: { type: 'string' } } },
+  nextSteps: { type: 'string[]' },
+  confidence: { type: 'number' }
+};
+
+/**
+ * A question the participants still disagree on, with who holds which position
+ */
+export interface SynthesisDisagreement {
+  issue: string;
+  sides: { position: string; participants: string[] }[];
+}
+
+/**
+ * A position only one participant holds
+ */
+export interface MinorityPosition {
+  participant: string;
+  position: string;
+}
+
+/**
+ * The final answer as a typed object (structuredSynthesis); the free-text answer is rendered from it
+ */
+export interface StructuredSynthesis {
+  executiveSummary: string;
+  consensus: string[];        // Points all participants agree on
+  disagreements: SynthesisDisagreement[];
+  minorityPositions: MinorityPosition[];
+  nextSteps: string[];        // Recommended next steps
+  confidence: number;         // 0-1, how settled the answer is
+}
+
+/**
+ * Result of a structured synthesis. If the synthesizer gave no usable object, the answer is a free-form
+ * synthesis and the diagnostics say why.
+ */
+export interface SynthesisResult {
+  answer: string;
+  synthesis?: StructuredSynthesis;
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Renders a structured synthesis as the Markdown final answer; empty sections are left out
+ */
+export function renderSynthesis(synthesis: StructuredSynthesis): string {
+  const sections = [`## Executive Summary\n\n${synthesis.executiveSummary}`];
+  const list = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+  if (synthesis.consensus.length > 0) {
+    sections.push(`## Consensus\n\n${list(synthesis.consensus)}`);
+  }
+  if (synthesis.disagreements.length > 0) {
+    sections.push(`## Open Disagreements\n\n${synthesis.disagreements.map(disagreement =>
+      `### ${disagreement.issue}\n\n${list(disagreement.sides.map(side => `${side.position} (${side.participants.join(', ')})`))}`
+    ).join('\n\n')}`);
+  }
+  if (synthesis.minorityPositions.length > 0) {
+    sections.push(`## Minority Positions\n\n${list(synthesis.minorityPositions.map(minority => `**${minority.participant}**: ${minority.position}`))}`);
+  }
+  if (synthesis.nextSteps.length > 0) {
+    sections.push(`## Recommended Next Steps\n\n${synthesis.nextSteps.map((step, i) => `${i + 1}. ${step}`).join('\n')}`);
+  }
+  sections.push(`**Confidence:** ${Math.round(synthesis.confidence * 100)}%`);
+
+  return sections.join('\n\n');
+}
 
 export class Synthesizer {
-  private client: AIBuilderClient;
+  private client: ChatProvider;
   private model: string;
+  private retryPolicy: RetryPolicy;
+  private context: ContextBuilder;
+  private strategy: SynthesisStrategy;
 
-  constructor(client: AIBuilderClient, model: string) {
+  constructor(
+    client: ChatProvider,
+    model: string,
+    retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    context: ContextBuilder = new ContextBuilder(),
+    strategy: SynthesisStrategy = 'auto'
+  ) {
     this.client = client;
     this.model = model;
+    this.retryPolicy = retryPolicy;
+    this.context = context;
+    this.strategy = strategy;
   }
 
   /**
@@ -21,15 +158,28 @@ export class Synthesizer {
    * 
    * @param topic - The original debate topic
    * @param rounds - All debate rounds with agent responses
+   * @param signal - Aborts the synthesis; it then rejects instead of falling back
+   * @param interventions - User input given between the rounds
    * @returns Promise<string> - The consolidated final answer
    */
-  async synthesize(topic: string, rounds: DebateRound[]): Promise<string> {
+  async synthesize(
+    topic: string,
+    rounds: DebateRound[],
+    signal?: AbortSignal,
+    interventions: UserIntervention[] = []
+  ): Promise<string> {
     if (rounds.length === 0) {
       return `No debate rounds available for topic: "${topic}". Unable to provide a synthesized answer.`;
     }
 
-    const prompt = this.buildSynthesisPrompt(topic, rounds);
-    
+    const buildPrompt = await this.preparePrompt(topic, rounds, interventions, SYNTHESIZER_MAX_TOKENS, signal);
+    return this.synthesizeFrom(topic, rounds, buildPrompt(false), signal);
+  }
+
+  /**
+   * Sends a prose synthesis prompt, falling back to an extractive synthesis if the synthesizer fails
+   */
+  private async synthesizeFrom(topic: string, rounds: DebateRound[], prompt: string, signal?: AbortSignal): Promise<string> {
     const messages: Message[] = [
       {
         role: 'system',
@@ -42,97 +192,418 @@ export class Synthesizer {
     ];
 
     try {
+      const content = await withRetry(async () => {
+        const response = await this.client.chatCompletion({
+          model: this.model,
+          messages,
+          temperature: 0.7, // Moderate temperature for creative synthesis
+          max_tokens: SYNTHESIZER_MAX_TOKENS
+        }, { role: 'synthesizer', signal });
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+          throw new MalformedResponseError('No response content from synthesizer');
+        }
+        return content;
+      }, this.retryPolicy, signal);
+
+      // Some models wrap the whole document in a Markdown fence
+      return stripCodeFences(content);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      // Fallback synthesis if synthesizer fails
+      return this.createFallbackSynthesis(topic, rounds, error);
+    }
+  }
+
+  /**
+   * Synthesizes the final answer as a typed object and renders the free-text answer from it.
+   * An answer that is still invalid after one repair falls back to the free-form synthesis.
+   *
+   * @param signal - Aborts the synthesis; it then rejects instead of falling back
+   * @param interventions - User input given between the rounds
+   */
+  async synthesizeStructured(
+    topic: string,
+    rounds: DebateRound[],
+    signal?: AbortSignal,
+    interventions: UserIntervention[] = []
+  ): Promise<SynthesisResult> {
+    if (rounds.length === 0) {
+      return { answer: await this.synthesize(topic, rounds, signal, interventions), diagnostics: [] };
+    }
+
+    // Built once, so that falling back to prose does not summarize the parts again
+    const buildPrompt = await this.preparePrompt(topic, rounds, interventions, STRUCTURED_SYNTHESIZER_MAX_TOKENS, signal);
+    const prompt = buildPrompt(true);
+
+    const messages: Message[] = [
+      {
+        role: 'system',
+        content: `You are a neutral synthesis expert. Your ONLY task is to objectively consolidate the viewpoints expressed by the AI agents in the debate, without adding your own opinions. You MUST respond ONLY with a valid JSON object in this exact format: ${describeSchema(SYNTHESIS_SCHEMA)}. Refer to participants by the names used in the debate. minorityPositions lists positions only one participant holds. The confidence must be between 0 and 1. Do not include any other text before or after the JSON.`
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ];
+
+    try {
+      const { value, diagnostics } = await requestStructuredOutput<StructuredSynthesis>(
+        this.client,
+        {
+          model: this.model,
+          messages,
+          temperature: 0.3, // Lower temperature for well-formed JSON
+          max_tokens: STRUCTURED_SYNTHESIZER_MAX_TOKENS
+        },
+        { role: 'synthesizer', signal },
+        SYNTHESIS_SCHEMA,
+        this.retryPolicy
+      );
+
+      const synthesis = this.toSynthesis(value);
+      return { answer: renderSynthesis(synthesis), synthesis, diagnostics };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      if (error instanceof StructuredOutputError) {
+        return { answer: await this.synthesizeFrom(topic, rounds, buildPrompt(false), signal), diagnostics: error.diagnostics };
+      }
+
+      return { answer: this.createFallbackSynthesis(topic, rounds, error), diagnostics: [] };
+    }
+  }
+
+  /**
+   * Revises the final answer once after the participants reviewed it (ratification), applying the
+   * corrections of those that approved with edits or objected. A structured synthesis is revised as
+   * the object and rendered again.
+   *
+   * @param result - The answer the participants voted on
+   * @throws Error if the revision fails; the caller keeps the answer as voted on
+   */
+  async revise(
+    topic: string,
+    result: SynthesisResult,
+    ballots: RatificationBallot[],
+    signal?: AbortSignal
+  ): Promise<SynthesisResult> {
+    const prompt = this.buildRevisionPrompt(topic, result.synthesis ? JSON.stringify(result.synthesis, null, 2) : result.answer, ballots);
+
+    if (result.synthesis) {
+      const { value, diagnostics } = await requestStructuredOutput<StructuredSynthesis>(
+        this.client,
+        {
+          model: this.model,
+          messages: [
+            {
+              role: 'system',
+              content: `You are a neutral synthesis expert revising the final answer of a debate after its participants reviewed it. You MUST respond ONLY with the revised JSON object in this exact format: ${describeSchema(SYNTHESIS_SCHEMA)}. Do not include any other text before or after the JSON.`
+            },
+            { role: 'user', content: prompt }
+          ],
+          temperature: 0.3, // Lower temperature for well-formed JSON
+          max_tokens: STRUCTURED_SYNTHESIZER_MAX_TOKENS
+        },
+        { role: 'synthesizer', signal },
+        SYNTHESIS_SCHEMA,
+        this.retryPolicy
+      );
+
+      const synthesis = this.toSynthesis(value);
+      return { answer: renderSynthesis(synthesis), synthesis, diagnostics: [...result.diagnostics, ...diagnostics] };
+    }
+
+    const answer = await withRetry(async () => {
       const response = await this.client.chatCompletion({
         model: this.model,
-        messages,
-        temperature: 0.7, // Moderate temperature for creative synthesis
-        max_tokens: 1000
-      });
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a neutral synthesis expert revising the final answer of a debate after its participants reviewed it. Respond ONLY with the complete revised answer.'
+          },
+          { role: 'user', content: prompt }
+        ],
+        temperature: 0.3, // Corrections, not a new synthesis
+        max_tokens: SYNTHESIZER_MAX_TOKENS
+      }, { role: 'synthesizer', signal });
 
       const content = response.choices[0]?.message?.content;
       if (!content) {
-        throw new Error('No response content from synthesizer');
+        throw new MalformedResponseError('No response content from synthesizer');
       }
+      return content;
+    }, this.retryPolicy, signal);
+
+    return { answer: stripCodeFences(answer), diagnostics: result.diagnostics };
+  }
+
+  /**
+   * Builds the prompt for revising an answer with the corrections of the participants that asked for changes
+   */
+  private buildRevisionPrompt(topic: string, answer: string, ballots: RatificationBallot[]): string {
+    let prompt = `Topic: "${topic}"\n\n`;
+    prompt += `=== FINAL ANSWER ===\n\n${answer}\n\n`;
+    prompt += `=== PARTICIPANTS' REVIEW ===\n\n`;
+    ballots
+      .filter(ballot => ballot.vote === 'approve_with_edits' || ballot.vote === 'object')
+      .forEach(ballot => {
+        const verdict = ballot.vote === 'object' ? 'objects' : 'approves with edits';
+        prompt += `${ballot.participantName} ${verdict}: ${ballot.reasoning}\n`;
+        ballot.corrections.forEach(correction => {
+          prompt += `- ${correction}\n`;
+        });
+        prompt += `\n`;
+      });
 
-      return content.trim();
+    prompt += `=== REVISION INSTRUCTIONS ===\n\n`;
+    prompt += `Revise the final answer once so that it represents every participant's position accurately:\n`;
+    prompt += `1. Apply the corrections each participant requested about its own position\n`;
+    prompt += `2. Keep everything nobody objected to, including the structure and the reference ids cited in square brackets\n`;
+    prompt += `3. Do NOT add your own opinions; remain a neutral summary of what the agents said\n\n`;
+    prompt += `Respond with the revised final answer:`;
+
+    return prompt;
+  }
+
+  /**
+   * Drops blank entries and keeps the confidence between 0 and 1
+   */
+  private toSynthesis(value: StructuredSynthesis): StructuredSynthesis {
+    const nonBlank = (items: string[]) => items.map(item => item.trim()).filter(item => item.length > 0);
+
+    return {
+      executiveSummary: value.executiveSummary.trim(),
+      consensus: nonBlank(value.consensus),
+      disagreements: value.disagreements
+        .map(disagreement => ({
+          issue: disagreement.issue.trim(),
+          sides: disagreement.sides
+            .map(side => ({ position: side.position.trim(), participants: nonBlank(side.participants) }))
+            .filter(side => side.position)
+        }))
+        .filter(disagreement => disagreement.issue && disagreement.sides.length > 0),
+      minorityPositions: value.minorityPositions
+        .map(minority => ({ participant: minority.participant.trim(), position: minority.position.trim() }))
+        .filter(minority => minority.participant && minority.position),
+      nextSteps: nonBlank(value.nextSteps),
+      confidence: Math.max(0, Math.min(1, value.confidence))
+    };
+  }
+
+  /**
+   * Decides how the transcript reaches the synthesizer; a fixed strategy is returned as is
+   * @param reservedTokens - Room kept for the answer, default: that of a prose synthesis
+   */
+  planSynthesis(
+    topic: string,
+    rounds: DebateRound[],
+    interventions: UserIntervention[] = [],
+    reservedTokens: number = SYNTHESIZER_MAX_TOKENS
+  ): Exclude<SynthesisStrategy, 'auto'> {
+    if (this.strategy !== 'auto') {
+      return this.strategy;
+    }
+
+    const transcript = this.buildSynthesisPrompt(topic, this.renderHistory(this.context.selectTimeline(rounds, interventions)), false);
+    const budget = this.context.promptBudget(this.model, reservedTokens) ?? SINGLE_PASS_MAX_TOKENS;
+    if (estimateTokens(transcript) <= budget) {
+      return 'single';
+    }
+
+    // Fewer, longer parts need fewer calls
+    const participants = new Set(rounds.flatMap(round => round.responses.map(r => r.participantId ?? r.model)));
+    return participants.size < rounds.length ? 'by_participant' : 'by_round';
+  }
+
+  /**
+   * Prepares the synthesis prompt for the planned strategy. Hierarchical strategies summarize their parts
+   * here, in parallel; the returned function then renders the prose or the structured prompt.
+   */
+  private async preparePrompt(
+    topic: string,
+    rounds: DebateRound[],
+    interventions: UserIntervention[],
+    reservedTokens: number,
+    signal?: AbortSignal
+  ): Promise<(structured: boolean) => string> {
+    const strategy = this.planSynthesis(topic, rounds, interventions, reservedTokens);
+    if (strategy === 'single') {
+      const entries = this.context.selectTimeline(rounds, interventions);
+      return structured => this.context.fitEntries(
+        entries,
+        selected => this.buildSynthesisPrompt(topic, this.renderHistory(selected), structured),
+        this.model,
+        reservedTokens
+      );
+    }
+
+    const parts = strategy === 'by_round' ? this.roundParts(rounds) : this.participantParts(rounds);
+    const summaries = await Promise.all(parts.map(part => this.summarizePart(topic, part, signal)));
+
+    let history = parts.map((part, i) => `--- ${part.title} (summary) ---\n${summaries[i]}\n\n`).join('');
+    interventions.forEach(intervention => {
+      history += `--- User Intervention (after round ${intervention.afterRound}) ---\n${intervention.content}\n\n`;
+    });
+    return structured => this.buildSynthesisPrompt(topic, history, structured);
+  }
+
+  private roundParts(rounds: DebateRound[]): SynthesisPart[] {
+    return rounds.map(round => ({ title: `Round ${round.roundNumber}`, rounds: [round], roundNumber: round.roundNumber }));
+  }
+
+  /**
+   * One part per participant, with the participant's responses of every round
+   */
+  private participantParts(rounds: DebateRound[]): SynthesisPart[] {
+    const parts = new Map<string, SynthesisPart>();
+    rounds.forEach(round => round.responses.forEach(response => {
+      const participantId = response.participantId ?? response.model;
+      if (!parts.has(participantId)) {
+        parts.set(participantId, { title: `Trajectory of ${speakerName(response)}`, rounds: [], participantId });
+      }
+      parts.get(participantId)!.rounds.push({ roundNumber: round.roundNumber, responses: [response] });
+    }));
+    return [...parts.values()];
+  }
+
+  /**
+   * Summarizes one part of the debate, keeping the reference ids so that the synthesis can still cite them
+   * @returns The summary, or an extractive one if the call fails
+   */
+  private async summarizePart(topic: string, part: SynthesisPart, signal?: AbortSignal): Promise<string> {
+    const entries = part.rounds.map((round): ContextEntry => ({ type: 'round', round }));
+    const messages: Message[] = [
+      {
+        role: 'system',
+        content: 'You condense part of a multi-agent debate for a later synthesis. Keep each participant\'s positions, key arguments and points of agreement or disagreement, attributed by name, and cite the reference id in square brackets after every point, e.g. [R2-gpt-5]. Do not add your own opinions.'
+      },
+      {
+        role: 'user',
+        content: `Topic: "${topic}"\n\n=== ${part.title.toUpperCase()} ===\n\n${this.renderHistory(entries)}Summarize this part of the debate in at most 300 words.`
+      }
+    ];
+
+    try {
+      return await withRetry(async () => {
+        const response = await this.client.chatCompletion({
+          model: this.model,
+          messages,
+          temperature: 0.3,
+          max_tokens: PARTIAL_SUMMARY_MAX_TOKENS
+        }, { role: 'summarizer', roundNumber: part.roundNumber, participantId: part.participantId, signal });
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+          throw new MalformedResponseError('No response content from summarizer');
+        }
+        return content.trim();
+      }, this.retryPolicy, signal);
     } catch (error) {
-      // Fallback synthesis if synthesizer fails
-      return this.createFallbackSynthesis(topic, rounds, error);
+      if (signal?.aborted) {
+        throw error;
+      }
+      return formatExtract(extractKeySentences(part.rounds, PARTIAL_FALLBACK_SENTENCES));
     }
   }
 
   /**
-   * Builds the prompt for synthesis with complete debate history
+   * Builds the prompt for synthesis from the rendered debate history
+   * @param structured - Ask for the JSON object of synthesizeStructured instead of prose
    */
-  private buildSynthesisPrompt(topic: string, rounds: DebateRound[]): string {
+  private buildSynthesisPrompt(topic: string, history: string, structured: boolean): string {
     let prompt = `Topic: "${topic}"\n\n`;
     prompt += `Please synthesize a comprehensive final answer based on the following debate between multiple AI agents.\n\n`;
     prompt += `=== DEBATE HISTORY ===\n\n`;
+    prompt += history;
+
+    prompt += `=== SYNTHESIS INSTRUCTIONS ===\n\n`;
+    prompt += `Your task is to create a neutral summary that:\n`;
+    prompt += `1. ONLY presents the viewpoints and arguments made by the participating agents\n`;
+    prompt += `2. Organizes these viewpoints in a clear, structured manner\n`;
+    prompt += `3. Identifies areas where agents agreed or disagreed\n`;
+    prompt += `4. Does NOT add your own opinions, interpretations, or additional analysis\n`;
+    prompt += `5. Does NOT make judgments about which arguments are better\n`;
+    prompt += `6. Simply consolidates what the agents said without editorial commentary\n`;
+    prompt += `7. Cites the reference id of the response(s) each point comes from in square brackets, e.g. [R2-gpt-5] or [R1-deepseek, R2-gpt-5]; only ids shown above may be cited\n\n`;
+    prompt += `IMPORTANT: Do not inject your own perspective. Only summarize what the agents expressed.\n\n`;
+    prompt += structured
+      ? `Respond with the JSON object of your neutral synthesis of the agents' viewpoints:`
+      : `Please provide your neutral synthesis of the agents' viewpoints:`;
+
+    return prompt;
+  }
+
+  /**
+   * Renders rounds and user interventions with every response under its reference id
+   */
+  private renderHistory(entries: ContextEntry[]): string {
+    let history = '';
 
     // Include all rounds with agent responses
-    rounds.forEach(round => {
-      prompt += `--- Round ${round.roundNumber} ---\n`;
+    entries.forEach(entry => {
+      if (entry.type === 'intervention') {
+        history += `--- User Intervention ---\n${entry.intervention.content}\n\n`;
+        return;
+      }
+      const { round, digest } = entry;
+      if (digest !== undefined) {
+        history += `--- Round ${round.roundNumber} (summary) ---\n${digest}\n\n`;
+        return;
+      }
+      history += `--- Round ${round.roundNumber} ---\n`;
       round.responses.forEach(response => {
+        const speaker = `[${responseRef(round.roundNumber, response)}] ${speakerName(response)}`;
         if (!response.error) {
-          prompt += `${response.model}:\n${response.content}\n\n`;
+          history += `${speaker}:\n${response.content}\n\n`;
         } else {
-          prompt += `${response.model}: [Error: ${response.error}]\n\n`;
+          history += `${speaker}: [Error: ${response.error}]\n\n`;
         }
       });
       
       // Include convergence assessment if available
       if (round.convergenceCheck) {
-        prompt += `Moderator Assessment: ${round.convergenceCheck.reasoning}\n`;
-        prompt += `Convergence Score: ${round.convergenceCheck.confidenceScore}\n\n`;
+        history += `Moderator Assessment: ${round.convergenceCheck.reasoning}\n`;
+        history += `Convergence Score: ${round.convergenceCheck.confidenceScore}\n\n`;
       }
     });
 
-    prompt += `=== SYNTHESIS INSTRUCTIONS ===\n\n`;
-    prompt += `Your task is to create a neutral summary that:\n`;
-    prompt += `1. ONLY presents the viewpoints and arguments made by the participating agents\n`;
-    prompt += `2. Organizes these viewpoints in a clear, structured manner\n`;
-    prompt += `3. Identifies areas where agents agreed or disagreed\n`;
-    prompt += `4. Does NOT add your own opinions, interpretations, or additional analysis\n`;
-    prompt += `5. Does NOT make judgments about which arguments are better\n`;
-    prompt += `6. Simply consolidates what the agents said without editorial commentary\n\n`;
-    prompt += `IMPORTANT: Do not inject your own perspective. Only summarize what the agents expressed.\n\n`;
-    prompt += `Please provide your neutral synthesis of the agents' viewpoints:`;
-
-    return prompt;
+    return history;
   }
 
   /**
-   * Creates a fallback synthesis when the main synthesis fails
+   * Creates an extractive synthesis offline when the synthesizer fails: each participant's final position
+   * and the most central points of the debate, cited like the synthesizer would
    */
   private createFallbackSynthesis(topic: string, rounds: DebateRound[], error: unknown): string {
     let fallback = `Final Answer for: "${topic}"\n\n`;
-    fallback += `[Note: Automated synthesis failed, providing structured summary]\n\n`;
-    
-    // Extract key points from each agent
-    const agentContributions = new Map<string, string[]>();
-    
-    rounds.forEach(round => {
-      round.responses.forEach(response => {
-        if (!response.error && response.content.trim()) {
-          if (!agentContributions.has(response.model)) {
-            agentContributions.set(response.model, []);
-          }
-          // Take first 200 characters as key point
-          const keyPoint = response.content.trim().substring(0, 200) + (response.content.length > 200 ? '...' : '');
-          agentContributions.get(response.model)!.push(keyPoint);
+    fallback += `[Note: Automated synthesis failed, providing an extractive summary]\n\n`;
+
+    // The latest successful response of each participant holds its final position
+    const finalRefs = new Map<string, string>();
+    rounds.forEach(round => round.responses.forEach(response => {
+      if (!response.error && response.content.trim()) {
+        finalRefs.set(response.participantId ?? response.model, responseRef(round.roundNumber, response));
+      }
+    }));
+
+    if (finalRefs.size > 0) {
+      fallback += `Final Positions:\n\n`;
+      finalRefs.forEach(ref => {
+        const sentences = extractKeySentences(rounds, FALLBACK_POSITION_SENTENCES, candidate => candidate === ref);
+        if (sentences.length > 0) {
+          fallback += `${sentences[0].speaker}: ${sentences.map(sentence => sentence.text).join(' ')} [${ref}]\n`;
         }
       });
-    });
 
-    fallback += `Key Perspectives:\n\n`;
-    agentContributions.forEach((contributions, model) => {
-      fallback += `${model}:\n`;
-      contributions.forEach((contribution, index) => {
-        fallback += `- ${contribution}\n`;
-        if (index === 0) return; // Only show first contribution per agent in fallback
-      });
-      fallback += `\n`;
-    });
+      fallback += `\nKey Points:\n\n${formatExtract(extractKeySentences(rounds, FALLBACK_KEY_POINTS))}\n`;
+    }
 
     fallback += `\nSynthesis Error: ${error instanceof Error ? error.message : 'Unknown error occurred during synthesis'}`;
     
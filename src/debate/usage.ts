@@ -0,0 +1,160 @@
+/**
+ * Token usage and cost accounting
+ * Records every chat completion made during a debate and checks it against the configured budget
+ */
+
+import { readFileSync } from 'fs';
+import { parseModelId } from './providers';
+import {
+  type CallRole,
+  type ChatCallOptions,
+  type ChatProvider,
+  type ChatRequest,
+  type ChatResponse
+} from './client';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Keyed by model identifier as used in DebateConfig (with or without provider prefix)
+export type PriceTable = Record<string, ModelPricing>;
+
+export interface DebateBudget {
+  maxTokens?: number;         // Total tokens across all calls
+  maxCost?: number;           // Total cost in USD, computed from the price table
+}
+
+export interface UsageRecord {
+  model: string;
+  role: CallRole;
+  roundNumber?: number;       // Not set for synthesis
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byModel: Record<string, UsageTotals>;
+  byRole: Partial<Record<CallRole, UsageTotals>>;
+  byRound: Record<number, UsageTotals>;
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 });
+
+function addTo(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.cost += record.cost;
+}
+
+/**
+ * Reads a price table from a JSON file mapping model identifiers to ModelPricing
+ */
+export function loadPriceTable(filePath: string): PriceTable {
+  return JSON.parse(readFileSync(filePath, 'utf-8')) as PriceTable;
+}
+
+/**
+ * Looks up the price of a model, falling back to its unprefixed name
+ */
+export function findPricing(model: string, pricing: PriceTable = {}): ModelPricing | undefined {
+  return pricing[model] ?? pricing[parseModelId(model).model];
+}
+
+/**
+ * Computes the USD cost of a call; models without a price cost nothing
+ */
+export function calculateCost(model: string, usage: ChatResponse['usage'], pricing: PriceTable = {}): number {
+  const price = findPricing(model, pricing);
+  if (!price) {
+    return 0;
+  }
+  return (usage.prompt_tokens * price.inputPerMillion + usage.completion_tokens * price.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * Aggregates usage records into totals broken down by model, role and round
+ */
+export function summarizeUsage(records: UsageRecord[] = []): UsageSummary {
+  const summary: UsageSummary = { ...emptyTotals(), byModel: {}, byRole: {}, byRound: {} };
+
+  for (const record of records) {
+    addTo(summary, record);
+    addTo(summary.byModel[record.model] ??= emptyTotals(), record);
+    addTo(summary.byRole[record.role] ??= emptyTotals(), record);
+    if (record.roundNumber !== undefined) {
+      addTo(summary.byRound[record.roundNumber] ??= emptyTotals(), record);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Checks whether the usage so far has reached any limit of the budget
+ */
+export function isBudgetExhausted(summary: UsageTotals, budget?: DebateBudget): boolean {
+  if (!budget) {
+    return false;
+  }
+  if (budget.maxTokens !== undefined && summary.totalTokens >= budget.maxTokens) {
+    return true;
+  }
+  if (budget.maxCost !== undefined && summary.cost >= budget.maxCost) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Wraps a provider and reports the usage of every successful call
+ */
+export class UsageTrackingProvider implements ChatProvider {
+  private readonly inner: ChatProvider;
+  private readonly onUsage: (record: UsageRecord) => void;
+  private readonly pricing: PriceTable;
+
+  constructor(inner: ChatProvider, onUsage: (record: UsageRecord) => void, pricing: PriceTable = {}) {
+    this.inner = inner;
+    this.onUsage = onUsage;
+    this.pricing = pricing;
+  }
+
+  async chatCompletion(request: ChatRequest, options: ChatCallOptions = {}): Promise<ChatResponse> {
+    const response = await this.inner.chatCompletion(request, options);
+
+    if (response.usage) {
+      this.onUsage({
+        model: request.model,
+        role: options.role || 'agent',
+        roundNumber: options.roundNumber,
+        promptTokens: response.usage.prompt_tokens || 0,
+        completionTokens: response.usage.completion_tokens || 0,
+        totalTokens: response.usage.total_tokens || 0,
+        cost: calculateCost(request.model, response.usage, this.pricing)
+      });
+    }
+
+    return response;
+  }
+
+  getProviderNames(): string[] | undefined {
+    return this.inner.getProviderNames?.();
+  }
+}
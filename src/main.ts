@@ -6,12 +6,33 @@
  * Requirements: All
  */
 
+import * as readline from 'readline';
 import { 
-  AIBuilderClient, 
   DebateOrchestrator, 
+  ProviderRegistry,
+  RecordingClient,
+  ReplayClient,
+  ScriptedMockProvider,
+  loadPriceTable,
+  loadParticipants,
+  summarizeUsage,
+  DebateCancelledError,
+  createSessionStore,
+  isInterrupted,
+  hasLiveLease,
+  LEASE_TTL_MS,
+  type SessionStore,
+  type ChatProvider,
+  type DebateSession,
+  type ParticipantConfig,
   createDefaultConfig, 
+  createProviderRegistryFromEnv,
   formatDebateHistory,
-  AVAILABLE_MODELS 
+  describeRatification,
+  speakerName,
+  ModelCatalog,
+  DEFAULT_PROVIDER,
+  parseModelId
 } from './debate';
 
 /**
@@ -20,10 +41,37 @@ import {
 interface CLIConfig {
   topic?: string;
   models?: string[];
+  participants?: string;
   maxRounds?: number;
+  turnOrder?: string;
+  manual?: boolean;
+  context?: string;
+  contextRounds?: number;
+  summarizerModel?: string;
   convergenceThreshold?: number;
+  convergencePolicy?: string;
+  llmWeight?: number;
   moderatorModel?: string;
+  moderatorSteering?: boolean;
+  moderatorModels?: string[];
+  judgeAggregation?: string;
   synthesizerModel?: string;
+  structuredSynthesis?: boolean;
+  synthesisStrategy?: string;
+  ratification?: boolean;
+  record?: string;
+  replay?: string;
+  mock?: string;
+  sessionStore?: string;
+  resume?: string;
+  listSessions?: boolean;
+  show?: string;
+  maxTokens?: number;
+  maxCost?: number;
+  pricing?: string;
+  callTimeout?: number;
+  debateTimeout?: number;
+  maxAttempts?: number;
   help?: boolean;
 }
 
@@ -50,6 +98,9 @@ function parseArguments(): CLIConfig {
       case '-m':
         config.models = args[++i]?.split(',').map(m => m.trim());
         break;
+      case '--participants':
+        config.participants = args[++i];
+        break;
       case '--max-rounds':
       case '-r':
         config.maxRounds = parseInt(args[++i]);
@@ -64,6 +115,84 @@ function parseArguments(): CLIConfig {
       case '--synthesizer-model':
         config.synthesizerModel = args[++i];
         break;
+      case '--record':
+        config.record = args[++i];
+        break;
+      case '--replay':
+        config.replay = args[++i];
+        break;
+      case '--mock':
+        config.mock = args[++i];
+        break;
+      case '--session-store':
+        config.sessionStore = args[++i];
+        break;
+      case '--resume':
+        config.resume = args[++i];
+        break;
+      case '--list-sessions':
+        config.listSessions = true;
+        break;
+      case '--show':
+        config.show = args[++i];
+        break;
+      case '--max-tokens':
+        config.maxTokens = parseInt(args[++i]);
+        break;
+      case '--max-cost':
+        config.maxCost = parseFloat(args[++i]);
+        break;
+      case '--pricing':
+        config.pricing = args[++i];
+        break;
+      case '--call-timeout':
+        config.callTimeout = parseInt(args[++i]);
+        break;
+      case '--debate-timeout':
+        config.debateTimeout = parseInt(args[++i]);
+        break;
+      case '--max-attempts':
+        config.maxAttempts = parseInt(args[++i]);
+        break;
+      case '--turn-order':
+        config.turnOrder = args[++i];
+        break;
+      case '--manual':
+        config.manual = true;
+        break;
+      case '--context':
+        config.context = args[++i];
+        break;
+      case '--context-rounds':
+        config.contextRounds = parseInt(args[++i]);
+        break;
+      case '--summarizer-model':
+        config.summarizerModel = args[++i];
+        break;
+      case '--convergence-policy':
+        config.convergencePolicy = args[++i];
+        break;
+      case '--llm-weight':
+        config.llmWeight = parseFloat(args[++i]);
+        break;
+      case '--moderator-models':
+        config.moderatorModels = args[++i].split(',').map(m => m.trim());
+        break;
+      case '--judge-aggregation':
+        config.judgeAggregation = args[++i];
+        break;
+      case '--moderator-steering':
+        config.moderatorSteering = true;
+        break;
+      case '--structured-synthesis':
+        config.structuredSynthesis = true;
+        break;
+      case '--synthesis-strategy':
+        config.synthesisStrategy = args[++i];
+        break;
+      case '--ratification':
+        config.ratification = true;
+        break;
       default:
         // If no flag is provided, treat as topic
         if (!arg.startsWith('-') && !config.topic) {
@@ -76,10 +205,24 @@ function parseArguments(): CLIConfig {
   return config;
 }
 
+/**
+ * Lists the catalog's models, one line per provider
+ */
+function formatModelList(catalog: ModelCatalog): string {
+  const byProvider = new Map<string, string[]>();
+  for (const model of catalog.list()) {
+    byProvider.set(model.provider, [...(byProvider.get(model.provider) || []), parseModelId(model.id).model]);
+  }
+
+  return Array.from(byProvider, ([provider, models]) =>
+    provider === DEFAULT_PROVIDER ? `  ${models.join(', ')}` : `  ${provider}: ${models.join(', ')}`
+  ).join('\n');
+}
+
 /**
  * Display help information
  */
-function displayHelp(): void {
+function displayHelp(catalog: ModelCatalog): void {
   console.log(`
 Multi-Model Debate System
 
@@ -90,37 +233,74 @@ USAGE:
 OPTIONS:
   -t, --topic <topic>                    Debate topic (required)
   -m, --models <model1,model2,...>       Comma-separated list of models (default: deepseek,supermind-agent-v1)
+  --participants <file>                  JSON array of participants with name, model, persona and sampling settings
   -r, --max-rounds <number>              Maximum number of rounds (default: 5)
+  --turn-order <mode>                    parallel, sequential or round_robin_rotating (default: parallel)
+  --manual                               Pause after every round and ask before running the next one
+  --context <mode>                       Earlier rounds in prompts: full, last_n or rolling_summary (default: full)
+  --context-rounds <number>              Rounds kept verbatim by last_n and rolling_summary (default: 2)
+  --summarizer-model <model>             Model writing round digests for rolling_summary (default: synthesizer model)
   -c, --convergence-threshold <number>   Convergence threshold 0-1 (default: 0.8)
+  --convergence-policy <mode>            Who decides convergence: llm, metrics (local, no API call) or weighted (default: llm)
+  --llm-weight <number>                  Share of the moderator in the weighted policy 0-1 (default: 0.5)
   --moderator-model <model>              Model for moderation (default: deepseek)
+  --moderator-models <model1,model2,...> Panel of judges evaluating convergence in parallel (overrides --moderator-model)
+  --judge-aggregation <rule>             How the judges' verdicts are combined: majority, unanimous or mean_confidence (default: majority)
+  --moderator-steering                   Moderator asks focused questions for the next round after each round
   --synthesizer-model <model>            Model for synthesis (default: deepseek)
+  --structured-synthesis                 Synthesize consensus, disagreements, minority positions and next steps as JSON
+  --synthesis-strategy <strategy>        auto, single, by_round or by_participant (summarize parts first for long debates) (default: auto)
+  --ratification                         Let the agents approve or object to the final answer, which is revised once if needed
+  --record <file>                        Record every API call to a cassette file
+  --replay <file>                        Replay a recorded cassette without network access
+  --mock <script>                        Use the scripted mock provider (see examples/mock-script.json)
+  --session-store <store>                Save the debate after every step to file:<dir> or sqlite:<file> (shareable with the server)
+  --resume <session-id>                  Continue an interrupted or paused debate from --session-store (flags override its settings)
+  --list-sessions                        List the sessions in --session-store, most recently updated first
+  --show <session-id>                    Print the history of a session in --session-store
+  --max-tokens <number>                  Stop the debate once this many tokens were used
+  --max-cost <usd>                       Stop the debate once this cost was reached (needs --pricing)
+  --pricing <file>                       JSON price table: { "<model>": { "inputPerMillion": n, "outputPerMillion": n } }
+  --call-timeout <ms>                    Abort any single API call that takes longer
+  --debate-timeout <ms>                  Cancel the whole debate after this long (Ctrl+C also cancels)
+  --max-attempts <number>                Attempts per call on rate limits, server errors and timeouts (default: 3)
   -h, --help                             Show this help message
 
 AVAILABLE MODELS:
-  ${AVAILABLE_MODELS.join(', ')}
+${formatModelList(catalog)}
+  Models from other providers use a prefix: openai:<model>, anthropic:<model>, ollama:<model>
 
 EXAMPLES:
   npm run dev "What is the best programming language?"
   npm run dev --topic "Climate change solutions" --models "deepseek,gemini-2.5-pro,gpt-5"
   npm run dev -t "AI ethics" -m "deepseek,supermind-agent-v1" -r 3 -c 0.7
+  npm run dev -t "Tabs or spaces?" -m "deepseek,ollama:llama3"
+  npm run dev -t "AI ethics" --record debates/ai-ethics.json
+  npm run dev -t "AI ethics" --replay debates/ai-ethics.json
+  npm run dev -t "Offline demo" --mock examples/mock-script.json
 
 ENVIRONMENT:
-  AI_BUILDER_TOKEN    Required: Your AI Builder API token
+  AI_BUILDER_TOKEN    Your AI Builder API token (required for unprefixed models)
+  OPENAI_API_KEY      Enables the "openai" provider (OPENAI_BASE_URL for other compatible endpoints)
+  ANTHROPIC_API_KEY   Enables the "anthropic" provider
+  OLLAMA_BASE_URL     Local Ollama/llama.cpp server (default: http://localhost:11434/v1)
 `);
 }
 
 /**
- * Validate environment and configuration
+ * Validate environment and build the provider registry
  */
-function validateEnvironment(): string {
-  const token = process.env.AI_BUILDER_TOKEN;
-  if (!token) {
+function validateEnvironment(models: string[]): ProviderRegistry {
+  const providers = createProviderRegistryFromEnv();
+  const needsDefaultProvider = models.some(model => !model.includes(':'));
+  if (needsDefaultProvider && !providers.has(DEFAULT_PROVIDER)) {
     console.error('Error: AI_BUILDER_TOKEN environment variable is required');
     console.error('Please set your AI Builder API token:');
     console.error('  export AI_BUILDER_TOKEN="your-token-here"');
+    console.error('Or use provider-prefixed models only (e.g. ollama:llama3)');
     process.exit(1);
   }
-  return token;
+  return providers;
 }
 
 /**
@@ -138,6 +318,35 @@ function createDebateConfig(cliConfig: CLIConfig): any {
   return createDefaultConfig(topic, models);
 }
 
+/**
+ * Asks on the terminal whether a paused debate should run its next round
+ * @param answers - Lines read from stdin
+ * @param signal - Cancelling the debate (Ctrl+C) stops waiting for an answer
+ * @returns false if the user asked for the final answer instead, input ended or the debate was cancelled
+ */
+async function askForNextRound(answers: AsyncIterator<string>, completedRounds: number, signal: AbortSignal): Promise<boolean> {
+  process.stdout.write(`\n⏸️  Round ${completedRounds} done. Press Enter to run the next round, or type "s" to synthesize now: `);
+  const cancelled = new Promise<IteratorResult<string>>(resolve =>
+    signal.addEventListener('abort', () => resolve({ done: true, value: undefined }), { once: true }));
+  const { done, value } = await Promise.race([answers.next(), cancelled]);
+  return !done && !value.trim().toLowerCase().startsWith('s');
+}
+
+/**
+ * Prints the sessions of a store, most recently updated first
+ */
+function listSessions(store: SessionStore): void {
+  const sessions = store.list();
+  if (sessions.length === 0) {
+    console.log('No sessions stored');
+    return;
+  }
+  for (const session of sessions) {
+    const updated = session.updatedAt?.toISOString() ?? '-';
+    console.log(`${session.id}  ${session.status.padEnd(18)} ${String(session.rounds.length).padStart(2)} rounds  ${updated}  ${session.config.topic}`);
+  }
+}
+
 /**
  * Main execution function
  */
@@ -148,45 +357,196 @@ async function main(): Promise<void> {
 
     // Show help if requested
     if (cliConfig.help) {
-      displayHelp();
+      // List what the configured providers actually serve, falling back to the built-in list
+      const catalog = new ModelCatalog();
+      await catalog.refresh(createProviderRegistryFromEnv(), 3000);
+      displayHelp(catalog);
       return;
     }
 
-    // Validate environment
-    const token = validateEnvironment();
+    const store = cliConfig.sessionStore ? createSessionStore(cliConfig.sessionStore) : undefined;
+    if ((cliConfig.resume || cliConfig.listSessions || cliConfig.show) && !store) {
+      throw new Error('--resume, --list-sessions and --show need --session-store');
+    }
+    if (store && cliConfig.listSessions) {
+      listSessions(store);
+      return;
+    }
+    if (store && cliConfig.show) {
+      const shown = store.get(cliConfig.show);
+      if (!shown) {
+        throw new Error(`No session ${cliConfig.show} in ${cliConfig.sessionStore}`);
+      }
+      console.log(formatDebateHistory({
+        session: shown,
+        finalAnswer: shown.finalAnswer ?? '',
+        synthesis: shown.synthesis,
+        totalRounds: shown.rounds.length,
+        convergenceAchieved: shown.rounds.some(round => round.convergenceCheck?.isConverged)
+      }));
+      return;
+    }
+
+    // An interrupted debate is continued with the configuration it was checkpointed with
+    const resumed = cliConfig.resume ? store?.get(cliConfig.resume) : undefined;
+    if (cliConfig.resume && !resumed) {
+      throw new Error(`No session ${cliConfig.resume} in ${cliConfig.sessionStore}`);
+    }
+    if (resumed && !isInterrupted(resumed) && resumed.status !== 'paused') {
+      throw new Error(`Session ${resumed.id} has already finished (status: ${resumed.status})`);
+    }
+    if (resumed?.lease && hasLiveLease(resumed)) {
+      throw new Error(`Session ${resumed.id} is running in another process (${resumed.lease.owner}); `
+        + `if that process stopped, try again in ${LEASE_TTL_MS / 1000}s`);
+    }
 
     // Create debate configuration
-    const config = createDebateConfig(cliConfig);
+    const config = resumed?.config ?? createDebateConfig(cliConfig);
     
     // Override defaults with CLI values if provided
+    if (cliConfig.participants) {
+      config.participants = loadParticipants(cliConfig.participants);
+      config.models = config.participants.map((p: ParticipantConfig) => p.model);
+    }
     if (cliConfig.maxRounds !== undefined) config.maxRounds = cliConfig.maxRounds;
+    if (cliConfig.turnOrder) config.turnOrder = cliConfig.turnOrder;
+    if (cliConfig.manual) config.runMode = 'manual';
+    if (cliConfig.context || cliConfig.contextRounds !== undefined || cliConfig.summarizerModel) {
+      config.contextStrategy = {
+        mode: cliConfig.context || 'full',
+        rounds: cliConfig.contextRounds,
+        summarizerModel: cliConfig.summarizerModel
+      };
+    }
     if (cliConfig.convergenceThreshold !== undefined) config.convergenceThreshold = cliConfig.convergenceThreshold;
+    if (cliConfig.convergencePolicy || cliConfig.llmWeight !== undefined) {
+      config.convergencePolicy = {
+        mode: cliConfig.convergencePolicy || 'weighted',
+        llmWeight: cliConfig.llmWeight
+      };
+    }
     if (cliConfig.moderatorModel) config.moderatorModel = cliConfig.moderatorModel;
+    if (cliConfig.moderatorSteering) config.moderatorSteering = true;
+    if (cliConfig.moderatorModels) config.moderatorModels = cliConfig.moderatorModels;
+    if (cliConfig.judgeAggregation) config.judgeAggregation = cliConfig.judgeAggregation;
     if (cliConfig.synthesizerModel) config.synthesizerModel = cliConfig.synthesizerModel;
+    if (cliConfig.structuredSynthesis) config.structuredSynthesis = true;
+    if (cliConfig.synthesisStrategy) config.synthesisStrategy = cliConfig.synthesisStrategy;
+    if (cliConfig.ratification) config.ratification = true;
+    if (cliConfig.maxTokens !== undefined || cliConfig.maxCost !== undefined) {
+      config.budget = { maxTokens: cliConfig.maxTokens, maxCost: cliConfig.maxCost };
+    }
+    if (cliConfig.pricing) config.pricing = loadPriceTable(cliConfig.pricing);
+    if (cliConfig.callTimeout !== undefined) config.callTimeoutMs = cliConfig.callTimeout;
+    if (cliConfig.debateTimeout !== undefined) config.debateTimeoutMs = cliConfig.debateTimeout;
+    if (cliConfig.maxAttempts !== undefined) config.retryPolicy = { maxAttempts: cliConfig.maxAttempts };
+
+    if (cliConfig.replay && (cliConfig.record || cliConfig.mock)) {
+      throw new Error('--replay cannot be combined with --record or --mock');
+    }
+
+    // Replays and mock scripts need no credentials; everything else goes through the configured providers
+    let client: ChatProvider;
+    if (cliConfig.replay) {
+      client = new ReplayClient(cliConfig.replay);
+    } else if (cliConfig.mock) {
+      const mock = new ScriptedMockProvider(cliConfig.mock);
+      client = cliConfig.record ? new RecordingClient(mock, cliConfig.record) : mock;
+    } else {
+      const providers = validateEnvironment([
+        ...config.models,
+        ...(config.moderatorModels || [config.moderatorModel]),
+        config.synthesizerModel,
+        ...(config.contextStrategy?.summarizerModel ? [config.contextStrategy.summarizerModel] : [])
+      ]);
+      client = cliConfig.record ? new RecordingClient(providers, cliConfig.record) : providers;
+    }
 
     console.log('🚀 Starting Multi-Model Debate System...\n');
     console.log(`Topic: ${config.topic}`);
     console.log(`Models: ${config.models.join(', ')}`);
+    if (config.participants) {
+      console.log(`Participants: ${config.participants.map((p: ParticipantConfig) => p.name).join(', ')}`);
+    }
     console.log(`Max Rounds: ${config.maxRounds}`);
+    if (config.turnOrder) console.log(`Turn Order: ${config.turnOrder}`);
+    if (config.runMode === 'manual') console.log('Run Mode: manual (approve every round)');
+    if (config.contextStrategy) console.log(`Context: ${config.contextStrategy.mode}`);
     console.log(`Convergence Threshold: ${config.convergenceThreshold}`);
-    console.log(`Moderator: ${config.moderatorModel}`);
-    console.log(`Synthesizer: ${config.synthesizerModel}\n`);
+    if (config.convergencePolicy) console.log(`Convergence Policy: ${config.convergencePolicy.mode}`);
+    const judges = config.moderatorModels
+      ? `${config.moderatorModels.join(', ')} (${config.judgeAggregation || 'majority'})`
+      : config.moderatorModel;
+    console.log(`Moderator: ${judges}${config.moderatorSteering ? ' (steering)' : ''}`);
+    console.log(`Synthesizer: ${config.synthesizerModel}${config.structuredSynthesis ? ' (structured)' : ''}${config.ratification ? ' (ratified)' : ''}`);
+    if (cliConfig.record) console.log(`Recording to: ${cliConfig.record}`);
+    if (cliConfig.replay) console.log(`Replaying from: ${cliConfig.replay}`);
+    if (cliConfig.mock) console.log(`Mock script: ${cliConfig.mock}`);
+    console.log('');
 
-    // Initialize client and orchestrator
-    const client = new AIBuilderClient(token);
-    const orchestrator = new DebateOrchestrator(client);
+    // Initialize orchestrator with the models the providers currently serve
+    const catalog = new ModelCatalog();
+    await catalog.refresh(client);
+    const orchestrator = new DebateOrchestrator(client, catalog, undefined, store);
 
     // Create and run debate session
-    console.log('📝 Creating debate session...');
-    const session = orchestrator.createSession(config);
-    console.log(`✅ Session created with ID: ${session.id}\n`);
+    let session: DebateSession;
+    if (resumed) {
+      session = resumed;
+      console.log(`♻️  Resuming session ${session.id} after round ${session.rounds.length}\n`);
+    } else {
+      const interrupted = orchestrator.findInterruptedSessions();
+      if (interrupted.length > 0) {
+        console.log(`💾 Interrupted debates in ${cliConfig.sessionStore} (continue one with --resume <id>):`);
+        interrupted.forEach(earlier => console.log(`   ${earlier.id}  ${earlier.config.topic} (${earlier.rounds.length} rounds)`));
+        console.log('');
+      }
+      console.log('📝 Creating debate session...');
+      session = orchestrator.createSession(config);
+      console.log(`✅ Session created with ID: ${session.id}\n`);
+    }
+
+    // First Ctrl+C cancels the debate gracefully, a second one exits immediately
+    const abortController = new AbortController();
+    const onInterrupt = () => {
+      if (abortController.signal.aborted) {
+        process.exit(130);
+      }
+      console.log('\n🛑 Cancelling debate...');
+      abortController.abort(new DebateCancelledError('Debate cancelled by user'));
+    };
+    process.on('SIGINT', onInterrupt);
+
+    // Progress while the debate runs; the full history is printed at the end
+    orchestrator.events.on('round_started', event => console.log(`\n🔄 Round ${event.roundNumber}`));
+    orchestrator.events.on('agent_retry', event =>
+      console.log(`   ↻ ${event.participantName}: attempt ${event.attempt} failed (${event.error}), retrying in ${(event.delayMs / 1000).toFixed(1)}s`));
+    orchestrator.events.on('agent_response', event => console.log(`   ✓ ${speakerName(event.response)} responded`));
+    orchestrator.events.on('agent_failed', event => console.log(`   ✗ ${speakerName(event.response)}: ${event.response.error}`));
+    orchestrator.events.on('convergence_evaluated', event =>
+      console.log(`   ⚖️  ${event.assessment.isConverged ? 'Converged' : 'Not converged'} (confidence ${event.assessment.confidenceScore.toFixed(2)})`));
+    orchestrator.events.on('synthesis_started', () => console.log('\n🧩 Synthesizing final answer...'));
 
     console.log('🎯 Running debate...');
-    const result = await orchestrator.runDebate(session);
+    let result = await orchestrator.runDebate(session, abortController.signal);
+    // In manual mode every round waits for approval; declining it ends the debate with the rounds so far
+    if (result.session.status === 'paused') {
+      // Not a terminal interface, so that Ctrl+C still reaches onInterrupt
+      const input = readline.createInterface({ input: process.stdin, terminal: false });
+      const answers = input[Symbol.asyncIterator]();
+      while (result.session.status === 'paused') {
+        if (!await askForNextRound(answers, result.totalRounds, abortController.signal)) {
+          session.config.maxRounds = session.rounds.length;
+        }
+        result = await orchestrator.resume(session, abortController.signal);
+      }
+      input.close();
+    }
+    process.off('SIGINT', onInterrupt);
 
     // Display results
     console.log('\n' + '='.repeat(80));
-    console.log('🎉 DEBATE COMPLETED');
+    console.log(result.session.status === 'cancelled' ? '🛑 DEBATE CANCELLED' : '🎉 DEBATE COMPLETED');
     console.log('='.repeat(80));
     console.log(formatDebateHistory(result));
 
@@ -194,10 +554,22 @@ async function main(): Promise<void> {
     console.log('\n' + '='.repeat(80));
     console.log('📊 SUMMARY');
     console.log('='.repeat(80));
-    console.log(`✅ Debate completed successfully`);
+    if (result.session.status === 'cancelled') {
+      console.log(`🛑 Debate cancelled: ${result.session.cancellationReason}`);
+    } else {
+      console.log(`✅ Debate completed successfully`);
+    }
     console.log(`📈 Total rounds: ${result.totalRounds}`);
     console.log(`🎯 Convergence achieved: ${result.convergenceAchieved ? 'Yes' : 'No'}`);
     console.log(`🤖 Models participated: ${config.models.length}`);
+    const usage = summarizeUsage(result.session.usage);
+    console.log(`🪙 Tokens used: ${usage.totalTokens} (${usage.calls} calls, $${usage.cost.toFixed(4)})`);
+    if (result.session.ratification) {
+      console.log(`🗳️  ${describeRatification(result.session.ratification)}${result.session.ratification.originalAnswer !== undefined ? ' (answer revised)' : ''}`);
+    }
+    if (result.session.status === 'budget_exhausted') {
+      console.log('⚠️  Debate stopped early: budget exhausted');
+    }
 
   } catch (error) {
     console.error('\n❌ Error running debate:');
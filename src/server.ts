@@ -3,11 +3,20 @@ import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import path from 'path';
-import { AIBuilderClient } from './debate/client';
-import { DebateOrchestrator } from './debate/orchestrator';
-import { createDefaultConfig } from './debate/config';
-import { AVAILABLE_MODELS } from './debate';
-import { DebateSession } from './debate/session';
+import { createProviderRegistryFromEnv } from './debate/providers';
+import { ChatProvider } from './debate/client';
+import { RecordingClient, ReplayClient } from './debate/cassette';
+import { ScriptedMockProvider } from './debate/mock-provider';
+import { loadPriceTable, summarizeUsage, PriceTable } from './debate/usage';
+import { DebateOrchestrator, DEFAULT_CONTINUATION_ROUNDS, type DebateResult } from './debate/orchestrator';
+import { createDefaultConfig, ParticipantConfig } from './debate/config';
+import { ModelCatalog } from './debate/model-catalog';
+import { DebateSession, DebateStatus } from './debate/session';
+import { type DebateEvent } from './debate/events';
+import { describeRatification, tallyRatification } from './debate/ratification';
+import { DebateCancelledError } from './debate/errors';
+import { createSessionStore } from './debate/session-store';
+import { hasLiveLease, LEASE_OWNER, LEASE_TTL_MS } from './debate/checkpoint';
 
 const app = express();
 const PORT = parseInt(process.env.PORT || '3000', 10);
@@ -15,20 +24,56 @@ const PORT = parseInt(process.env.PORT || '3000', 10);
 app.use(cors());
 app.use(express.json());
 
-// Store active sessions in memory (for simplicity)
-// In a real app, this should be in a database or Redis
+// LLM providers configured from environment (AI_BUILDER_TOKEN, OPENAI_API_KEY, ANTHROPIC_API_KEY, OLLAMA_BASE_URL)
+// `--record <file>` records every call to a cassette, `--replay <file>` serves debates from one offline,
+// `--mock <script>` runs every debate against the scripted mock provider
+const providers = createChatProvider(process.argv.slice(2));
+
+// Models served by the configured providers, fetched at startup and refreshed hourly on demand
+const MODEL_CATALOG_MAX_AGE_MS = 60 * 60 * 1000;
+const modelCatalog = new ModelCatalog();
+refreshModelCatalog();
+
+// Optional per-model price table for cost accounting
+const pricing: PriceTable | undefined = process.env.PRICING_FILE ? loadPriceTable(process.env.PRICING_FILE) : undefined;
+
+// Where sessions are kept: SESSION_STORE=memory (default), file:<directory> or sqlite:<database file>.
+// Running debates are checkpointed there, so a restart continues them, and the CLI can share the store
+// with --session-store. Sessions not updated for SESSION_TTL_HOURS (default: a week, 0 keeps them) are
+// deleted, as are all but the SESSION_MAX_COUNT most recent ones if set.
+const SESSION_TTL_HOURS = parseFloat(process.env.SESSION_TTL_HOURS || '168');
+const SESSION_MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000;
+const store = createSessionStore(process.env.SESSION_STORE || 'memory', {
+    ttlMs: SESSION_TTL_HOURS > 0 ? SESSION_TTL_HOURS * 60 * 60 * 1000 : undefined,
+    maxSessions: process.env.SESSION_MAX_COUNT ? parseInt(process.env.SESSION_MAX_COUNT, 10) : undefined
+});
+
+// Sessions that are running or streamed to clients; released once neither is the case
 const sessions: Map<string, {
     session: DebateSession,
     orchestrator: DebateOrchestrator,
-    clients: express.Response[]
+    clients: express.Response[],
+    abortController?: AbortController   // Set while the debate is running
 }> = new Map();
+resumeInterruptedDebates();
+// Debates this server ran before a quick restart still hold a lease for a while
+setTimeout(resumeInterruptedDebates, LEASE_TTL_MS + 1000).unref();
+pruneSessions();
+// Also picks up debates of other processes sharing the store that stopped while this server was running
+setInterval(() => {
+    resumeInterruptedDebates();
+    pruneSessions();
+}, SESSION_MAINTENANCE_INTERVAL_MS).unref();
 
 // Serve frontend static files
 app.use(express.static(path.join(__dirname, '../frontend/dist')));
 
-// API: Get available models
+// API: Get available models with their metadata (context window, max output tokens, pricing)
 app.get('/api/models', (req, res) => {
-    res.json(AVAILABLE_MODELS);
+    if (modelCatalog.isStale(MODEL_CATALOG_MAX_AGE_MS)) {
+        refreshModelCatalog();
+    }
+    res.json(modelCatalog.list());
 });
 
 // API: Start a debate
@@ -37,26 +82,51 @@ app.post('/api/debate', async (req, res) => {
         const {
             topic,
             models,
+            participants,
             maxRounds,
+            turnOrder,
+            runMode,
+            contextStrategy,
             convergenceThreshold,
+            convergencePolicy,
             moderatorModel,
-            synthesizerModel
+            moderatorModels,
+            judgeAggregation,
+            moderatorSteering,
+            synthesizerModel,
+            structuredSynthesis,
+            synthesisStrategy,
+            ratification,
+            budget,
+            callTimeoutMs,
+            debateTimeoutMs
         } = req.body;
 
-        // Use AI_BUILDER_TOKEN from environment instead of requiring from client
-        const apiKey = process.env.AI_BUILDER_TOKEN;
-        if (!apiKey) {
-            return res.status(500).json({ error: 'AI_BUILDER_TOKEN environment variable is not configured' });
-        }
-
-        const client = new AIBuilderClient(apiKey);
-        const orchestrator = new DebateOrchestrator(client);
+        const orchestrator = new DebateOrchestrator(providers, modelCatalog, undefined, store);
 
         const config = createDefaultConfig(topic, models);
+        if (Array.isArray(participants)) {
+            config.participants = participants;
+            config.models = participants.map((p: ParticipantConfig) => p.model);
+        }
         if (maxRounds) config.maxRounds = maxRounds;
+        if (turnOrder) config.turnOrder = turnOrder;
+        if (runMode) config.runMode = runMode;
+        if (contextStrategy) config.contextStrategy = contextStrategy;
         if (convergenceThreshold) config.convergenceThreshold = convergenceThreshold;
+        if (convergencePolicy) config.convergencePolicy = convergencePolicy;
         if (moderatorModel) config.moderatorModel = moderatorModel;
+        if (Array.isArray(moderatorModels) && moderatorModels.length > 0) config.moderatorModels = moderatorModels;
+        if (judgeAggregation) config.judgeAggregation = judgeAggregation;
+        if (moderatorSteering) config.moderatorSteering = true;
         if (synthesizerModel) config.synthesizerModel = synthesizerModel;
+        if (structuredSynthesis) config.structuredSynthesis = true;
+        if (synthesisStrategy) config.synthesisStrategy = synthesisStrategy;
+        if (ratification) config.ratification = true;
+        if (budget) config.budget = budget;
+        if (callTimeoutMs) config.callTimeoutMs = callTimeoutMs;
+        if (debateTimeoutMs) config.debateTimeoutMs = debateTimeoutMs;
+        if (pricing) config.pricing = pricing;
 
         const session = orchestrator.createSession(config);
 
@@ -81,16 +151,27 @@ app.post('/api/debate', async (req, res) => {
 app.post('/api/debate/:id/continue', async (req, res) => {
     try {
         const { id } = req.params;
-        const { instructions } = req.body;
+        const { instructions, additionalRounds = DEFAULT_CONTINUATION_ROUNDS } = req.body;
 
-        const sessionData = sessions.get(id);
+        if (!Number.isInteger(additionalRounds) || additionalRounds < 1) {
+            return res.status(400).json({ error: 'additionalRounds must be an integer of at least 1' });
+        }
+        if (isRunningElsewhere(id)) {
+            return res.status(409).json({ error: 'Debate is running in another process' });
+        }
+        const sessionData = openSession(id);
         if (!sessionData) {
             return res.status(404).json({ error: 'Session not found' });
         }
+        if (sessionData.abortController) {
+            return res.status(409).json({ error: 'Debate is running' });
+        }
 
         // Logic to clear "completed" state if needed and start running again
         // We'll run in background similar to start
-        runDebateInBackground(id, true, instructions);
+        // The instructions become a user intervention in the session timeline
+        runDebateInBackground(id, (orchestrator, session, signal) =>
+            orchestrator.continueDebate(session, instructions || '', additionalRounds, signal));
 
         res.json({ success: true, message: 'Debate continuing' });
     } catch (error: any) {
@@ -99,10 +180,83 @@ app.post('/api/debate/:id/continue', async (req, res) => {
     }
 });
 
+// API: Cancel a running debate
+app.post('/api/debate/:id/cancel', (req, res) => {
+    const { id } = req.params;
+    const sessionData = sessions.get(id);
+
+    if (!sessionData) {
+        return res.status(404).json({ error: 'Session not found' });
+    }
+    if (!sessionData.abortController) {
+        return res.status(409).json({ error: 'Debate is not running' });
+    }
+
+    sessionData.abortController.abort(new DebateCancelledError('Debate cancelled by user'));
+    res.json({ success: true, message: 'Debate cancelling' });
+});
+
+// API: Pause a running debate once the current round is done
+app.post('/api/debate/:id/pause', (req, res) => {
+    const { id } = req.params;
+    const sessionData = sessions.get(id);
+
+    if (!sessionData) {
+        return res.status(404).json({ error: 'Session not found' });
+    }
+    if (!sessionData.abortController || !sessionData.orchestrator.pause(sessionData.session)) {
+        return res.status(409).json({ error: 'Debate is not running' });
+    }
+
+    res.json({ success: true, message: 'Debate pausing after this round' });
+});
+
+// API: Resume a paused debate
+app.post('/api/debate/:id/resume', (req, res) => {
+    const { id } = req.params;
+    if (isRunningElsewhere(id)) {
+        return res.status(409).json({ error: 'Debate is running in another process' });
+    }
+    const sessionData = openSession(id);
+
+    if (!sessionData) {
+        return res.status(404).json({ error: 'Session not found' });
+    }
+    if (sessionData.abortController || sessionData.session.status !== 'paused') {
+        releaseSession(id);
+        return res.status(409).json({ error: 'Debate is not paused' });
+    }
+
+    runDebateInBackground(id, (orchestrator, session, signal) => orchestrator.resume(session, signal));
+    res.json({ success: true, message: 'Debate resuming' });
+});
+
+// API: Run a single round of a paused (or not yet started) debate and pause again
+app.post('/api/debate/:id/step', (req, res) => {
+    const { id } = req.params;
+    if (isRunningElsewhere(id)) {
+        return res.status(409).json({ error: 'Debate is running in another process' });
+    }
+    const sessionData = openSession(id);
+
+    if (!sessionData) {
+        return res.status(404).json({ error: 'Session not found' });
+    }
+    // The same statuses orchestrator.step accepts
+    const { status } = sessionData.session;
+    if (sessionData.abortController || (status !== 'paused' && status !== 'pending')) {
+        releaseSession(id);
+        return res.status(409).json({ error: 'Debate is neither paused nor pending' });
+    }
+
+    runDebateInBackground(id, (orchestrator, session, signal) => orchestrator.step(session, signal));
+    res.json({ success: true, message: 'Debate running one round' });
+});
+
 // API: SSE Stream for a debate session
 app.get('/api/debate/:id/stream', (req, res) => {
     const { id } = req.params;
-    const sessionData = sessions.get(id);
+    const sessionData = openSession(id);
 
     if (!sessionData) {
         return res.status(404).json({ error: 'Session not found' });
@@ -126,52 +280,249 @@ app.get('/api/debate/:id/stream', (req, res) => {
         if (index !== -1) {
             sessionData.clients.splice(index, 1);
         }
+        releaseSession(id);
     });
 });
 
-async function runDebateInBackground(sessionId: string, isContinuation: boolean = false, instructions?: string) {
+// API: List stored sessions, most recently updated first, e.g. ?status=completed,cancelled&topic=typing&limit=20
+app.get('/api/sessions', (req, res) => {
+    const { status, topic, limit } = req.query;
+    const maxSessions = typeof limit === 'string' ? parseInt(limit, 10) : undefined;
+    if (maxSessions !== undefined && !(maxSessions >= 0)) {
+        return res.status(400).json({ error: 'limit must be a non-negative integer' });
+    }
+
+    const stored = store.list({
+        status: typeof status === 'string' ? status.split(',') as DebateStatus[] : undefined,
+        topic: typeof topic === 'string' ? topic : undefined,
+        limit: maxSessions
+    });
+    res.json(stored.map(session => {
+        const { totalTokens, cost } = summarizeUsage(session.usage);
+        return {
+            id: session.id,
+            topic: session.config.topic,
+            status: session.status,
+            rounds: session.rounds.length,
+            createdAt: session.createdAt,
+            updatedAt: session.updatedAt,
+            totalTokens,
+            cost
+        };
+    }));
+});
+
+// API: Get a stored session
+app.get('/api/sessions/:id', (req, res) => {
+    const session = sessions.get(req.params.id)?.session ?? store.get(req.params.id);
+    if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(session);
+});
+
+// API: Delete a stored session that is not running
+app.delete('/api/sessions/:id', (req, res) => {
+    const { id } = req.params;
+    if (sessions.get(id)?.abortController) {
+        return res.status(409).json({ error: 'Debate is running' });
+    }
+    if (!store.get(id)) {
+        return res.status(404).json({ error: 'Session not found' });
+    }
+
+    sessions.get(id)?.clients.forEach(client => client.end());
+    sessions.delete(id);
+    store.delete(id);
+    res.json({ success: true });
+});
+
+/**
+ * The runtime state of a session, loaded from the session store if it is neither running nor streamed
+ */
+function openSession(sessionId: string) {
+    let sessionData = sessions.get(sessionId);
+    if (!sessionData) {
+        const session = store.get(sessionId);
+        if (!session) return undefined;
+
+        sessionData = { session, orchestrator: new DebateOrchestrator(providers, modelCatalog, undefined, store), clients: [] };
+        sessions.set(sessionId, sessionData);
+    }
+    return sessionData;
+}
+
+/**
+ * Whether another process sharing the session store holds the lease of the debate
+ */
+function isRunningElsewhere(sessionId: string): boolean {
+    const stored = store.get(sessionId);
+    return stored?.lease !== undefined && stored.lease.owner !== LEASE_OWNER && hasLiveLease(stored);
+}
+
+/**
+ * Forgets the runtime state of a session once it is neither running nor streamed; the store keeps the session
+ */
+function releaseSession(sessionId: string) {
+    const sessionData = sessions.get(sessionId);
+    if (sessionData && !sessionData.abortController && sessionData.clients.length === 0) {
+        sessions.delete(sessionId);
+    }
+}
+
+/**
+ * Runs a debate (by default from the start, or as run says) while its events are streamed to its clients
+ */
+async function runDebateInBackground(
+    sessionId: string,
+    run: (orchestrator: DebateOrchestrator, session: DebateSession, signal: AbortSignal) => Promise<DebateResult> =
+        (orchestrator, session, signal) => orchestrator.runDebate(session, signal)
+) {
     const sessionData = sessions.get(sessionId);
     if (!sessionData) return;
 
     const { orchestrator, session } = sessionData;
+    const abortController = new AbortController();
+    sessionData.abortController = abortController;
+    const { signal } = abortController;
+
+    // Every lifecycle event of this debate goes to its SSE clients
+    const unsubscribe = orchestrator.events.onAny(event => {
+        if (event.sessionId === sessionId) {
+            broadcast(sessionId, toServerSentEvent(event, session));
+            deprecatedServerSentEvents(event, session).forEach(message => broadcast(sessionId, message));
+        }
+    });
 
     try {
-        const onRoundComplete = (round: any) => {
-            // Broadcast round update
-            broadcast(sessionId, { type: 'round', round });
-        };
+        await run(orchestrator, session, signal);
+    } catch (error: any) {
+        // Clients were told by the error event
+        console.error(`Debate ${sessionId} failed:`, error.message);
+    } finally {
+        unsubscribe();
+        sessionData.abortController = undefined;
+        releaseSession(sessionId);
+    }
+}
 
-        const onAgentResponse = (response: any) => {
-            broadcast(sessionId, { type: 'agent_response', response });
-        };
+/**
+ * The messages SSE clients got before the debate events were introduced, still sent after the new ones
+ * during the deprecation period: round (after round_completed and convergence_evaluated),
+ * moderator_guidance, ratification and complete
+ */
+function deprecatedServerSentEvents(event: DebateEvent, session: DebateSession): object[] {
+    const usage = summarizeUsage(session.usage);
+    switch (event.type) {
+        case 'round_completed':
+            return [{ type: 'round', round: event.round, usage }];
+        case 'convergence_evaluated':
+            return [
+                { type: 'round', round: event.round, judgeSplit: event.judgeSplit, usage },
+                ...(event.guidance ? [{ type: 'moderator_guidance', roundNumber: event.round.roundNumber, guidance: event.guidance }] : [])
+            ];
+        case 'ratification_completed':
+            return [{ ...toServerSentEvent(event, session), type: 'ratification' }];
+        case 'completed':
+            return [{ ...toServerSentEvent(event, session), type: 'complete' }];
+        default:
+            return [];
+    }
+}
 
-        let result;
-        if (isContinuation && instructions) {
-            // We need to inject the instructions into the context somehow.
-            // For now, let's append it to the topic so it persists, or handle it via a new mechanism
-            // Ideally we'd have a 'turns' array, but sticking to the current 'rounds' model:
-            // We can treat it as a Topic Update or just rely on the fact that Orchestrator.continueDebate
-            // will handle it (if we implemented it fully).
-            // NOTE: In the orchestrator change above, I didn't fully implement "inject instructions into context".
-            // Let's do a quick fix: Append to topic or assume `continueDebate` does the right thing.
-            // Since `continueDebate` just calls `runDebate`, we might need to update the topic locally here.
-            session.config.topic += `\n\n[User Intervention]: ${instructions}`;
-
-            result = await orchestrator.continueDebate(session, instructions, onRoundComplete, onAgentResponse);
-        } else {
-            result = await orchestrator.runDebate(session, onRoundComplete, onAgentResponse);
-        }
+/**
+ * Turns a debate event into the message sent to SSE clients. Results are flattened and usage is added
+ * where clients show it; other events are sent as they are.
+ */
+function toServerSentEvent(event: DebateEvent, session: DebateSession): object {
+    switch (event.type) {
+        case 'round_completed':
+        case 'convergence_evaluated':
+        case 'paused':
+            return { ...event, usage: summarizeUsage(session.usage) };
+        case 'ratification_completed':
+            return {
+                ...event,
+                summary: describeRatification(event.ratification),
+                ...tallyRatification(event.ratification)
+            };
+        case 'completed':
+            return {
+                type: event.type,
+                sessionId: event.sessionId,
+                finalAnswer: event.result.finalAnswer,
+                synthesis: event.result.synthesis,
+                citations: session.citations,
+                ratification: session.ratification,
+                convergenceAssessment: session.convergenceAssessment,
+                status: session.status,
+                usage: summarizeUsage(session.usage)
+            };
+        case 'cancelled':
+            return { type: event.type, sessionId: event.sessionId, reason: event.reason, usage: summarizeUsage(session.usage) };
+        case 'error':
+            return { type: event.type, sessionId: event.sessionId, error: event.error.message };
+        default:
+            return event;
+    }
+}
 
-        // Broadcast completion
-        broadcast(sessionId, {
-            type: 'complete',
-            finalAnswer: result.finalAnswer,
-            convergenceAssessment: session.convergenceAssessment
+/**
+ * Continues the debates whose process stopped (this server before a restart, or another process sharing the
+ * store) from their last checkpoint, once their lease has expired
+ */
+function resumeInterruptedDebates() {
+    const interrupted = new DebateOrchestrator(providers, modelCatalog, undefined, store).findInterruptedSessions();
+    for (const session of interrupted) {
+        console.log(`Resuming interrupted debate ${session.id} after round ${session.rounds.length}`);
+        // Clients may be streaming an older copy of the session
+        sessions.set(session.id, {
+            session,
+            orchestrator: new DebateOrchestrator(providers, modelCatalog, undefined, store),
+            clients: sessions.get(session.id)?.clients ?? []
         });
+        runDebateInBackground(session.id);
+    }
+}
 
-    } catch (error: any) {
-        broadcast(sessionId, { type: 'error', error: error.message });
+function pruneSessions() {
+    const deleted = store.prune();
+    if (deleted > 0) console.log(`Deleted ${deleted} expired sessions`);
+}
+
+function createChatProvider(args: string[]): ChatProvider {
+    const flag = (name: string) => {
+        const index = args.indexOf(name);
+        return index !== -1 ? args[index + 1] : undefined;
+    };
+    const recordFile = flag('--record');
+    const replayFile = flag('--replay');
+    const mockScript = flag('--mock');
+
+    if (replayFile) {
+        console.log(`Replaying debates from ${replayFile}`);
+        return new ReplayClient(replayFile);
     }
+
+    let provider: ChatProvider;
+    if (mockScript) {
+        console.log(`Using mock provider script ${mockScript}`);
+        provider = new ScriptedMockProvider(mockScript);
+    } else {
+        provider = createProviderRegistryFromEnv();
+    }
+
+    if (recordFile) {
+        console.log(`Recording debates to ${recordFile}`);
+        return new RecordingClient(provider, recordFile);
+    }
+    return provider;
+}
+
+function refreshModelCatalog() {
+    modelCatalog.refresh(providers).then(count => {
+        if (count > 0) console.log(`Loaded ${count} models from providers`);
+    });
 }
 
 function broadcast(sessionId: string, data: any) {
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for cancellation and timeouts
+ */
+
+import { ChatProvider, ChatRequest, ChatResponse, ChatCallOptions } from '../../src/debate/client';
+import { CallTimeoutProvider, abortableDelay, withTimeout } from '../../src/debate/cancellation';
+import { DebateCancelledError, TimeoutError } from '../../src/debate/errors';
+import { ScriptedMockProvider } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { createDefaultConfig, validateDebateConfig } from '../../src/debate/config';
+import { formatDebateHistory } from '../../src/debate/formatter';
+
+// Never answers and ignores the signal, like a hung connection
+class HangingProvider implements ChatProvider {
+  calls = 0;
+
+  chatCompletion(_request: ChatRequest, _options?: ChatCallOptions): Promise<ChatResponse> {
+    this.calls++;
+    return new Promise(() => undefined);
+  }
+}
+
+describe('Cancellation helpers', () => {
+  test('withTimeout should abort with a TimeoutError', async () => {
+    const linked = withTimeout(undefined, 10, 'Test');
+    await expect(abortableDelay(1000, linked.signal)).rejects.toThrow(TimeoutError);
+    expect(linked.signal!.reason.message).toBe('Test timed out after 10ms');
+    linked.dispose();
+  });
+
+  test('withTimeout should follow the parent signal', async () => {
+    const parent = new AbortController();
+    const linked = withTimeout(parent.signal, 10_000);
+    parent.abort(new DebateCancelledError('stop'));
+
+    expect(linked.signal!.aborted).toBe(true);
+    expect(linked.signal!.reason).toBeInstanceOf(DebateCancelledError);
+    linked.dispose();
+  });
+
+  test('CallTimeoutProvider should reject calls that hang', async () => {
+    const provider = new CallTimeoutProvider(new HangingProvider(), 20);
+    await expect(provider.chatCompletion({ model: 'deepseek', messages: [] }))
+      .rejects.toThrow('Request to deepseek timed out after 20ms');
+  });
+});
+
+describe('Cancelled debates', () => {
+  test('validateDebateConfig should reject non-positive timeouts', () => {
+    const config = { ...createDefaultConfig('Timeouts', ['deepseek', 'gpt-5']), callTimeoutMs: -1 };
+    const result = validateDebateConfig(config);
+    expect(result.errors.some(e => e.field === 'callTimeoutMs')).toBe(true);
+  });
+
+  test('aborting mid-debate should keep finished rounds and end as cancelled', async () => {
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider({ latencyMs: 20 }));
+    const config = createDefaultConfig('Cancel me', ['deepseek', 'gpt-5']);
+    config.maxRounds = 5;
+    const controller = new AbortController();
+    orchestrator.events.on('round_completed', () => controller.abort(new DebateCancelledError('Debate cancelled by user')));
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config), controller.signal);
+
+    expect(result.session.status).toBe('cancelled');
+    expect(result.session.cancellationReason).toBe('Debate cancelled by user');
+    expect(result.totalRounds).toBe(1);
+    expect(result.finalAnswer).toBe('');
+    expect(formatDebateHistory(result)).toContain('Stopped Early: Debate cancelled by user');
+  });
+
+  test('a debate timeout should cancel even a provider that ignores the signal', async () => {
+    const provider = new HangingProvider();
+    const orchestrator = new DebateOrchestrator(provider);
+    const config = { ...createDefaultConfig('Hangs forever', ['deepseek', 'gpt-5']), debateTimeoutMs: 30 };
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    expect(provider.calls).toBe(2);
+    expect(result.session.status).toBe('cancelled');
+    expect(result.session.cancellationReason).toBe('Debate timed out after 30ms');
+    expect(result.totalRounds).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Unit tests for record/replay cassettes
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ChatRequest } from '../../src/debate/client';
+import { RecordingClient, ReplayClient, hashChatRequest, loadCassette } from '../../src/debate/cassette';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { createDefaultConfig } from '../../src/debate/config';
+import { CapturingProvider } from './helpers/capturing-provider';
+
+// Agents answer with a numbered line, the moderator with a numbered verdict
+const countingProvider = () => new CapturingProvider((request, _options, callNumber) =>
+  request.messages.some(m => m.content.includes('debate moderator'))
+    ? JSON.stringify({ isConverged: false, confidenceScore: 0.4, reasoning: `call ${callNumber}` })
+    : `${request.model} says #${callNumber}`);
+
+describe('Cassettes', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cassette-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('hashChatRequest should ignore the stream flag', () => {
+    const request: ChatRequest = { model: 'deepseek', messages: [{ role: 'user', content: 'hi' }], temperature: 0.7 };
+    expect(hashChatRequest({ ...request, stream: true })).toBe(hashChatRequest(request));
+    expect(hashChatRequest({ ...request, temperature: 0.3 })).not.toBe(hashChatRequest(request));
+  });
+
+  test('a recorded debate should replay identically without calling the provider', async () => {
+    const file = path.join(dir, 'debate.json');
+    const live = countingProvider();
+    const config = createDefaultConfig('Recorded topic', ['deepseek', 'gpt-5']);
+    config.maxRounds = 2;
+
+    const recorder = new DebateOrchestrator(new RecordingClient(live, file));
+    const recorded = await recorder.runDebate(recorder.createSession({ ...config }));
+
+    expect(loadCassette(file).interactions).toHaveLength(live.calls.length);
+
+    const replayer = new DebateOrchestrator(new ReplayClient(file));
+    const replayed = await replayer.runDebate(replayer.createSession({ ...config }));
+
+    expect(replayed.finalAnswer).toBe(recorded.finalAnswer);
+    expect(replayed.session.rounds.map(r => r.responses.map(x => x.content)))
+      .toEqual(recorded.session.rounds.map(r => r.responses.map(x => x.content)));
+    expect(replayed.session.rounds.map(r => r.convergenceCheck))
+      .toEqual(recorded.session.rounds.map(r => r.convergenceCheck));
+  });
+
+  test('replay should fail for requests that were never recorded', async () => {
+    const replay = new ReplayClient({ version: 1, interactions: [] });
+    await expect(replay.chatCompletion({ model: 'deepseek', messages: [] }))
+      .rejects.toThrow('No recorded response for request');
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for checkpointing and resuming interrupted debates
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ChatCallOptions } from '../../src/debate/client';
+import { createDefaultConfig, DebateConfig } from '../../src/debate/config';
+import { deserializeSession, isInterrupted, LEASE_OWNER, LEASE_TTL_MS, serializeSession } from '../../src/debate/checkpoint';
+import { ServerError } from '../../src/debate/errors';
+import { ScriptedMockProvider } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { DEFAULT_RETRY_POLICY, isRetryable, resolveRetryPolicy } from '../../src/debate/retry';
+import { DebateSession, DebateSessionManager } from '../../src/debate/session';
+import { FileSessionStore, MemorySessionStore } from '../../src/debate/session-store';
+
+// Keeps every saved version of the sessions, as a crash after any save would leave it
+class SnapshotStore extends MemorySessionStore {
+  snapshots: string[] = [];
+
+  update(session: DebateSession): void {
+    super.update(session);
+    this.snapshots.push(serializeSession(session));
+  }
+
+  // The session as it was saved at the first checkpoint matching the predicate
+  restore(predicate: (session: DebateSession) => boolean): DebateSession {
+    return this.snapshots.map(deserializeSession).find(predicate)!;
+  }
+}
+
+const config = (overrides: Partial<DebateConfig> = {}): DebateConfig => ({
+  ...createDefaultConfig('Tabs or spaces', ['deepseek', 'gpt-5']),
+  maxRounds: 2,
+  turnOrder: 'sequential',
+  ...overrides
+});
+
+// Runs a debate to the end and keeps its checkpoints
+const checkpointedDebate = async (debateConfig: DebateConfig) => {
+  const store = new SnapshotStore();
+  const orchestrator = new DebateOrchestrator(new ScriptedMockProvider(), undefined, undefined, store);
+  const result = await orchestrator.runDebate(orchestrator.createSession(debateConfig));
+  return { store, result };
+};
+
+// Resumes a restored session with a fresh orchestrator, recording the calls it makes
+const resume = async (session: DebateSession) => {
+  const mock = new ScriptedMockProvider();
+  const calls: ChatCallOptions[] = [];
+  const chatCompletion = mock.chatCompletion.bind(mock);
+  mock.chatCompletion = async (request, options = {}) => {
+    calls.push(options);
+    return chatCompletion(request, options);
+  };
+  const result = await new DebateOrchestrator(mock).runDebate(session);
+  return { result, calls: calls.map(call => `${call.role}:${call.roundNumber ?? ''}${call.participantId ?? ''}`) };
+};
+
+describe('Checkpoints', () => {
+  test('serialization should be versioned and round-trip dates', () => {
+    const session = DebateSessionManager.createSession(config());
+    session.rounds.push({
+      roundNumber: 1,
+      responses: [{ model: 'deepseek', content: 'Tabs', timestamp: new Date('2026-01-02T03:04:05.678Z') }]
+    });
+    DebateSessionManager.addIntervention(session, 'Consider accessibility');
+
+    const json = serializeSession(session, new Date('2026-01-02T04:00:00.000Z'));
+    const restored = deserializeSession(json);
+
+    expect(JSON.parse(json)).toMatchObject({ version: 1, savedAt: '2026-01-02T04:00:00.000Z' });
+    expect(restored).toEqual(session);
+    expect(restored.rounds[0].responses[0].timestamp).toBeInstanceOf(Date);
+    expect(restored.rounds[0].responses[0].timestamp.getTime()).toBe(Date.parse('2026-01-02T03:04:05.678Z'));
+    expect(restored.interventions![0].timestamp).toBeInstanceOf(Date);
+    expect(() => deserializeSession(json.replace('"version": 1', '"version": 2')))
+      .toThrow('Unsupported checkpoint format (expected version 1)');
+  });
+
+  test('a custom retry policy should resume with the default errors to retry on', () => {
+    const session = DebateSessionManager.createSession({
+      ...config(),
+      retryPolicy: { maxAttempts: 5, retryOn: [ServerError] }
+    });
+
+    const restored = deserializeSession(serializeSession(session));
+    const legacy = deserializeSession(serializeSession(session).replace('"maxAttempts": 5', '"maxAttempts": 5, "retryOn": [null]'));
+
+    for (const resumed of [restored, legacy]) {
+      expect(resumed.config.retryPolicy).toEqual({ maxAttempts: 5 });
+      const policy = resolveRetryPolicy(resumed.config.retryPolicy);
+      expect(policy.retryOn).toBe(DEFAULT_RETRY_POLICY.retryOn);
+      expect(isRetryable(new ServerError('Bad gateway'), policy)).toBe(true);
+    }
+  });
+
+  test('a debate interrupted within a round should only ask the agents that had not answered', async () => {
+    const { store, result } = await checkpointedDebate(config());
+    const interrupted = store.restore(session => session.pendingRound?.roundNumber === 2 && session.pendingRound.responses.length === 1);
+
+    expect(isInterrupted(interrupted)).toBe(true);
+    const { result: resumed, calls } = await resume(interrupted);
+
+    expect(calls).toEqual(['agent:2gpt-5', 'moderator:2', 'synthesizer:']);
+    expect(resumed.session.status).toBe('completed');
+    expect(resumed.session.pendingRound).toBeUndefined();
+    expect(resumed.session.rounds.map(round => round.responses.map(response => response.content)))
+      .toEqual(result.session.rounds.map(round => round.responses.map(response => response.content)));
+  });
+
+  test('a round interrupted before its convergence check should be checked without running it again', async () => {
+    const { store } = await checkpointedDebate(config());
+    const interrupted = store.restore(session => session.rounds.length === 1 && !session.rounds[0].convergenceCheck);
+
+    const { calls } = await resume(interrupted);
+
+    expect(calls).toEqual(['moderator:1', 'agent:2deepseek', 'agent:2gpt-5', 'moderator:2', 'synthesizer:']);
+  });
+
+  test('a converged debate interrupted before its answer should only synthesize and ratify it', async () => {
+    const store = new SnapshotStore();
+    const mock = new ScriptedMockProvider({ moderator: [{ isConverged: true, confidenceScore: 0.9, reasoning: 'Agreed' }] });
+    const orchestrator = new DebateOrchestrator(mock, undefined, undefined, store);
+    await orchestrator.runDebate(orchestrator.createSession(config({ ratification: true })));
+
+    const converged = store.restore(session => session.rounds[0]?.convergenceCheck !== undefined);
+    expect((await resume(converged)).calls).toEqual(['synthesizer:', 'ratifier:deepseek', 'ratifier:gpt-5']);
+
+    const synthesized = store.restore(session => session.finalAnswer !== undefined);
+    const { result, calls } = await resume(synthesized);
+    expect(calls).toEqual(['ratifier:deepseek', 'ratifier:gpt-5']);
+    expect(result.convergenceAchieved).toBe(true);
+    expect(result.session.ratification?.ballots).toHaveLength(2);
+  });
+
+  test('a cancelled debate should drop the round in flight from its checkpoint', async () => {
+    const store = new SnapshotStore();
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider(), undefined, undefined, store);
+    const controller = new AbortController();
+    orchestrator.events.on('agent_response', () => controller.abort(new Error('Stop')));
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config()), controller.signal);
+
+    const saved = store.get(result.session.id)!;
+    expect(saved.status).toBe('cancelled');
+    expect(saved.pendingRound).toBeUndefined();
+    expect(isInterrupted(saved)).toBe(false);
+  });
+
+  test('a running debate should hold a lease that it gives up when it stops', async () => {
+    const { store, result } = await checkpointedDebate(config());
+
+    const running = store.restore(session => session.rounds.length === 1);
+    expect(running.lease?.owner).toBe(LEASE_OWNER);
+    expect(store.get(result.session.id)!.lease).toBeUndefined();
+  });
+
+  test('a debate another process holds the lease of should be left alone until the lease expires', async () => {
+    const store = new MemorySessionStore();
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider(), undefined, undefined, store);
+    const session = orchestrator.createSession(config());
+    const heartbeatAt = new Date();
+    session.status = 'in_progress';
+    session.lease = { owner: 'other-host:4242:abcd', heartbeatAt };
+    store.update(session);
+
+    expect(orchestrator.findInterruptedSessions(heartbeatAt)).toEqual([]);
+    await expect(orchestrator.runDebate(store.get(session.id)!))
+      .rejects.toThrow(`Session ${session.id} is running in another process (other-host:4242:abcd)`);
+
+    const expired = new Date(heartbeatAt.getTime() + LEASE_TTL_MS + 1);
+    expect(orchestrator.findInterruptedSessions(expired).map(interrupted => interrupted.id)).toEqual([session.id]);
+  });
+
+  describe('FileSessionStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), 'checkpoints-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should keep one file per session and find the interrupted ones', async () => {
+      const store = new FileSessionStore(dir);
+      const orchestrator = new DebateOrchestrator(new ScriptedMockProvider(), undefined, undefined, store);
+      const finished = orchestrator.createSession(config({ maxRounds: 1 }));
+      await orchestrator.runDebate(finished);
+      const running = orchestrator.createSession(config());
+      running.status = 'in_progress';
+      store.update(running);
+
+      expect(store.list().map(session => session.id).sort()).toEqual([finished.id, running.id].sort());
+      expect(orchestrator.findInterruptedSessions().map(session => session.id)).toEqual([running.id]);
+      expect(store.get(finished.id)?.finalAnswer).toBe(finished.finalAnswer);
+      expect(JSON.parse(readFileSync(path.join(dir, `${running.id}.json`), 'utf-8')).version).toBe(1);
+
+      store.delete(running.id);
+      expect(store.get(running.id)).toBeUndefined();
+      expect(orchestrator.findInterruptedSessions()).toEqual([]);
+    });
+  });
+});
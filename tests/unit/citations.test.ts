@@ -0,0 +1,75 @@
+/**
+ * Unit tests for citation-tracked synthesis
+ */
+
+import { checkCitations, extractCitations, findCitedResponse, responseRef } from '../../src/debate/citations';
+import { createDefaultConfig } from '../../src/debate/config';
+import { ScriptedMockProvider } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { ChatRequest } from '../../src/debate/client';
+import { DebateRound } from '../../src/debate/session';
+import { formatDebateHistory } from '../../src/debate/formatter';
+
+const rounds: DebateRound[] = [1, 2].map(roundNumber => ({
+  roundNumber,
+  responses: [
+    { model: 'deepseek', participantId: 'skeptic', participantName: 'The Skeptic', content: `Doubt ${roundNumber}`, timestamp: new Date() },
+    { model: 'gpt-5', content: `Claim ${roundNumber}`, timestamp: new Date() }
+  ]
+}));
+
+describe('Citations', () => {
+  test('responseRef should use the participant id, or the model for older responses', () => {
+    expect(responseRef(2, rounds[1].responses[0])).toBe('R2-skeptic');
+    expect(responseRef(2, rounds[1].responses[1])).toBe('R2-gpt-5');
+  });
+
+  test('responseRef should encode ids that a citation could not hold, so they can still be cited', () => {
+    const recorded: DebateRound[] = [{
+      roundNumber: 1,
+      responses: [{ model: 'deepseek', participantId: 'the skeptic', content: 'Doubt', timestamp: new Date() }]
+    }];
+    const ref = responseRef(1, recorded[0].responses[0]);
+
+    expect(ref).toBe('R1-the%20skeptic');
+    expect(responseRef(1, { model: 'deepseek', participantId: 'a;b[1]%' })).toBe('R1-a%3Bb%5B1%5D%25');
+    expect(checkCitations(`As argued [${ref}, R2-gpt-5].`, recorded)).toEqual({ cited: [ref, 'R2-gpt-5'], unknown: ['R2-gpt-5'] });
+  });
+
+  test('extractCitations should read single and grouped citations once each', () => {
+    const text = 'Types help [R1-gpt-5]. Both agree [R1-skeptic, R2-gpt-5]; see also [R1-gpt-5] and [not a citation].';
+
+    expect(extractCitations(text)).toEqual(['R1-gpt-5', 'R1-skeptic', 'R2-gpt-5']);
+  });
+
+  test('checkCitations should report ids that match no response', () => {
+    expect(checkCitations('Yes [R2-skeptic]. No [R3-gpt-5, R1-grok-4-fast].', rounds)).toEqual({
+      cited: ['R2-skeptic', 'R3-gpt-5', 'R1-grok-4-fast'],
+      unknown: ['R3-gpt-5', 'R1-grok-4-fast']
+    });
+    expect(findCitedResponse('R2-skeptic', rounds)!.response.content).toBe('Doubt 2');
+  });
+
+  test('the synthesizer should see the ids and the history should link its citations', async () => {
+    const mock = new ScriptedMockProvider({ synthesizer: 'Types catch bugs [R1-gpt-5], prototypes suffer [R9-deepseek].' });
+    const requests: ChatRequest[] = [];
+    const chatCompletion = mock.chatCompletion.bind(mock);
+    mock.chatCompletion = async (request, options) => {
+      if (options?.role === 'synthesizer') {
+        requests.push(request);
+      }
+      return chatCompletion(request, options);
+    };
+    const orchestrator = new DebateOrchestrator(mock);
+    const config = { ...createDefaultConfig('Static typing', ['deepseek', 'gpt-5']), maxRounds: 1 };
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    expect(requests[0].messages[1].content).toContain('[R1-gpt-5] gpt-5:\n');
+    expect(result.session.citations).toEqual({ cited: ['R1-gpt-5', 'R9-deepseek'], unknown: ['R9-deepseek'] });
+
+    const history = formatDebateHistory(result);
+    expect(history).toContain('[GPT-5] #R1-gpt-5\n');
+    expect(history).toContain('--- CITATIONS ---\n[R1-gpt-5]: #R1-gpt-5 "Round 1, gpt-5"\nUnknown citations (no such response): R9-deepseek');
+  });
+});
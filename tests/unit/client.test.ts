@@ -3,6 +3,10 @@
  */
 
 import { AIBuilderClient, ChatRequest } from '../../src/debate/client';
+import { createDefaultConfig } from '../../src/debate/config';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { MalformedResponseError } from '../../src/debate/errors';
+import { DEFAULT_RETRY_POLICY, isRetryable } from '../../src/debate/retry';
 
 describe('AIBuilderClient Error Handling', () => {
   const originalFetch = global.fetch;
@@ -145,4 +149,111 @@ describe('AIBuilderClient Error Handling', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('Streaming', () => {
+    const streamOf = (chunks: string[]) => {
+      const encoder = new TextEncoder();
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+          controller.close();
+        }
+      });
+    };
+
+    test('should forward deltas and assemble the full response', async () => {
+      const client = new AIBuilderClient('valid-token');
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: streamOf([
+          'data: {"id":"s1","choices":[{"delta":{"content":"Hel"}}]}\n\n',
+          'data: {"id":"s1","choices":[{"delta":{"content":"lo"},"finish_reason":"stop"}]}\n',
+          '\ndata: [DONE]\n\n'
+        ])
+      });
+
+      const deltas: string[] = [];
+      const request: ChatRequest = {
+        model: 'deepseek',
+        messages: [{ role: 'user', content: 'test' }]
+      };
+
+      const response = await client.chatCompletion(request, { onDelta: delta => deltas.push(delta) });
+
+      expect(deltas).toEqual(['Hel', 'lo']);
+      expect(response.id).toBe('s1');
+      expect(response.choices[0].message.content).toBe('Hello');
+      expect(response.choices[0].finish_reason).toBe('stop');
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.stream).toBe(true);
+      expect(body.stream_options).toEqual({ include_usage: true });
+    });
+
+    test('should take usage from the final chunk and estimate it if the stream reports none', async () => {
+      const client = new AIBuilderClient('valid-token');
+      const request: ChatRequest = { model: 'deepseek', messages: [{ role: 'user', content: 'Tabs or spaces?' }] };
+      const chunks = (usage: string) => [
+        'data: {"id":"s1","choices":[{"delta":{"content":"Spaces, always."},"finish_reason":"stop"}]}\n\n',
+        ...(usage ? [`data: {"id":"s1","choices":[],"usage":${usage}}\n\n`] : []),
+        'data: [DONE]\n\n'
+      ];
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: streamOf(chunks('{"prompt_tokens":12,"completion_tokens":4,"total_tokens":16}'))
+      });
+      const reported = await client.chatCompletion(request, { onDelta: () => undefined });
+      expect(reported.usage).toEqual({ prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 });
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, body: streamOf(chunks('')) });
+      const estimated = await client.chatCompletion(request, { onDelta: () => undefined });
+      expect(estimated.usage.prompt_tokens).toBeGreaterThan(0);
+      expect(estimated.usage.completion_tokens).toBeGreaterThan(0);
+      expect(estimated.usage.total_tokens).toBe(estimated.usage.prompt_tokens + estimated.usage.completion_tokens);
+    });
+
+    test('should raise a retryable MalformedResponseError for a chunk that is not JSON', async () => {
+      const client = new AIBuilderClient('valid-token');
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: streamOf(['data: {"id":"s1","choices":[{"delta":{"content":"Hel"}}]}\n\n', 'data: {"id":"s1","choi\n\n'])
+      });
+
+      const error = await client
+        .chatCompletion({ model: 'deepseek', messages: [{ role: 'user', content: 'test' }] }, { onDelta: () => undefined })
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(MalformedResponseError);
+      expect(error.message).toContain('Invalid JSON in provider stream');
+      expect(isRetryable(error, DEFAULT_RETRY_POLICY)).toBe(true);
+    });
+
+    test('streamed agent calls should count against the token budget', async () => {
+      // Agents are streamed without usage; the moderator and synthesizer report none either
+      (global.fetch as jest.Mock).mockImplementation(async (_url: string, init: RequestInit) => {
+        if (JSON.parse(init.body as string).stream) {
+          return { ok: true, body: streamOf(['data: {"id":"a","choices":[{"delta":{"content":"Spaces."}}]}\n\n', 'data: [DONE]\n\n']) };
+        }
+        const content = JSON.stringify({ isConverged: false, confidenceScore: 0.5, reasoning: 'Still apart' });
+        return {
+          ok: true,
+          json: async () => ({
+            id: 'm',
+            choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+          })
+        };
+      });
+      const orchestrator = new DebateOrchestrator(new AIBuilderClient('valid-token'));
+      const config = { ...createDefaultConfig('Tabs or spaces?', ['deepseek', 'gpt-5']), maxRounds: 3, budget: { maxTokens: 50 } };
+
+      const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+      expect(result.session.status).toBe('budget_exhausted');
+      expect(result.totalRounds).toBe(1);
+      expect(result.session.usage!.filter(record => record.role === 'agent').every(record => record.totalTokens > 0)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for context strategies and prompt trimming
+ */
+
+import { ContextBuilder, estimateMessageTokens, estimateTokens } from '../../src/debate/context';
+import { createDefaultConfig, validateDebateConfig, DebateConfig } from '../../src/debate/config';
+import { RoundManager } from '../../src/debate/round-manager';
+import { Moderator } from '../../src/debate/moderator';
+import { DebateRound, DebateSessionManager } from '../../src/debate/session';
+import { ScriptedMockProvider } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { ModelCatalog } from '../../src/debate/model-catalog';
+import { CapturingProvider } from './helpers/capturing-provider';
+
+const makeRounds = (count: number, length = 40): DebateRound[] =>
+  Array.from({ length: count }, (_, i) => ({
+    roundNumber: i + 1,
+    responses: [
+      { model: 'deepseek', content: `R${i + 1} deepseek `.padEnd(length, 'x'), timestamp: new Date() },
+      { model: 'gpt-5', content: `R${i + 1} gpt-5 `.padEnd(length, 'x'), timestamp: new Date() }
+    ]
+  }));
+
+const sessionWith = (rounds: DebateRound[], contextStrategy?: DebateConfig['contextStrategy']) => {
+  const session = DebateSessionManager.createSession({ ...createDefaultConfig('Context', ['deepseek', 'gpt-5']), contextStrategy });
+  session.rounds.push(...rounds);
+  return session;
+};
+
+describe('Context management', () => {
+  test('estimateTokens should count about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateMessageTokens([{ role: 'user', content: 'abcd' }])).toBe(5);
+  });
+
+  test('selectRounds should apply each strategy', () => {
+    const rounds = makeRounds(4);
+    rounds[0].summary = 'Round one digest';
+
+    expect(new ContextBuilder().selectRounds(rounds)).toHaveLength(4);
+    expect(new ContextBuilder({ mode: 'last_n', rounds: 1 }).selectRounds(rounds).map(r => r.round.roundNumber)).toEqual([4]);
+
+    const rolling = new ContextBuilder({ mode: 'rolling_summary', rounds: 2 });
+    const selected = rolling.selectRounds(rounds);
+    expect(selected.map(r => r.digest)).toEqual(['Round one digest', expect.stringContaining('deepseek: R2 deepseek'), undefined, undefined]);
+    expect(rolling.roundsToSummarize(rounds).map(r => r.roundNumber)).toEqual([2]);
+  });
+
+  test('RoundManager should only send the rounds the strategy keeps', async () => {
+    const provider = new CapturingProvider();
+    const manager = new RoundManager(provider, undefined, new ContextBuilder({ mode: 'last_n', rounds: 1 }));
+
+    await manager.executeRound(sessionWith(makeRounds(3)));
+
+    const contents = provider.calls[0].request.messages.map(m => m.content);
+    expect(contents.filter(c => c.includes('R3'))).toHaveLength(2);
+    expect(contents.some(c => c.includes('R2'))).toBe(false);
+  });
+
+  test('prompts should be trimmed to the known context window, oldest history first', async () => {
+    const provider = new CapturingProvider();
+    const context = new ContextBuilder(undefined, model => (model === 'deepseek' ? 400 : undefined));
+    const manager = new RoundManager(provider, undefined, context);
+    const session = sessionWith(makeRounds(5, 400));
+    session.config.participants = [
+      { id: 'small', name: 'small', model: 'deepseek', maxTokens: 100 },
+      { id: 'large', name: 'large', model: 'gpt-5', maxTokens: 100 }
+    ];
+
+    await manager.executeRound(session);
+
+    const [small, large] = provider.calls.map(call => call.request.messages);
+    expect(estimateMessageTokens(small)).toBeLessThanOrEqual(300);
+    expect(small[0].role).toBe('system');
+    expect(small[small.length - 1].content).toContain('This is round 6');
+    expect(small.some(m => m.content.includes('R5 gpt-5'))).toBe(true);
+    expect(small.some(m => m.content.includes('R1 deepseek'))).toBe(false);
+    expect(large.some(m => m.content.includes('R1 deepseek'))).toBe(true);
+  });
+
+  test('Moderator should see digests of compressed rounds', async () => {
+    const verdict = JSON.stringify({ isConverged: false, confidenceScore: 0.4, reasoning: 'Not yet' });
+    const provider = new CapturingProvider(verdict);
+    const rounds = makeRounds(3);
+    rounds[0].summary = 'Both agents disagreed on everything';
+    const moderator = new Moderator(provider, 'deepseek', undefined, new ContextBuilder({ mode: 'rolling_summary', rounds: 1 }));
+
+    await moderator.evaluateConvergence('Context', rounds, 0.8);
+
+    const prompt = provider.calls[0].request.messages[1].content;
+    expect(prompt).toContain('=== Round 1 (summary) ===\nBoth agents disagreed on everything');
+    expect(prompt).not.toContain('R1 deepseek');
+    expect(prompt).toContain('R3 deepseek');
+  });
+
+  test('the orchestrator should summarize rounds once they leave the verbatim window', async () => {
+    const mock = new ScriptedMockProvider({ roundSummary: 'Digest of round {round}' });
+    const catalog = new ModelCatalog([
+      { id: 'deepseek', provider: 'ai-builder' },
+      { id: 'gpt-5', provider: 'ai-builder' },
+      { id: 'gemini-2.5-pro', provider: 'ai-builder' }
+    ]);
+    const orchestrator = new DebateOrchestrator(mock, catalog);
+    const config: DebateConfig = {
+      ...createDefaultConfig('Context', ['deepseek', 'gpt-5']),
+      maxRounds: 3,
+      contextStrategy: { mode: 'rolling_summary', rounds: 1, summarizerModel: 'gemini-2.5-pro' }
+    };
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    expect(result.session.rounds.map(r => r.summary)).toEqual(['Digest of round 1', 'Digest of round 2', undefined]);
+    const summarizerCalls = result.session.usage!.filter(r => r.role === 'summarizer');
+    expect(summarizerCalls.map(r => [r.model, r.roundNumber])).toEqual([['gemini-2.5-pro', 1], ['gemini-2.5-pro', 2]]);
+  });
+
+  test('validateDebateConfig should reject invalid context strategies', () => {
+    const base = createDefaultConfig('Context', ['deepseek', 'gpt-5']);
+    const invalidMode = validateDebateConfig({ ...base, contextStrategy: { mode: 'everything' as 'full' } });
+    expect(invalidMode.errors[0].message).toBe('contextStrategy.mode must be one of: full, last_n, rolling_summary');
+
+    const invalidRounds = validateDebateConfig({ ...base, contextStrategy: { mode: 'last_n', rounds: 0 } });
+    expect(invalidRounds.errors[0].message).toBe('contextStrategy.rounds must be an integer of at least 1');
+  });
+});
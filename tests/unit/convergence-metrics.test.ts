@@ -0,0 +1,167 @@
+/**
+ * Unit tests for local convergence metrics and convergence policies
+ */
+
+import {
+  applyConvergencePolicy,
+  computeConvergenceMetrics,
+  novelty,
+  stanceOf,
+  tfidfSimilarity,
+  ConvergenceMetrics
+} from '../../src/debate/convergence-metrics';
+import { createDefaultConfig, validateDebateConfig, DebateConfig } from '../../src/debate/config';
+import { ScriptedMockProvider } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { DebateRound } from '../../src/debate/session';
+import { formatDebateHistory } from '../../src/debate/formatter';
+
+const round = (roundNumber: number, ...contents: string[]): DebateRound => ({
+  roundNumber,
+  responses: contents.map((content, i) => ({ model: `model-${i}`, content, timestamp: new Date() }))
+});
+
+const metrics = (score: number): ConvergenceMetrics => ({ similarity: score, novelty: 1 - score, stanceAgreement: score, score });
+
+describe('Convergence metrics', () => {
+  test('tfidfSimilarity should be 1 for identical texts and 0 for texts without shared terms', () => {
+    expect(tfidfSimilarity(['Static typing catches bugs early', 'Static typing catches bugs early'])).toBeCloseTo(1);
+    expect(tfidfSimilarity(['Static typing catches bugs', 'Dynamic languages iterate faster'])).toBe(0);
+    const partial = tfidfSimilarity(['Static typing catches bugs', 'Static typing slows prototypes']);
+    expect(partial).toBeGreaterThan(0);
+    expect(partial).toBeLessThan(1);
+  });
+
+  test('novelty should count the share of terms no earlier text used', () => {
+    expect(novelty('typing catches bugs', [])).toBe(1);
+    expect(novelty('typing catches bugs', ['Typing is good', 'bugs are bad'])).toBeCloseTo(1 / 3);
+    expect(novelty('', ['anything'])).toBe(0);
+  });
+
+  test('stanceOf should weigh agreement against disagreement markers', () => {
+    expect(stanceOf('I agree, we have reached consensus.')).toBe(1);
+    expect(stanceOf('I disagree. However, that is wrong.')).toBe(-1);
+    expect(stanceOf('I agree with the goal, but I disagree with the method.')).toBeCloseTo(-1 / 3);
+    expect(stanceOf('Typing catches bugs.')).toBe(0);
+  });
+
+  test('computeConvergenceMetrics should rate a repetitive, agreeing round higher than a diverging one', () => {
+    const opening = round(1, 'Static typing catches bugs early.', 'Dynamic typing lets teams move faster.');
+    const converged = computeConvergenceMetrics([
+      opening,
+      round(2, 'I agree: static typing catches bugs early.', 'I agree, static typing catches bugs early.')
+    ]);
+    const diverging = computeConvergenceMetrics([
+      opening,
+      round(2, 'Tooling, compilers and refactoring support matter most.', 'I disagree; hiring and culture decide everything.')
+    ]);
+
+    expect(converged.novelty).toBeLessThan(diverging.novelty);
+    expect(converged.similarity).toBeGreaterThan(diverging.similarity);
+    expect(converged.stanceAgreement).toBe(1);
+    expect(converged.score).toBeGreaterThan(diverging.score);
+  });
+
+  test('a round where every agent failed should never count as converged', () => {
+    const failed = round(2, '', '');
+    failed.responses.forEach(response => response.error = 'Request timed out');
+    const allFailed = computeConvergenceMetrics([round(1, 'Static typing catches bugs early.', 'Dynamic typing is faster.'), failed]);
+
+    expect(allFailed).toMatchObject({ similarity: 0, score: 0, insufficient: true });
+    expect(applyConvergencePolicy({ mode: 'metrics' }, undefined, allFailed, 0.8).isConverged).toBe(false);
+    expect(applyConvergencePolicy({ mode: 'metrics' }, undefined, allFailed, 0).isConverged).toBe(false);
+  });
+
+  test('a round with a single answer should never count as converged', () => {
+    const single = round(2, 'I agree: static typing catches bugs early.', '');
+    single.responses[1].error = 'Request timed out';
+    const survivor = computeConvergenceMetrics([round(1, 'Static typing catches bugs early.'), single]);
+    const verdict = { isConverged: true, confidenceScore: 1, reasoning: 'Agreed' };
+
+    expect(survivor).toMatchObject({ similarity: 0, score: 0, insufficient: true });
+    expect(applyConvergencePolicy({ mode: 'metrics' }, undefined, survivor, 0.8).reasoning).toContain('fewer than two agents answered');
+    expect(applyConvergencePolicy({ mode: 'weighted', llmWeight: 0.9 }, verdict, survivor, 0.5).isConverged).toBe(false);
+  });
+
+  test('applyConvergencePolicy should follow the configured mode', () => {
+    const verdict = { isConverged: false, confidenceScore: 0.9, reasoning: 'Still apart' };
+
+    expect(applyConvergencePolicy({ mode: 'llm' }, verdict, metrics(0.95), 0.8)).toEqual({ ...verdict, metrics: metrics(0.95) });
+    expect(applyConvergencePolicy({ mode: 'metrics' }, undefined, metrics(0.85), 0.8)).toMatchObject({ isConverged: true, confidenceScore: 0.85 });
+
+    // A confident "not converged" counts as 0.1 towards convergence
+    const weighted = applyConvergencePolicy({ mode: 'weighted', llmWeight: 0.25 }, verdict, metrics(0.9), 0.6);
+    expect(weighted.confidenceScore).toBeCloseTo(0.25 * 0.1 + 0.75 * 0.9);
+    expect(weighted.isConverged).toBe(true);
+    expect(weighted.reasoning).toContain('Still apart (weighted score 0.70');
+  });
+
+  test('the metrics policy should decide without calling the moderator', async () => {
+    const mock = new ScriptedMockProvider({ defaultAgentResponse: 'I agree that static typing catches bugs early.' });
+    const orchestrator = new DebateOrchestrator(mock);
+    const config: DebateConfig = {
+      ...createDefaultConfig('Typing', ['deepseek', 'gpt-5']),
+      // Identical openings score 0.7: every term is still new in the first round
+      convergenceThreshold: 0.75,
+      convergencePolicy: { mode: 'metrics' }
+    };
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    expect(result.totalRounds).toBe(2);
+    expect(result.convergenceAchieved).toBe(true);
+    expect(result.session.usage!.some(r => r.role === 'moderator')).toBe(false);
+    expect(result.session.rounds[1].convergenceCheck!.metrics!.novelty).toBe(0);
+    expect(formatDebateHistory(result)).toContain('Metrics: similarity 1.00, novelty 0.00, stance agreement 1.00');
+  });
+
+  test('the weighted policy should go by the metrics alone when the moderator gives no usable verdict', async () => {
+    const mock = new ScriptedMockProvider({
+      defaultAgentResponse: 'I agree that static typing catches bugs early.',
+      moderator: ['This is not JSON']
+    });
+    const orchestrator = new DebateOrchestrator(mock);
+    const config: DebateConfig = {
+      ...createDefaultConfig('Typing', ['deepseek', 'gpt-5']),
+      convergenceThreshold: 0.8,
+      convergencePolicy: { mode: 'weighted', llmWeight: 0.5 }
+    };
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    // The fallback verdict would have scored 1.0 and converged the first round at 0.85
+    const first = result.session.rounds[0].convergenceCheck!;
+    expect(first.isConverged).toBe(false);
+    expect(first.confidenceScore).toBeCloseTo(first.metrics!.score);
+    expect(first.reasoning).toContain('Failed to parse moderator response');
+    expect(result.totalRounds).toBe(2);
+  });
+
+  test('the weighted policy should score the moderator verdict before its threshold is applied', async () => {
+    const mock = new ScriptedMockProvider({
+      moderator: [{ isConverged: true, confidenceScore: 0.75, reasoning: 'Nearly there' }]
+    });
+    const orchestrator = new DebateOrchestrator(mock);
+    const config: DebateConfig = {
+      ...createDefaultConfig('Typing', ['deepseek', 'gpt-5']),
+      maxRounds: 1,
+      convergenceThreshold: 0.8,
+      convergencePolicy: { mode: 'weighted', llmWeight: 1 }
+    };
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    // Gated by the threshold, the verdict would have read "not converged" and scored 0.25
+    expect(result.session.rounds[0].convergenceCheck!.confidenceScore).toBeCloseTo(0.75);
+    expect(result.convergenceAchieved).toBe(false);
+  });
+
+  test('validateDebateConfig should reject invalid convergence policies', () => {
+    const base = createDefaultConfig('Typing', ['deepseek', 'gpt-5']);
+    const messages = (convergencePolicy: DebateConfig['convergencePolicy']) =>
+      validateDebateConfig({ ...base, convergencePolicy }).errors.map(e => e.message);
+
+    expect(messages({ mode: 'vote' as 'llm' })).toEqual(['convergencePolicy.mode must be one of: llm, metrics, weighted']);
+    expect(messages({ mode: 'weighted', llmWeight: 1.5 })).toEqual(['convergencePolicy.llmWeight must be between 0 and 1 inclusive']);
+  });
+});
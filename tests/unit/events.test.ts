@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the debate lifecycle events
+ */
+
+import { createDefaultConfig, DebateConfig } from '../../src/debate/config';
+import { DebateEvent, DebateEventEmitter } from '../../src/debate/events';
+import { ScriptedMockProvider, MockScript } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+
+const config = (overrides: Partial<DebateConfig> = {}): DebateConfig => ({
+  ...createDefaultConfig('Tabs or spaces', ['deepseek', 'gpt-5']),
+  maxRounds: 1,
+  turnOrder: 'sequential',
+  retryPolicy: { baseDelayMs: 1, jitter: 0 },
+  ...overrides
+});
+
+// Runs a debate and records every event, with agent events tagged by participant
+const recordEvents = async (script: MockScript, debateConfig: DebateConfig) => {
+  const orchestrator = new DebateOrchestrator(new ScriptedMockProvider(script));
+  const events: DebateEvent[] = [];
+  orchestrator.events.onAny(event => events.push(event));
+  const session = orchestrator.createSession(debateConfig);
+  const result = await orchestrator.runDebate(session);
+  const tag = (event: DebateEvent) => 'participantId' in event
+    ? `${event.type}:${event.participantId}`
+    : 'response' in event ? `${event.type}:${event.response.participantId}` : event.type;
+  return { result, session, events, types: events.filter(event => event.type !== 'agent_delta').map(tag) };
+};
+
+describe('Debate events', () => {
+  test('a debate should publish its lifecycle in order', async () => {
+    const { session, events, types } = await recordEvents({}, config());
+
+    expect(types).toEqual([
+      'session_started',
+      'round_started',
+      'agent_started:deepseek',
+      'agent_response:deepseek',
+      'agent_started:gpt-5',
+      'agent_response:gpt-5',
+      'round_completed',
+      'convergence_evaluated',
+      'synthesis_started',
+      'completed'
+    ]);
+    expect(events.every(event => event.sessionId === session.id)).toBe(true);
+
+    const response = events.find(event => event.type === 'agent_response' && event.response.model === 'gpt-5');
+    expect(response).toMatchObject({ roundNumber: 1, ref: 'R1-gpt-5' });
+    const deltas = events.filter(event => event.type === 'agent_delta');
+    expect(deltas.length).toBeGreaterThan(0);
+  });
+
+  test('retries and failed agents should be observable', async () => {
+    const { types, events } = await recordEvents({
+      failures: [
+        { role: 'agent', model: 'deepseek', kind: 'error', status: 503, message: 'Overloaded' },
+        { role: 'agent', model: 'gpt-5', kind: 'error', status: 401, message: 'Bad key' }
+      ]
+    }, config());
+
+    expect(types.slice(2, 7)).toEqual([
+      'agent_started:deepseek',
+      'agent_retry:deepseek',
+      'agent_response:deepseek',
+      'agent_started:gpt-5',
+      'agent_failed:gpt-5'
+    ]);
+    expect(events.find(event => event.type === 'agent_retry')).toMatchObject({ attempt: 1, delayMs: 1, roundNumber: 1 });
+    expect(events.find(event => event.type === 'agent_retry')).toHaveProperty('error', expect.stringContaining('503'));
+    const failed = events.find(event => event.type === 'agent_failed');
+    expect(failed?.type === 'agent_failed' && failed.response.error).toContain('Failed after 1 attempts');
+  });
+
+  test('a cancelled debate should end with cancelled instead of completed', async () => {
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider());
+    const controller = new AbortController();
+    const types: string[] = [];
+    orchestrator.events.onAny(event => types.push(event.type));
+    orchestrator.events.on('round_completed', () => controller.abort(new Error('Stop')));
+
+    await orchestrator.runDebate(orchestrator.createSession(config({ maxRounds: 3 })), controller.signal);
+
+    expect(types.slice(-2)).toEqual(['round_completed', 'cancelled']);
+  });
+
+  test('a failing debate should publish the error it rejects with', async () => {
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider());
+    const errors: Error[] = [];
+    orchestrator.events.on('error', event => errors.push(event.error));
+    orchestrator.events.on('synthesis_started', () => {
+      throw new Error('Listener failed');
+    });
+
+    await expect(orchestrator.runDebate(orchestrator.createSession(config()))).rejects.toThrow('Listener failed');
+    expect(errors.map(error => error.message)).toEqual(['Listener failed']);
+  });
+
+  test('listeners should be removable, also while the event is being emitted', () => {
+    const emitter = new DebateEventEmitter();
+    const seen: string[] = [];
+    const unsubscribe = emitter.on('round_started', () => {
+      seen.push('once');
+      unsubscribe();
+    });
+    emitter.on('round_started', event => seen.push(`round ${event.roundNumber}`));
+
+    emitter.emit({ type: 'round_started', sessionId: 's', roundNumber: 1 });
+    emitter.emit({ type: 'round_started', sessionId: 's', roundNumber: 2 });
+
+    expect(seen).toEqual(['once', 'round 1', 'round 2']);
+  });
+});
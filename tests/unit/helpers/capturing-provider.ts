@@ -0,0 +1,51 @@
+/**
+ * A chat provider stub for unit tests that records every call
+ */
+
+import { ChatCallOptions, ChatProvider, ChatRequest, ChatResponse } from '../../../src/debate/client';
+
+export interface CapturedCall {
+  request: ChatRequest;
+  options?: ChatCallOptions;
+}
+
+/**
+ * The reply to a call: its content, or a whole response. callNumber counts from 1.
+ * Throwing fails the call.
+ */
+export type Responder = (
+  request: ChatRequest,
+  options: ChatCallOptions | undefined,
+  callNumber: number
+) => string | ChatResponse | Promise<string | ChatResponse>;
+
+/**
+ * Wraps content in a chat completion response
+ */
+export function chatResponse(content: string, id = 'id'): ChatResponse {
+  return {
+    id,
+    choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 }
+  };
+}
+
+/**
+ * Answers with fixed content, one entry per call (the last one repeats), or whatever a responder returns
+ */
+export class CapturingProvider implements ChatProvider {
+  calls: CapturedCall[] = [];
+
+  constructor(private readonly reply: string | string[] | Responder = 'ok') {}
+
+  async chatCompletion(request: ChatRequest, options?: ChatCallOptions): Promise<ChatResponse> {
+    this.calls.push({ request, options });
+    const callNumber = this.calls.length;
+    const reply = typeof this.reply === 'function'
+      ? await this.reply(request, options, callNumber)
+      : Array.isArray(this.reply)
+        ? this.reply[Math.min(callNumber, this.reply.length) - 1]
+        : this.reply;
+    return typeof reply === 'string' ? chatResponse(reply, `id-${callNumber}`) : reply;
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for hierarchical (map-reduce) synthesis and the extractive fallback
+ */
+
+import { ChatCallOptions, ChatRequest } from '../../src/debate/client';
+import { createDefaultConfig, validateDebateConfig, DebateConfig } from '../../src/debate/config';
+import { ContextBuilder } from '../../src/debate/context';
+import { extractKeySentences, splitSentences } from '../../src/debate/extractive-summary';
+import { ScriptedMockProvider, MockScript } from '../../src/debate/mock-provider';
+import { DebateRound } from '../../src/debate/session';
+import { Synthesizer, SynthesisStrategy } from '../../src/debate/synthesizer';
+
+const round = (roundNumber: number, contents: Record<string, string>): DebateRound => ({
+  roundNumber,
+  responses: Object.entries(contents).map(([model, content]) => ({ model, content, timestamp: new Date() }))
+});
+
+// Long enough that three rounds of two agents exceed a 1200 token context window
+const filler = 'Static typing catches defects before they reach production systems. '.repeat(15);
+const longRounds = [1, 2, 3].map(n => round(n, { deepseek: `${filler}Round ${n}.`, 'gpt-5': `${filler}Round ${n}!` }));
+
+// Records what the synthesizer and the summarizer were asked
+const recordingMock = (script: MockScript = {}) => {
+  const mock = new ScriptedMockProvider(script);
+  const calls: { request: ChatRequest; options: ChatCallOptions }[] = [];
+  const chatCompletion = mock.chatCompletion.bind(mock);
+  mock.chatCompletion = async (request, options = {}) => {
+    calls.push({ request, options });
+    return chatCompletion(request, options);
+  };
+  return { mock, calls };
+};
+
+const smallWindow = () => new ContextBuilder(undefined, () => 1200);
+
+describe('Hierarchical synthesis', () => {
+  test('planSynthesis should stay single while the transcript fits and otherwise split it', () => {
+    const { mock } = recordingMock();
+
+    expect(new Synthesizer(mock, 'deepseek').planSynthesis('Typing', longRounds)).toBe('single');
+    // Two participants over three rounds: two trajectories are fewer calls than three rounds
+    expect(new Synthesizer(mock, 'deepseek', undefined, smallWindow()).planSynthesis('Typing', longRounds)).toBe('by_participant');
+    expect(new Synthesizer(mock, 'deepseek', undefined, smallWindow()).planSynthesis('Typing', longRounds.slice(0, 2))).toBe('by_round');
+    expect(new Synthesizer(mock, 'deepseek', undefined, smallWindow(), 'single').planSynthesis('Typing', longRounds)).toBe('single');
+  });
+
+  test('by_round should summarize every round and synthesize from the summaries', async () => {
+    const { mock, calls } = recordingMock({ roundSummary: 'Both agents stress defects [R{round}-deepseek].' });
+    const synthesizer = new Synthesizer(mock, 'deepseek', undefined, undefined, 'by_round');
+
+    await synthesizer.synthesize('Typing', longRounds, undefined, [{ content: 'Focus on cost', afterRound: 2, timestamp: new Date() }]);
+
+    expect(calls.filter(c => c.options.role === 'summarizer').map(c => c.options.roundNumber)).toEqual([1, 2, 3]);
+    const prompt = calls.find(c => c.options.role === 'synthesizer')!.request.messages[1].content;
+    expect(prompt).toContain('--- Round 2 (summary) ---\nBoth agents stress defects [R2-deepseek].');
+    expect(prompt).toContain('--- User Intervention (after round 2) ---\nFocus on cost');
+    expect(prompt).not.toContain(filler);
+  });
+
+  test('by_participant should summarize each trajectory with only that participant\'s responses', async () => {
+    const { mock, calls } = recordingMock();
+    const synthesizer = new Synthesizer(mock, 'deepseek', undefined, undefined, 'by_participant');
+
+    await synthesizer.synthesizeStructured('Typing', longRounds);
+
+    const summaries = calls.filter(c => c.options.role === 'summarizer');
+    expect(summaries.map(c => c.options.participantId)).toEqual(['deepseek', 'gpt-5']);
+    expect(summaries[0].request.messages[1].content).toContain('=== TRAJECTORY OF DEEPSEEK ===');
+    expect(summaries[0].request.messages[1].content).not.toContain('[R1-gpt-5]');
+    // The structured answer fails to parse and falls back to prose without summarizing again
+    expect(summaries).toHaveLength(2);
+    expect(calls.filter(c => c.options.role === 'synthesizer')).toHaveLength(3);
+  });
+
+  test('a failed part summary should be replaced by cited key sentences', async () => {
+    const { mock, calls } = recordingMock({
+      failures: [{ role: 'summarizer', round: 1, kind: 'error', status: 400, message: 'Bad request' }]
+    });
+    const synthesizer = new Synthesizer(mock, 'deepseek', undefined, undefined, 'by_round');
+
+    await synthesizer.synthesize('Typing', longRounds);
+
+    const prompt = calls.find(c => c.options.role === 'synthesizer')!.request.messages[1].content;
+    expect(prompt).toMatch(/--- Round 1 \(summary\) ---\n- deepseek: Static typing catches defects before they reach production systems\. \[R1-deepseek\]/);
+    expect(prompt).toContain('--- Round 2 (summary) ---\nMock summary of round 2.');
+  });
+
+  test('the offline fallback should extract central sentences instead of truncating', async () => {
+    const rounds = [
+      round(1, {
+        deepseek: 'Static typing catches bugs before production. My cat likes sunny windows today.',
+        'gpt-5': 'Dynamic typing lets small teams iterate quickly. Static typing catches bugs early, though.'
+      }),
+      round(2, {
+        deepseek: 'I agree static typing catches bugs, and inference keeps prototypes fast.',
+        'gpt-5': 'Fair point: static typing catches bugs, so we recommend gradual typing for prototypes.'
+      })
+    ];
+    const mock = new ScriptedMockProvider({ failures: [{ role: 'synthesizer', kind: 'error', status: 400, message: 'Bad request' }] });
+
+    const answer = await new Synthesizer(mock, 'deepseek').synthesize('Typing', rounds);
+
+    expect(answer).toContain('[Note: Automated synthesis failed, providing an extractive summary]');
+    expect(answer).toContain('Final Positions:\n\ndeepseek: I agree static typing catches bugs, and inference keeps prototypes fast. [R2-deepseek]');
+    expect(answer).toContain('- deepseek: Static typing catches bugs before production. [R1-deepseek]');
+    expect(answer).not.toContain('sunny windows');
+    expect(answer).toContain('Synthesis Error: API request failed: 400');
+  });
+
+  test('splitSentences and extractKeySentences should work on Markdown responses', () => {
+    expect(splitSentences('## Summary\n- **Types** help. Tests too!\n1. Ship it')).toEqual(['Summary', 'Types help.', 'Tests too!', 'Ship it']);
+
+    // The sentence every response repeats is picked once
+    const sentences = extractKeySentences(longRounds, 3);
+    expect(sentences.filter(s => s.text.startsWith('Static typing catches defects'))).toHaveLength(1);
+    expect(sentences[0].ref).toBe('R1-deepseek');
+  });
+
+  test('validateDebateConfig should reject unknown synthesis strategies', () => {
+    const config: DebateConfig = { ...createDefaultConfig('Typing', ['deepseek', 'gpt-5']), synthesisStrategy: 'tree' as SynthesisStrategy };
+
+    expect(validateDebateConfig(config).errors.map(e => e.message))
+      .toEqual(['synthesisStrategy must be one of: auto, single, by_round, by_participant']);
+  });
+});
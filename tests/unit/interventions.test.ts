@@ -0,0 +1,76 @@
+/**
+ * Unit tests for user interventions in the debate timeline
+ */
+
+import { createDefaultConfig } from '../../src/debate/config';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { buildTimeline, DebateRound, DebateSessionManager } from '../../src/debate/session';
+import { formatDebateHistory } from '../../src/debate/formatter';
+import { CapturingProvider } from './helpers/capturing-provider';
+
+// Agents answer with their model name, the moderator never sees convergence
+const recordingProvider = () => new CapturingProvider((request, options) => options?.role === 'moderator'
+  ? JSON.stringify({ isConverged: false, confidenceScore: 0.2, reasoning: 'Still apart' })
+  : `${options?.role} ${request.model} ${options?.roundNumber ?? ''}`.trim());
+
+const round = (roundNumber: number): DebateRound => ({ roundNumber, responses: [] });
+
+describe('User interventions', () => {
+  test('buildTimeline should place interventions after the round they were given after', () => {
+    const at = (afterRound: number) => ({ content: `after ${afterRound}`, afterRound, timestamp: new Date() });
+    const timeline = buildTimeline([round(1), round(2)], [at(2), at(0), at(1)]);
+
+    expect(timeline.map(entry => entry.type === 'round' ? `R${entry.round.roundNumber}` : entry.intervention.content))
+      .toEqual(['after 0', 'R1', 'after 1', 'R2', 'after 2']);
+  });
+
+  test('continueDebate should record the instructions and run the requested number of rounds', async () => {
+    const provider = recordingProvider();
+    const orchestrator = new DebateOrchestrator(provider);
+    const config = { ...createDefaultConfig('Original topic', ['deepseek', 'gpt-5']), maxRounds: 1 };
+    const session = orchestrator.createSession(config);
+    await orchestrator.runDebate(session);
+    provider.calls = [];
+
+    const result = await orchestrator.continueDebate(session, 'What about security?', 2);
+
+    expect(result.totalRounds).toBe(3);
+    expect(session.config.topic).toBe('Original topic');
+    expect(session.interventions).toEqual([expect.objectContaining({ content: 'What about security?', afterRound: 1 })]);
+
+    const agentCall = provider.calls.find(call => call.options?.role === 'agent')!;
+    const contents = agentCall.request.messages.map(m => m.content);
+    expect(contents.filter(c => c.includes('Original topic'))).toHaveLength(1);
+    const interventionIndex = contents.indexOf('[User intervention]: What about security?');
+    expect(interventionIndex).toBeGreaterThan(contents.findIndex(c => c.includes('agent gpt-5 1')));
+    expect(contents[contents.length - 1]).toContain('The user has just intervened');
+
+    const moderatorPrompt = provider.calls.find(call => call.options?.role === 'moderator')!.request.messages[1].content;
+    expect(moderatorPrompt.indexOf('=== User Intervention ===\nWhat about security?'))
+      .toBeLessThan(moderatorPrompt.indexOf('=== Round 2 ==='));
+    const synthesisPrompt = provider.calls.find(call => call.options?.role === 'synthesizer')!.request.messages[1].content;
+    expect(synthesisPrompt).toContain('--- User Intervention ---\nWhat about security?');
+  });
+
+  test('continueDebate should reject a non-positive number of rounds', async () => {
+    const orchestrator = new DebateOrchestrator(recordingProvider());
+    const session = orchestrator.createSession(createDefaultConfig('Topic', ['deepseek', 'gpt-5']));
+
+    await expect(orchestrator.continueDebate(session, 'More', 0)).rejects.toThrow('additionalRounds must be an integer of at least 1');
+    expect(session.interventions).toEqual([]);
+  });
+
+  test('formatDebateHistory should render interventions inline', () => {
+    const session = DebateSessionManager.createSession(createDefaultConfig('Topic', ['deepseek', 'gpt-5']));
+    session.rounds.push(round(1));
+    DebateSessionManager.addIntervention(session, 'Focus on cost');
+    session.rounds.push(round(2));
+
+    const history = formatDebateHistory({ session, finalAnswer: 'Done', totalRounds: 2, convergenceAchieved: false });
+
+    const first = history.indexOf('--- ROUND 1 ---');
+    const intervention = history.indexOf('--- USER INTERVENTION ---\nFocus on cost');
+    expect(first).toBeLessThan(intervention);
+    expect(intervention).toBeLessThan(history.indexOf('--- ROUND 2 ---'));
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the scripted mock provider
+ */
+
+import { ScriptedMockProvider, MockScript } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { createDefaultConfig } from '../../src/debate/config';
+
+const request = (model: string) => ({ model, messages: [{ role: 'user' as const, content: 'topic' }] });
+
+describe('ScriptedMockProvider', () => {
+  test('should play agent lines per round and reuse the last one', async () => {
+    const provider = new ScriptedMockProvider({ agents: { deepseek: ['first from {model}', 'second in {round}'] } });
+
+    const contents = [];
+    for (const roundNumber of [1, 2, 3]) {
+      const response = await provider.chatCompletion(request('deepseek'), { role: 'agent', roundNumber });
+      contents.push(response.choices[0].message.content);
+    }
+
+    expect(contents).toEqual(['first from deepseek', 'second in 2', 'second in 3']);
+  });
+
+  test('should stream scripted content as deltas', async () => {
+    const provider = new ScriptedMockProvider({ defaultAgentResponse: 'one two three' });
+    const deltas: string[] = [];
+
+    await provider.chatCompletion(request('gpt-5'), { onDelta: delta => deltas.push(delta) });
+
+    expect(deltas.join('')).toBe('one two three');
+    expect(deltas.length).toBe(3);
+  });
+
+  test('should fail matching calls the scripted number of times', async () => {
+    const provider = new ScriptedMockProvider({
+      failures: [{ role: 'agent', model: 'gpt-5', round: 1, kind: 'error', status: 429, message: 'slow down', times: 2 }]
+    });
+
+    const call = () => provider.chatCompletion(request('gpt-5'), { role: 'agent', roundNumber: 1 });
+    await expect(call()).rejects.toThrow('API request failed: 429');
+    await expect(call()).rejects.toThrow('slow down');
+    await expect(call()).resolves.toBeDefined();
+  });
+
+  test('should drive a full debate including malformed moderator output', async () => {
+    const script: MockScript = {
+      moderator: [
+        'not json {',
+        { isConverged: true, confidenceScore: 0.95, reasoning: 'Agreement reached' }
+      ],
+      synthesizer: 'Scripted final answer'
+    };
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider(script));
+    const session = orchestrator.createSession(createDefaultConfig('Offline topic', ['deepseek', 'gpt-5']));
+
+    const result = await orchestrator.runDebate(session);
+
+    expect(result.totalRounds).toBe(2);
+    expect(result.session.rounds[0].convergenceCheck!.reasoning).toContain('Failed to parse moderator response');
+    expect(result.convergenceAchieved).toBe(true);
+    expect(result.finalAnswer).toBe('Scripted final answer');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for the model catalog
+ */
+
+import { ChatProvider, ChatRequest, ChatResponse, ModelMetadata, OpenAICompatibleProvider } from '../../src/debate/client';
+import { ProviderRegistry, OllamaProvider } from '../../src/debate/providers';
+import { ModelCatalog, STATIC_MODELS } from '../../src/debate/model-catalog';
+import { createDefaultConfig, validateDebateConfig } from '../../src/debate/config';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+
+class ListingProvider implements ChatProvider {
+  constructor(private readonly models: ModelMetadata[] | Error) {}
+
+  async chatCompletion(request: ChatRequest): Promise<ChatResponse> {
+    return {
+      id: 'x',
+      choices: [{ message: { role: 'assistant', content: `${request.model} answers` }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 1_000_000, completion_tokens: 0, total_tokens: 1_000_000 }
+    };
+  }
+
+  async listModels(): Promise<ModelMetadata[]> {
+    if (this.models instanceof Error) {
+      throw this.models;
+    }
+    return this.models;
+  }
+}
+
+describe('ModelCatalog', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should start from the static fallback', () => {
+    const catalog = new ModelCatalog();
+    expect(catalog.ids()).toEqual(STATIC_MODELS.map(model => model.id));
+    expect(catalog.has('ai-builder:deepseek')).toBe(true);
+  });
+
+  test('OpenAICompatibleProvider.listModels should map metadata and per-token prices', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: [
+          { id: 'gpt-x', context_length: 128000, top_provider: { max_completion_tokens: 4096 }, pricing: { prompt: '0.000002', completion: '0.000008' } },
+          { id: 'plain' }
+        ]
+      })
+    });
+
+    const models = await new OpenAICompatibleProvider({ baseUrl: 'https://example.test/v1', apiKey: 'k' }).listModels();
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('https://example.test/v1/models');
+    expect(init.method).toBe('GET');
+    expect(models[0]).toEqual({
+      id: 'gpt-x',
+      contextWindow: 128000,
+      maxOutputTokens: 4096,
+      pricing: { inputPerMillion: 2, outputPerMillion: 8 }
+    });
+    expect(models[1]).toEqual({ id: 'plain' });
+  });
+
+  test('refresh should prefix registry models and keep the fallback for failing providers', async () => {
+    (global.fetch as jest.Mock).mockRejectedValueOnce(new TypeError('fetch failed'));
+    const registry = new ProviderRegistry()
+      .register('ai-builder', new ListingProvider(new Error('unreachable')))
+      .register('openai', new ListingProvider([{ id: 'gpt-4o', contextWindow: 128000 }]))
+      .register('ollama', new OllamaProvider());
+
+    const catalog = new ModelCatalog();
+    expect(await catalog.refresh(registry)).toBe(1);
+
+    expect(catalog.get('openai:gpt-4o')).toEqual({ id: 'openai:gpt-4o', provider: 'openai', contextWindow: 128000 });
+    expect(catalog.has('deepseek')).toBe(true);
+    expect(catalog.hasProvider('ollama')).toBe(false);
+    expect(catalog.isStale(60_000)).toBe(false);
+  });
+
+  test('validateDebateConfig should check listed providers against the catalog', () => {
+    const catalog = new ModelCatalog([
+      { id: 'deepseek', provider: 'ai-builder' },
+      { id: 'brand-new', provider: 'ai-builder' },
+      { id: 'openai:gpt-4o', provider: 'openai' }
+    ]);
+    const providers = ['ai-builder', 'openai', 'ollama'];
+
+    const valid = createDefaultConfig('Catalog', ['brand-new', 'openai:gpt-4o', 'ollama:anything']);
+    expect(validateDebateConfig(valid, providers, catalog).isValid).toBe(true);
+
+    const invalid = validateDebateConfig(createDefaultConfig('Catalog', ['gpt-5', 'openai:gpt-2']), providers, catalog);
+    expect(invalid.errors[0].message).toContain('Invalid model identifiers: gpt-5, openai:gpt-2');
+    expect(invalid.errors[0].message).toContain('Available models: deepseek, brand-new');
+  });
+
+  test('validateDebateConfig should accept untagged Ollama models as their latest tag', () => {
+    const catalog = new ModelCatalog([
+      { id: 'deepseek', provider: 'ai-builder' },
+      { id: 'ollama:llama3:latest', provider: 'ollama' },
+      { id: 'ollama:qwen2:7b', provider: 'ollama' }
+    ]);
+    const providers = ['ai-builder', 'ollama'];
+
+    expect(catalog.get('ollama:llama3')?.id).toBe('ollama:llama3:latest');
+    const valid = createDefaultConfig('Catalog', ['ollama:llama3', 'ollama:llama3:latest', 'ollama:qwen2:7b']);
+    expect(validateDebateConfig(valid, providers, catalog).isValid).toBe(true);
+
+    const invalid = validateDebateConfig(createDefaultConfig('Catalog', ['ollama:qwen2', 'ollama:llama3:8b']), providers, catalog);
+    expect(invalid.errors[0].message).toContain('Invalid model identifiers: ollama:qwen2, ollama:llama3:8b');
+  });
+
+  test('the orchestrator should price calls from the catalog unless the config overrides it', async () => {
+    const catalog = new ModelCatalog([
+      { id: 'deepseek', provider: 'ai-builder', pricing: { inputPerMillion: 1, outputPerMillion: 0 } },
+      { id: 'gpt-5', provider: 'ai-builder', pricing: { inputPerMillion: 2, outputPerMillion: 0 } }
+    ]);
+    const orchestrator = new DebateOrchestrator(new ListingProvider([]), catalog);
+    const config = { ...createDefaultConfig('Prices', ['deepseek', 'gpt-5']), maxRounds: 1 };
+    config.pricing = { 'gpt-5': { inputPerMillion: 10, outputPerMillion: 0 } };
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    const agentCosts = result.session.usage!.filter(r => r.role === 'agent').map(r => [r.model, r.cost]);
+    expect(agentCosts).toEqual(expect.arrayContaining([['deepseek', 1], ['gpt-5', 10]]));
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the multi-judge moderator panel
+ */
+
+import { createDefaultConfig, validateDebateConfig, DebateConfig } from '../../src/debate/config';
+import { ModeratorPanel, describeJudgeSplit, JudgeAggregation } from '../../src/debate/moderator-panel';
+import { ScriptedMockProvider, MockScript } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { DebateRound } from '../../src/debate/session';
+import { formatDebateHistory } from '../../src/debate/formatter';
+
+const rounds: DebateRound[] = [{
+  roundNumber: 1,
+  responses: [
+    { model: 'deepseek', content: 'Tabs.', timestamp: new Date() },
+    { model: 'gpt-5', content: 'Tabs, mostly.', timestamp: new Date() }
+  ]
+}];
+
+const verdict = (isConverged: boolean, confidenceScore: number) => ({ isConverged, confidenceScore, reasoning: `${isConverged} at ${confidenceScore}` });
+
+// deepseek and gpt-5 find convergence, grok does not
+const split: MockScript = {
+  judges: {
+    deepseek: [verdict(true, 0.9)],
+    'gpt-5': [verdict(true, 0.7)],
+    'grok-4-fast': [verdict(false, 0.6)]
+  }
+};
+
+const assess = (aggregation: JudgeAggregation, script: MockScript = split, threshold = 0.8) =>
+  new ModeratorPanel(new ScriptedMockProvider(script), ['deepseek', 'gpt-5', 'grok-4-fast'], aggregation)
+    .assess('Tabs or spaces', rounds, threshold);
+
+describe('Moderator panel', () => {
+  test('majority should follow more than half of the judges after each applies the threshold', async () => {
+    const { assessment } = await assess('majority');
+
+    // gpt-5 is below the threshold, so only deepseek votes converged
+    expect(assessment.isConverged).toBe(false);
+    expect(assessment.reasoning).toBe('1 of 3 judges found convergence (majority)');
+    expect(assessment.judges!.map(j => [j.model, j.isConverged, j.reasoning])).toEqual([
+      ['deepseek', true, 'true at 0.9'],
+      ['gpt-5', false, 'true at 0.7'],
+      ['grok-4-fast', false, 'false at 0.6']
+    ]);
+
+    const lenient = await assess('majority', split, 0.5);
+    expect(lenient.assessment.isConverged).toBe(true);
+    expect(lenient.assessment.confidenceScore).toBeCloseTo(0.8);
+  });
+
+  test('unanimous should need every judge and mean_confidence the mean convergence score', async () => {
+    expect((await assess('unanimous', split, 0.5)).assessment.isConverged).toBe(false);
+
+    // Scores 0.9, 0.7 and 1 - 0.6: the mean of 0.667 passes 0.6 but not 0.8
+    const mean = await assess('mean_confidence', split, 0.6);
+    expect(mean.assessment.isConverged).toBe(true);
+    expect(mean.assessment.confidenceScore).toBeCloseTo(2 / 3);
+    expect((await assess('mean_confidence')).assessment.isConverged).toBe(false);
+  });
+
+  test('judges without a usable verdict should abstain', async () => {
+    const { assessment, diagnostics } = await assess('unanimous', {
+      judges: { deepseek: [verdict(true, 0.9)], 'gpt-5': [verdict(true, 0.95)], 'grok-4-fast': ['not json'] }
+    });
+
+    expect(assessment.isConverged).toBe(true);
+    expect(assessment.judges![2]).toMatchObject({ model: 'grok-4-fast', failed: true });
+    expect(diagnostics.map(d => d.model)).toEqual(['grok-4-fast', 'grok-4-fast']);
+  });
+
+  test('steering should take the guidance of the first judge that answered when the first one fails', async () => {
+    const steer = (questions: string[]) => ({ ...verdict(false, 0.8), disagreements: ['Tab width'], questions });
+    const panel = new ModeratorPanel(new ScriptedMockProvider({
+      judges: { deepseek: ['not json'], 'gpt-5': [steer(['Does tab width matter?'])], 'grok-4-fast': [steer(['Ignored'])] }
+    }), ['deepseek', 'gpt-5', 'grok-4-fast']);
+
+    const { assessment, guidance } = await panel.assess('Tabs or spaces', rounds, 0.8, undefined, [], true);
+
+    expect(assessment.judges![0]).toMatchObject({ model: 'deepseek', failed: true });
+    expect(guidance).toEqual({ disagreements: ['Tab width'], questions: ['Does tab width matter?'] });
+  });
+
+  test('describeJudgeSplit should name the dissenting judges', () => {
+    const judge = (model: string, isConverged: boolean) => ({ model, isConverged, confidenceScore: 0.9, reasoning: '' });
+
+    expect(describeJudgeSplit([judge('deepseek', true), judge('gpt-5', false), judge('grok-4-fast', true)]))
+      .toBe('2 of 3 judges found convergence (gpt-5 did not)');
+    expect(describeJudgeSplit([judge('deepseek', true), judge('gpt-5', true)])).toBeUndefined();
+    expect(describeJudgeSplit(undefined)).toBeUndefined();
+  });
+
+  test('the orchestrator should ask every judge in parallel and keep their verdicts on the round', async () => {
+    const mock = new ScriptedMockProvider({ ...split, synthesizer: 'Tabs.' });
+    const orchestrator = new DebateOrchestrator(mock);
+    const config: DebateConfig = {
+      ...createDefaultConfig('Tabs or spaces', ['deepseek', 'gpt-5']),
+      maxRounds: 1,
+      convergenceThreshold: 0.5,
+      moderatorModels: ['deepseek', 'gpt-5', 'grok-4-fast']
+    };
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    expect(result.convergenceAchieved).toBe(true);
+    const moderatorCalls = result.session.usage!.filter(r => r.role === 'moderator').map(r => r.model);
+    expect(moderatorCalls.sort()).toEqual(['deepseek', 'gpt-5', 'grok-4-fast']);
+    expect(result.session.rounds[0].convergenceCheck!.judges).toHaveLength(3);
+    expect(formatDebateHistory(result)).toContain('Judges disagreed: 2 of 3 judges found convergence (grok-4-fast did not)');
+  });
+
+  test('validateDebateConfig should check the judges and the aggregation rule', () => {
+    const base = createDefaultConfig('Topic', ['deepseek', 'gpt-5']);
+    const errors = validateDebateConfig({
+      ...base,
+      moderatorModels: ['deepseek', 'unknown-model'],
+      judgeAggregation: 'plurality' as JudgeAggregation
+    }).errors.map(e => e.message);
+
+    expect(errors).toEqual([
+      expect.stringContaining('Invalid moderator model: unknown-model'),
+      'judgeAggregation must be one of: majority, unanimous, mean_confidence'
+    ]);
+    expect(validateDebateConfig({ ...base, moderatorModels: [] }).errors[0].message).toBe('moderatorModels must be a non-empty array');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for moderator steering between rounds
+ */
+
+import { createDefaultConfig, validateDebateConfig, DebateConfig } from '../../src/debate/config';
+import { Moderator } from '../../src/debate/moderator';
+import { ScriptedMockProvider, MockScript } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { DebateRound } from '../../src/debate/session';
+import { formatDebateHistory } from '../../src/debate/formatter';
+import { CapturingProvider } from './helpers/capturing-provider';
+
+// Plays back a mock script and remembers what it was asked
+const capturingMock = (script: MockScript) => {
+  const mock = new ScriptedMockProvider(script);
+  return new CapturingProvider((request, options) => mock.chatCompletion(request, options));
+};
+
+const rounds: DebateRound[] = [{
+  roundNumber: 1,
+  responses: [
+    { model: 'deepseek', content: 'Tabs.', timestamp: new Date() },
+    { model: 'gpt-5', content: 'Spaces.', timestamp: new Date() }
+  ]
+}];
+
+const notConverged = { isConverged: false, confidenceScore: 0.3, reasoning: 'Still apart' };
+
+describe('Moderator steering', () => {
+  test('assess should return the verdict with at most three questions when steering', async () => {
+    const provider = capturingMock({
+      moderator: [{
+        ...notConverged,
+        disagreements: ['Readability', ' '],
+        questions: ['Which is easier to read?', ' ', 'What do linters enforce?', 'Who decides?', 'Why?']
+      }]
+    });
+    const moderator = new Moderator(provider, 'deepseek');
+
+    const verdict = await moderator.assess('Tabs or spaces', rounds, 0.8, undefined, [], true);
+
+    expect(verdict.assessment).toEqual(notConverged);
+    expect(verdict.guidance).toEqual({
+      disagreements: ['Readability'],
+      questions: ['Which is easier to read?', 'What do linters enforce?', 'Who decides?']
+    });
+    expect(provider.calls[0].request.messages[1].content).toContain('"questions": string[]');
+  });
+
+  test('assess should give no guidance when the moderator asks no questions', async () => {
+    const moderator = new Moderator(capturingMock({ moderator: [notConverged] }), 'deepseek');
+
+    const verdict = await moderator.assess('Tabs or spaces', rounds, 0.8, undefined, [], true);
+
+    expect(verdict.assessment.reasoning).toBe('Still apart');
+    expect(verdict.guidance).toBeUndefined();
+  });
+
+  test('the orchestrator should store guidance and show it to the agents of the next round', async () => {
+    const provider = capturingMock({
+      moderator: [
+        { ...notConverged, disagreements: ['Readability'], questions: ['Which is easier to read?'] },
+        { ...notConverged, questions: ['Never used'] }
+      ]
+    });
+    const orchestrator = new DebateOrchestrator(provider);
+    const config: DebateConfig = {
+      ...createDefaultConfig('Tabs or spaces', ['deepseek', 'gpt-5']),
+      maxRounds: 2,
+      moderatorSteering: true
+    };
+    const evaluated: [number, boolean][] = [];
+    orchestrator.events.on('convergence_evaluated', event => evaluated.push([event.round.roundNumber, event.guidance !== undefined]));
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    expect(evaluated).toEqual([[1, true], [2, false]]);
+    expect(result.session.rounds[0].guidance).toEqual({ disagreements: ['Readability'], questions: ['Which is easier to read?'] });
+    // No round follows the last one, so its guidance is dropped
+    expect(result.session.rounds[1].guidance).toBeUndefined();
+
+    const secondRound = provider.calls.filter(call => call.options?.role === 'agent' && call.options.roundNumber === 2);
+    const messages = secondRound[0].request.messages;
+    expect(messages).toContainEqual({
+      role: 'user',
+      content: '[Moderator guidance after round 1]:\nMain points of disagreement:\n- Readability\nQuestions for the next round:\n1. Which is easier to read?'
+    });
+    expect(messages[messages.length - 1].content).toContain("Address the moderator's questions for this round.");
+
+    expect(formatDebateHistory(result)).toContain('--- MODERATOR GUIDANCE ---\nMain points of disagreement:');
+  });
+
+  test('without steering the moderator should not be asked for guidance', async () => {
+    const provider = capturingMock({ moderator: [{ ...notConverged, questions: ['Ignored'] }] });
+    const orchestrator = new DebateOrchestrator(provider);
+    const config = { ...createDefaultConfig('Tabs or spaces', ['deepseek', 'gpt-5']), maxRounds: 2 };
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    expect(result.session.rounds.every(round => round.guidance === undefined)).toBe(true);
+    const moderatorPrompt = provider.calls.find(call => call.options?.role === 'moderator')!.request.messages[1].content;
+    expect(moderatorPrompt).not.toContain('questions');
+  });
+
+  test('validateDebateConfig should reject a non-boolean moderatorSteering', () => {
+    const config = { ...createDefaultConfig('Topic', ['deepseek', 'gpt-5']), moderatorSteering: 'yes' as unknown as boolean };
+    expect(validateDebateConfig(config).errors).toEqual([
+      { field: 'moderatorSteering', message: 'moderatorSteering must be a boolean' }
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for per-participant configuration
+ */
+
+import { createDefaultConfig, resolveParticipants, validateDebateConfig, ParticipantConfig } from '../../src/debate/config';
+import { RoundManager } from '../../src/debate/round-manager';
+import { DebateSessionManager } from '../../src/debate/session';
+import { ScriptedMockProvider } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { formatDebateHistory } from '../../src/debate/formatter';
+import { CapturingProvider } from './helpers/capturing-provider';
+
+const participants: ParticipantConfig[] = [
+  { id: 'optimist', name: 'The Optimist', model: 'deepseek', persona: 'You look for opportunities.', temperature: 1.1 },
+  { id: 'skeptic', name: 'The Skeptic', model: 'deepseek', systemPrompt: 'Doubt everything.', maxTokens: 500 }
+];
+
+describe('Participants', () => {
+  test('resolveParticipants should number repeated models', () => {
+    const resolved = resolveParticipants(createDefaultConfig('Topic', ['deepseek', 'deepseek', 'gpt-5']));
+    expect(resolved.map(p => p.id)).toEqual(['deepseek', 'deepseek#2', 'gpt-5']);
+    expect(resolved.map(p => p.model)).toEqual(['deepseek', 'deepseek', 'gpt-5']);
+  });
+
+  test('validateDebateConfig should check participants instead of models', () => {
+    const config = { ...createDefaultConfig('Topic', []), participants };
+    expect(validateDebateConfig(config).isValid).toBe(true);
+
+    const invalid = {
+      ...config,
+      participants: [
+        { id: 'a', name: 'A', model: 'deepseek', temperature: 3 },
+        { id: 'a', name: '', model: 'unknown-model', maxTokens: 1.5 }
+      ]
+    };
+    const messages = validateDebateConfig(invalid).errors.map(e => e.message);
+    expect(messages).toEqual([
+      'participants[0].temperature must be between 0 and 2 inclusive',
+      'Duplicate participant id: a',
+      'participants[1].name must be a non-empty string',
+      expect.stringContaining('Invalid model for participants[1]: unknown-model'),
+      'participants[1].maxTokens must be an integer greater than 0'
+    ]);
+  });
+
+  test('validateDebateConfig should reject participant ids that cannot be cited', () => {
+    const withIds = (...ids: string[]) => ({
+      ...createDefaultConfig('Topic', []),
+      participants: ids.map(id => ({ id, name: id, model: 'deepseek' }))
+    });
+
+    expect(validateDebateConfig(withIds('the-skeptic', 'ollama:llama3#2', 'openrouter:meta/llama-3.1')).isValid).toBe(true);
+    expect(validateDebateConfig(withIds('the skeptic', 'optimist[1]')).errors.map(e => e.message)).toEqual([
+      'participants[0].id may only contain letters, digits and _ . : # / -',
+      'participants[1].id may only contain letters, digits and _ . : # / -'
+    ]);
+  });
+
+  test('RoundManager should apply personas, prompts and sampling settings per participant', async () => {
+    const provider = new CapturingProvider((_request, _options, callNumber) => `answer ${callNumber}`);
+    const manager = new RoundManager(provider);
+    const session = DebateSessionManager.createSession({ ...createDefaultConfig('Topic', ['deepseek', 'deepseek']), participants });
+    session.rounds.push({
+      roundNumber: 1,
+      responses: [{ model: 'deepseek', participantId: 'optimist', participantName: 'The Optimist', content: 'Go!', timestamp: new Date() }]
+    });
+
+    const round = await manager.executeRound(session);
+
+    const [optimist, skeptic] = provider.calls;
+    expect(optimist.request.messages[0].content).toContain('You are The Optimist. You look for opportunities.');
+    expect(optimist.request).toMatchObject({ temperature: 1.1, max_tokens: 8000 });
+    expect(optimist.options?.participantId).toBe('optimist');
+    expect(skeptic.request.messages[0].content).toBe('Doubt everything.');
+    expect(skeptic.request).toMatchObject({ temperature: 0.7, max_tokens: 500 });
+    expect(skeptic.request.messages).toContainEqual({ role: 'user', content: '[Agent The Optimist]: Go!' });
+    expect(optimist.request.messages).toContainEqual({ role: 'assistant', content: 'Go!' });
+    expect(round.responses.map(r => [r.participantId, r.participantName])).toEqual([
+      ['optimist', 'The Optimist'],
+      ['skeptic', 'The Skeptic']
+    ]);
+  });
+
+  test('a debate between participants of the same model should keep their responses apart', async () => {
+    const mock = new ScriptedMockProvider({
+      agents: { optimist: ['Yes, because {round}.'], skeptic: ['No.'] },
+      moderator: [{ isConverged: true, confidenceScore: 0.9, reasoning: 'Done' }]
+    });
+    const orchestrator = new DebateOrchestrator(mock);
+    const config = { ...createDefaultConfig('Topic', ['deepseek', 'deepseek']), participants };
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    expect(result.session.rounds[0].responses.map(r => r.content)).toEqual(['Yes, because 1.', 'No.']);
+    const history = formatDebateHistory(result);
+    expect(history).toContain('Participants: The Optimist (deepseek), The Skeptic (deepseek)');
+    expect(history).toContain('[THE SKEPTIC] (deepseek)');
+  });
+});
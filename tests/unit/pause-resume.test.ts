@@ -0,0 +1,104 @@
+/**
+ * Unit tests for pausing, resuming and stepping through debates
+ */
+
+import { createDefaultConfig, validateDebateConfig, DebateConfig, RunMode } from '../../src/debate/config';
+import { ScriptedMockProvider } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+
+const config = (overrides: Partial<DebateConfig> = {}): DebateConfig => ({
+  ...createDefaultConfig('Tabs or spaces', ['deepseek', 'gpt-5']),
+  maxRounds: 3,
+  ...overrides
+});
+
+// Records the events that tell where a debate stopped
+const observe = (orchestrator: DebateOrchestrator) => {
+  const types: string[] = [];
+  orchestrator.events.onAny(event => {
+    if (['round_completed', 'paused', 'synthesis_started', 'completed'].includes(event.type)) {
+      types.push(event.type === 'paused' ? `paused:${event.completedRounds}` : event.type);
+    }
+  });
+  return types;
+};
+
+describe('Pause, resume and step', () => {
+  test('a pause request should stop the debate after the current round and resume should finish it', async () => {
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider());
+    const types = observe(orchestrator);
+    const session = orchestrator.createSession(config());
+    orchestrator.events.on('agent_started', () => orchestrator.pause(session));
+
+    const paused = await orchestrator.runDebate(session);
+
+    expect(paused.session.status).toBe('paused');
+    expect(paused.finalAnswer).toBe('');
+    // The paused round was completed and checked for convergence
+    expect(session.rounds).toHaveLength(1);
+    expect(session.rounds[0].convergenceCheck).toBeDefined();
+    expect(types).toEqual(['round_completed', 'paused:1']);
+
+    const resumed = await new DebateOrchestrator(new ScriptedMockProvider()).resume(session);
+
+    expect(resumed.session.status).toBe('completed');
+    expect(resumed.totalRounds).toBe(3);
+    expect(session.rounds.map(round => round.roundNumber)).toEqual([1, 2, 3]);
+  });
+
+  test('step should run one round at a time and the last round should go on to the answer', async () => {
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider());
+    const types = observe(orchestrator);
+    const session = orchestrator.createSession(config({ maxRounds: 2 }));
+
+    expect((await orchestrator.step(session)).session.status).toBe('paused');
+    expect((await orchestrator.step(session)).session.status).toBe('completed');
+
+    expect(types).toEqual(['round_completed', 'paused:1', 'round_completed', 'synthesis_started', 'completed']);
+    expect(session.finalAnswer).toBeTruthy();
+  });
+
+  test('manual run mode should pause after every round until the debate ends', async () => {
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider());
+    const types = observe(orchestrator);
+    const session = orchestrator.createSession(config({ runMode: 'manual' }));
+
+    let result = await orchestrator.runDebate(session);
+    while (result.session.status === 'paused') {
+      result = await orchestrator.resume(session);
+    }
+
+    expect(types.filter(type => type.startsWith('paused'))).toEqual(['paused:1', 'paused:2']);
+    expect(result.session.status).toBe('completed');
+  });
+
+  test('a converging round should end the debate instead of pausing', async () => {
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider({
+      moderator: [{ isConverged: true, confidenceScore: 0.9, reasoning: 'Agreed' }]
+    }));
+    const session = orchestrator.createSession(config({ runMode: 'manual' }));
+
+    const result = await orchestrator.runDebate(session);
+
+    expect(result.session.status).toBe('completed');
+    expect(result.convergenceAchieved).toBe(true);
+  });
+
+  test('pause, resume and step should refuse debates in the wrong state', async () => {
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider());
+    const session = orchestrator.createSession(config({ maxRounds: 1 }));
+
+    expect(orchestrator.pause(session)).toBe(false);
+    await expect(orchestrator.resume(session)).rejects.toThrow('Only a paused debate can be resumed (status: pending)');
+
+    await orchestrator.runDebate(session);
+
+    await expect(orchestrator.step(session)).rejects.toThrow('Only a paused or pending debate can be stepped (status: completed)');
+  });
+
+  test('validateDebateConfig should reject unknown run modes', () => {
+    const invalid = config({ runMode: 'later' as RunMode });
+
+    expect(validateDebateConfig(invalid).errors.map(e => e.message)).toEqual(['runMode must be one of: auto, manual']);
+  });
+});
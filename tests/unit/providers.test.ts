@@ -0,0 +1,131 @@
+/**
+ * Unit tests for provider adapters and the provider registry
+ */
+
+import {
+  ProviderRegistry,
+  AnthropicProvider,
+  OllamaProvider,
+  parseModelId,
+  DEFAULT_PROVIDER
+} from '../../src/debate/providers';
+import { validateDebateConfig } from '../../src/debate/config';
+import { CapturingProvider } from './helpers/capturing-provider';
+
+describe('parseModelId', () => {
+  test('should use the default provider for unprefixed identifiers', () => {
+    expect(parseModelId('deepseek')).toEqual({ provider: DEFAULT_PROVIDER, model: 'deepseek' });
+  });
+
+  test('should split on the first colon only', () => {
+    expect(parseModelId('ollama:llama3:8b')).toEqual({ provider: 'ollama', model: 'llama3:8b' });
+  });
+});
+
+describe('ProviderRegistry', () => {
+  test('should route requests by prefix and strip it from the model name', async () => {
+    const defaultProvider = new CapturingProvider('from default');
+    const ollama = new CapturingProvider('from ollama');
+    const registry = new ProviderRegistry()
+      .register(DEFAULT_PROVIDER, defaultProvider)
+      .register('ollama', ollama);
+
+    const local = await registry.chatCompletion({ model: 'ollama:llama3', messages: [] });
+    const remote = await registry.chatCompletion({ model: 'deepseek', messages: [] });
+
+    expect(local.choices[0].message.content).toBe('from ollama');
+    expect(remote.choices[0].message.content).toBe('from default');
+    expect(ollama.calls[0].request.model).toBe('llama3');
+    expect(defaultProvider.calls[0].request.model).toBe('deepseek');
+  });
+
+  test('should reject unknown providers', async () => {
+    const registry = new ProviderRegistry();
+    await expect(registry.chatCompletion({ model: 'nope:model', messages: [] }))
+      .rejects.toThrow('No provider registered for "nope"');
+  });
+
+  test('should drive config validation', () => {
+    const registry = new ProviderRegistry()
+      .register(DEFAULT_PROVIDER, new CapturingProvider('from default'))
+      .register('ollama', new CapturingProvider('from ollama'));
+
+    const config = {
+      topic: 'Mixed providers',
+      models: ['deepseek', 'ollama:llama3'],
+      maxRounds: 2,
+      convergenceThreshold: 0.8,
+      moderatorModel: 'deepseek',
+      synthesizerModel: 'ollama:llama3'
+    };
+
+    expect(validateDebateConfig(config, registry.getProviderNames()).isValid).toBe(true);
+
+    const withoutOllama = validateDebateConfig(config);
+    expect(withoutOllama.isValid).toBe(false);
+    expect(withoutOllama.errors.map(e => e.field)).toEqual(['models', 'synthesizerModel']);
+  });
+});
+
+describe('Provider adapters', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = jest.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('AnthropicProvider should map to and from the messages API', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        id: 'msg_1',
+        content: [{ type: 'text', text: 'Hello' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 12, output_tokens: 3 }
+      })
+    });
+
+    const provider = new AnthropicProvider({ apiKey: 'key' });
+    const response = await provider.chatCompletion({
+      model: 'claude-test',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Topic' },
+        { role: 'assistant', content: 'A' },
+        { role: 'assistant', content: 'B' }
+      ],
+      temperature: 0.5
+    });
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers['x-api-key']).toBe('key');
+    expect(body.system).toBe('Be brief.');
+    expect(body.max_tokens).toBe(4096);
+    expect(body.messages).toEqual([
+      { role: 'user', content: 'Topic' },
+      { role: 'assistant', content: 'A\n\nB' }
+    ]);
+
+    expect(response.choices[0].message).toEqual({ role: 'assistant', content: 'Hello' });
+    expect(response.usage).toEqual({ prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 });
+  });
+
+  test('OllamaProvider should call the local OpenAI-compatible endpoint without auth', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 'x', choices: [], usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 } })
+    });
+
+    await new OllamaProvider().chatCompletion({ model: 'llama3', messages: [] });
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers['Authorization']).toBeUndefined();
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for the ratification of the final answer
+ */
+
+import { ChatCallOptions, ChatRequest } from '../../src/debate/client';
+import { createDefaultConfig, validateDebateConfig, DebateConfig } from '../../src/debate/config';
+import { ScriptedMockProvider, MockScript } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { describeRatification } from '../../src/debate/ratification';
+import { Ratification } from '../../src/debate/session';
+import { describeSchema, validateAgainstSchema } from '../../src/debate/structured-output';
+import { formatDebateHistory } from '../../src/debate/formatter';
+
+// Records every call, optionally failing some of them
+const recordingMock = (script: MockScript, fail: (options: ChatCallOptions, previous: ChatCallOptions[]) => boolean = () => false) => {
+  const mock = new ScriptedMockProvider(script);
+  const calls: { request: ChatRequest; options: ChatCallOptions }[] = [];
+  const chatCompletion = mock.chatCompletion.bind(mock);
+  mock.chatCompletion = async (request, options = {}) => {
+    const previous = calls.map(call => call.options);
+    calls.push({ request, options });
+    if (fail(options, previous)) {
+      throw new Error('Revision unavailable');
+    }
+    return chatCompletion(request, options);
+  };
+  return { mock, calls };
+};
+
+const ratifiedConfig = (): DebateConfig => ({
+  ...createDefaultConfig('Static typing', ['deepseek', 'gpt-5']),
+  maxRounds: 1,
+  ratification: true
+});
+
+describe('Ratification', () => {
+  test('string fields limited to values should be described and validated', () => {
+    const schema = { vote: { type: 'string' as const, values: ['approve', 'object'] } };
+
+    expect(describeSchema(schema)).toBe('{"vote": "approve" | "object"}');
+    expect(validateAgainstSchema({ vote: 'maybe' }, schema)).toEqual(['vote must be one of: approve, object']);
+    expect(validateAgainstSchema({ vote: 'object' }, schema)).toEqual([]);
+  });
+
+  test('an objection should be recorded and the answer revised once with its corrections', async () => {
+    const { mock, calls } = recordingMock({
+      synthesizer: 'Both agents favour static typing.',
+      ballots: {
+        'gpt-5': { vote: 'object', corrections: ['gpt-5 only favours typing for large codebases'], reasoning: 'Overstates my position' }
+      }
+    });
+    const orchestrator = new DebateOrchestrator(mock);
+    const ratifications: Ratification[] = [];
+    orchestrator.events.on('ratification_completed', event => ratifications.push(event.ratification));
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(ratifiedConfig()));
+
+    const ratification = result.session.ratification!;
+    expect(ratifications).toEqual([ratification]);
+    expect(ratification.ballots.map(ballot => [ballot.participantId, ballot.vote])).toEqual([['deepseek', 'approve'], ['gpt-5', 'object']]);
+    expect(ratification.originalAnswer).toBe('Both agents favour static typing.');
+    expect(describeRatification(ratification)).toBe('Ratified by 1/2 agents');
+
+    // Each participant reviewed the answer next to its own final position
+    const ballotCall = calls.find(call => call.options.role === 'ratifier' && call.options.participantId === 'gpt-5')!;
+    expect(ballotCall.request.model).toBe('gpt-5');
+    expect(ballotCall.request.messages[1].content).toContain('=== YOUR FINAL POSITION ===\n\n[R1-gpt-5]\ngpt-5 argues its position for round 1.');
+    expect(ballotCall.request.messages[1].content).toContain('=== SYNTHESIZED FINAL ANSWER ===\n\nBoth agents favour static typing.');
+
+    const synthesizerCalls = calls.filter(call => call.options.role === 'synthesizer');
+    expect(synthesizerCalls).toHaveLength(2);
+    expect(synthesizerCalls[1].request.messages[1].content)
+      .toContain('gpt-5 objects: Overstates my position\n- gpt-5 only favours typing for large codebases');
+    expect(synthesizerCalls[1].request.messages[1].content).not.toContain('deepseek approves');
+
+    const history = formatDebateHistory(result);
+    expect(history).toContain('--- RATIFICATION ---\nRatified by 1/2 agents\n  deepseek: approve - Mock ballot of deepseek\n  gpt-5: object - Overstates my position\n    - gpt-5 only favours typing for large codebases');
+    expect(history).toContain('the answer as voted on was:\nBoth agents favour static typing.');
+  });
+
+  test('a unanimous approval should leave the answer as it is', async () => {
+    const { mock, calls } = recordingMock({ synthesizer: 'Both agents favour static typing.' });
+    const orchestrator = new DebateOrchestrator(mock);
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(ratifiedConfig()));
+
+    expect(describeRatification(result.session.ratification!)).toBe('Ratified by 2/2 agents');
+    expect(result.session.ratification!.originalAnswer).toBeUndefined();
+    expect(calls.filter(call => call.options.role === 'synthesizer')).toHaveLength(1);
+    expect(result.finalAnswer).toBe('Both agents favour static typing.');
+  });
+
+  test('an unusable ballot should abstain and a failed revision should keep the answer voted on', async () => {
+    const { mock } = recordingMock(
+      {
+        synthesizer: 'Both agents favour static typing.',
+        ballots: {
+          deepseek: 'I mostly agree.',
+          'gpt-5': { vote: 'approve_with_edits', corrections: ['Mention gradual typing'], reasoning: 'Almost right' }
+        }
+      },
+      (options, previous) => options.role === 'synthesizer' && previous.some(earlier => earlier.role === 'synthesizer')
+    );
+    const orchestrator = new DebateOrchestrator(mock);
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(ratifiedConfig()));
+
+    const ratification = result.session.ratification!;
+    expect(ratification.ballots[0].vote).toBeUndefined();
+    expect(ratification.ballots[0].error).toContain('No JSON object found in response');
+    expect(ratification.diagnostics!.map(d => [d.role, d.model, d.stage])).toEqual([['ratifier', 'deepseek', 'initial'], ['ratifier', 'deepseek', 'repair']]);
+    expect(ratification.revisionError).toBe('Revision unavailable');
+    expect(result.finalAnswer).toBe('Both agents favour static typing.');
+    expect(describeRatification(ratification)).toBe('Ratified by 1/2 agents');
+    expect(formatDebateHistory(result)).toContain('deepseek: abstained - ');
+  });
+
+  test('a structured synthesis should be revised as the object', async () => {
+    const synthesis = {
+      executiveSummary: 'Static typing pays off.',
+      consensus: ['Types catch bugs'],
+      disagreements: [],
+      minorityPositions: [],
+      nextSteps: [],
+      confidence: 0.8
+    };
+    const { mock, calls } = recordingMock({
+      synthesizer: synthesis,
+      ballots: { deepseek: { vote: 'approve_with_edits', corrections: ['Add that inference keeps prototypes fast'], reasoning: 'Incomplete' } }
+    });
+    const orchestrator = new DebateOrchestrator(mock);
+
+    const result = await orchestrator.runDebate(orchestrator.createSession({ ...ratifiedConfig(), structuredSynthesis: true }));
+
+    const revision = calls.filter(call => call.options.role === 'synthesizer')[1].request;
+    expect(revision.messages[1].content).toContain('=== FINAL ANSWER ===\n\n{\n  "executiveSummary": "Static typing pays off."');
+    expect(result.synthesis).toEqual(synthesis);
+    expect(result.session.ratification!.originalAnswer).toContain('## Executive Summary');
+  });
+
+  test('continuing a debate should clear the previous ratification', async () => {
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider());
+    const session = orchestrator.createSession({ ...ratifiedConfig(), ratification: false });
+    session.ratification = { ballots: [] };
+
+    await orchestrator.continueDebate(session, '', 1);
+
+    expect(session.ratification).toBeUndefined();
+  });
+
+  test('validateDebateConfig should reject a non-boolean ratification', () => {
+    const config = { ...ratifiedConfig(), ratification: 'yes' as unknown as boolean };
+
+    expect(validateDebateConfig(config).errors.map(e => e.message)).toEqual(['ratification must be a boolean']);
+  });
+});
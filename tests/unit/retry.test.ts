@@ -0,0 +1,171 @@
+/**
+ * Unit tests for typed provider errors and the retry policy
+ */
+
+import { AIBuilderClient } from '../../src/debate/client';
+import {
+  AuthenticationError,
+  ContentFilteredError,
+  NetworkError,
+  ProviderError,
+  RateLimitError,
+  ServerError,
+  errorFromResponse,
+  parseRetryAfter
+} from '../../src/debate/errors';
+import { computeRetryDelay, resolveRetryPolicy, withRetry } from '../../src/debate/retry';
+import { Moderator } from '../../src/debate/moderator';
+import { RoundManager } from '../../src/debate/round-manager';
+import { DebateSessionManager } from '../../src/debate/session';
+import { createDefaultConfig, validateDebateConfig } from '../../src/debate/config';
+import { CapturingProvider } from './helpers/capturing-provider';
+
+const fastPolicy = resolveRetryPolicy({ baseDelayMs: 1, jitter: 0 });
+
+// Fails with the given errors in order, then answers
+const flakyProvider = (failures: Error[], content = 'ok') =>
+  new CapturingProvider((_request, _options, callNumber) => {
+    const failure = failures[callNumber - 1];
+    if (failure) {
+      throw failure;
+    }
+    return content;
+  });
+
+describe('Provider errors', () => {
+  test('errorFromResponse should classify by status', () => {
+    expect(errorFromResponse(401, 'Unauthorized', '')).toBeInstanceOf(AuthenticationError);
+    expect(errorFromResponse(429, 'Too Many Requests', '', 5000)).toMatchObject({ status: 429, retryAfterMs: 5000 });
+    expect(errorFromResponse(429, 'Too Many Requests', '')).toBeInstanceOf(RateLimitError);
+    expect(errorFromResponse(503, 'Service Unavailable', '')).toBeInstanceOf(ServerError);
+    expect(errorFromResponse(400, 'Bad Request', '{"code":"content_filter"}')).toBeInstanceOf(ContentFilteredError);
+
+    const badRequest = errorFromResponse(400, 'Bad Request', 'nope');
+    expect(badRequest.constructor).toBe(ProviderError);
+    expect(badRequest.message).toBe('API request failed: 400 Bad Request - nope');
+  });
+
+  test('parseRetryAfter should accept seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10_000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+
+  describe('AIBuilderClient', () => {
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      global.fetch = jest.fn();
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    test('should report Retry-After on rate limits', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers({ 'retry-after': '3' }),
+        text: async () => 'slow down'
+      });
+
+      const error = await new AIBuilderClient('token')
+        .chatCompletion({ model: 'deepseek', messages: [] })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfterMs).toBe(3000);
+    });
+
+    test('should raise NetworkError when the host is unreachable', async () => {
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      await expect(new AIBuilderClient('token').chatCompletion({ model: 'deepseek', messages: [] }))
+        .rejects.toBeInstanceOf(NetworkError);
+    });
+
+    test('should raise ContentFilteredError for filtered completions', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          id: 'x',
+          choices: [{ message: { role: 'assistant', content: '' }, finish_reason: 'content_filter' }],
+          usage: { prompt_tokens: 1, completion_tokens: 0, total_tokens: 1 }
+        })
+      });
+
+      await expect(new AIBuilderClient('token').chatCompletion({ model: 'deepseek', messages: [] }))
+        .rejects.toBeInstanceOf(ContentFilteredError);
+    });
+  });
+});
+
+describe('Retry policy', () => {
+  test('computeRetryDelay should back off exponentially with jitter and honor Retry-After', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 1000, maxDelayMs: 3000, jitter: 0.5 });
+    const serverError = new ServerError('boom');
+
+    expect(computeRetryDelay(serverError, 1, policy, () => 0)).toBe(1000);
+    expect(computeRetryDelay(serverError, 2, policy, () => 1)).toBe(1000);
+    expect(computeRetryDelay(serverError, 5, policy, () => 0)).toBe(3000);
+
+    const rateLimited = new RateLimitError('wait', { retryAfterMs: 2500 });
+    expect(computeRetryDelay(rateLimited, 1, policy)).toBe(2500);
+    expect(computeRetryDelay(rateLimited, 1, { ...policy, respectRetryAfter: false }, () => 0)).toBe(1000);
+  });
+
+  test('computeRetryDelay should cap Retry-After at maxDelayMs', () => {
+    const policy = resolveRetryPolicy({ maxDelayMs: 3000 });
+
+    expect(computeRetryDelay(new RateLimitError('wait', { retryAfterMs: 3_600_000 }), 1, policy)).toBe(3000);
+    expect(computeRetryDelay(new ServerError('busy', { retryAfterMs: 7000 }), 2, policy)).toBe(3000);
+  });
+
+  test('withRetry should retry retryable errors and give up on others', async () => {
+    const transient = flakyProvider([new ServerError('500'), new RateLimitError('429')]);
+    await expect(withRetry(() => transient.chatCompletion({ model: 'deepseek', messages: [] }), fastPolicy))
+      .resolves.toBeDefined();
+    expect(transient.calls).toHaveLength(3);
+
+    const unauthorized = flakyProvider([new AuthenticationError('401')]);
+    await expect(withRetry(() => unauthorized.chatCompletion({ model: 'deepseek', messages: [] }), fastPolicy))
+      .rejects.toBeInstanceOf(AuthenticationError);
+    expect(unauthorized.calls).toHaveLength(1);
+  });
+
+  test('RoundManager should stop at maxAttempts', async () => {
+    const provider = flakyProvider(Array.from({ length: 4 }, () => new ServerError('down')));
+    const manager = new RoundManager(provider, { ...fastPolicy, maxAttempts: 2 });
+    const session = DebateSessionManager.createSession(createDefaultConfig('Retries', ['deepseek', 'gpt-5']));
+
+    const round = await manager.executeRound(session);
+
+    expect(provider.calls).toHaveLength(4);
+    expect(round.responses.every(response => response.error === 'Failed after 2 attempts: down')).toBe(true);
+  });
+
+  test('Moderator should retry before falling back', async () => {
+    const verdict = JSON.stringify({ isConverged: true, confidenceScore: 0.9, reasoning: 'Agreed' });
+    const provider = flakyProvider([new ServerError('down')], verdict);
+    const moderator = new Moderator(provider, 'deepseek', fastPolicy);
+    const rounds = [{ roundNumber: 1, responses: [{ model: 'deepseek', content: 'Yes', timestamp: new Date() }] }];
+
+    const assessment = await moderator.evaluateConvergence('Topic', rounds, 0.8);
+
+    expect(provider.calls).toHaveLength(2);
+    expect(assessment.isConverged).toBe(true);
+  });
+
+  test('validateDebateConfig should reject invalid retry policies', () => {
+    const config = { ...createDefaultConfig('Retry', ['deepseek', 'gpt-5']), retryPolicy: { maxAttempts: 0, jitter: 2 } };
+    const messages = validateDebateConfig(config).errors.filter(e => e.field === 'retryPolicy').map(e => e.message);
+    expect(messages).toEqual([
+      'retryPolicy.maxAttempts must be an integer of at least 1',
+      'retryPolicy.jitter must be between 0 and 1 inclusive'
+    ]);
+  });
+});
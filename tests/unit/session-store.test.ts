@@ -0,0 +1,192 @@
+/**
+ * Unit tests for the session stores
+ */
+
+import fs, { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createDefaultConfig } from '../../src/debate/config';
+import { DebateSession, DebateSessionManager, DebateStatus } from '../../src/debate/session';
+import {
+  createSessionStore,
+  FileSessionStore,
+  MemorySessionStore,
+  RetentionPolicy,
+  SessionStore,
+  SqliteSessionStore
+} from '../../src/debate/session-store';
+
+// node:sqlite only ships with Node.js 22.13 and later
+const hasSqlite = (() => {
+  try {
+    require('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date('2026-03-01T12:00:00.000Z');
+
+// Each store opened in a fresh temporary directory
+const stores: [string, (dir: string, retention?: RetentionPolicy) => SessionStore][] = [
+  ['MemorySessionStore', (_dir, retention) => new MemorySessionStore(retention)],
+  ['FileSessionStore', (dir, retention) => new FileSessionStore(path.join(dir, 'sessions'), retention)]
+];
+if (hasSqlite) {
+  stores.push(['SqliteSessionStore', (dir, retention) => new SqliteSessionStore(path.join(dir, 'sessions.db'), retention)]);
+}
+
+describe.each(stores)('%s', (_name, open) => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'session-store-'));
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Saves a session hoursLater hours after START
+  const save = (store: SessionStore, topic: string, status: DebateStatus, hoursLater: number): DebateSession => {
+    jest.setSystemTime(START.getTime() + hoursLater * HOUR);
+    const session = DebateSessionManager.createSession(createDefaultConfig(topic, ['deepseek', 'gpt-5']));
+    session.status = status;
+    store.update(session);
+    return session;
+  };
+
+  test('should create, update, copy and delete sessions', () => {
+    const store = open(dir);
+    const session = DebateSessionManager.createSession(createDefaultConfig('Tabs or spaces', ['deepseek', 'gpt-5']));
+
+    store.create(session);
+    expect(() => store.create(session)).toThrow(`Session ${session.id} already exists`);
+    expect(session.updatedAt).toEqual(START);
+
+    // Changes reach the store only when the session is saved
+    session.status = 'completed';
+    expect(store.get(session.id)?.status).toBe('pending');
+    store.update(session);
+    const stored = store.get(session.id)!;
+    expect(stored).toEqual(session);
+    expect(stored).not.toBe(session);
+
+    store.delete(session.id);
+    expect(store.get(session.id)).toBeUndefined();
+    expect(store.list()).toEqual([]);
+  });
+
+  test('list should filter by status, topic and update time, most recent first', () => {
+    const store = open(dir);
+    const tabs = save(store, 'Tabs or spaces', 'completed', 0);
+    const vim = save(store, 'Vim or Emacs', 'cancelled', 1);
+    const semicolons = save(store, 'Semicolons in JavaScript', 'completed', 2);
+
+    const ids = (sessions: DebateSession[]) => sessions.map(session => session.id);
+    expect(ids(store.list())).toEqual([semicolons.id, vim.id, tabs.id]);
+    expect(ids(store.list({ status: 'completed' }))).toEqual([semicolons.id, tabs.id]);
+    expect(ids(store.list({ status: ['cancelled', 'completed'], limit: 2 }))).toEqual([semicolons.id, vim.id]);
+    expect(ids(store.list({ topic: 'OR' }))).toEqual([vim.id, tabs.id]);
+    expect(ids(store.list({ updatedAfter: START, updatedBefore: new Date(START.getTime() + 2 * HOUR) }))).toEqual([vim.id]);
+    expect(store.list({ status: [] })).toEqual([]);
+  });
+
+  test('prune should delete expired and surplus sessions but keep the ones that can be continued', () => {
+    const store = open(dir, { ttlMs: 24 * HOUR, maxSessions: 2 });
+    const old = save(store, 'Old', 'completed', 0);
+    const running = save(store, 'Running', 'in_progress', 0);
+    const paused = save(store, 'Paused', 'paused', 0);
+    const surplus = save(store, 'Surplus', 'completed', 30);
+    const cancelled = save(store, 'Cancelled', 'cancelled', 31);
+    const recent = save(store, 'Recent', 'completed', 32);
+
+    expect(store.prune(new Date(START.getTime() + 33 * HOUR))).toBe(2);
+    expect(store.list().map(session => session.id).sort()).toEqual([running.id, paused.id, cancelled.id, recent.id].sort());
+    expect(store.get(old.id)).toBeUndefined();
+    expect(store.get(surplus.id)).toBeUndefined();
+  });
+
+  test('prune should keep everything without a retention policy', () => {
+    const store = open(dir);
+    save(store, 'Old', 'completed', 0);
+
+    expect(store.prune(new Date(START.getTime() + 1000 * HOUR))).toBe(0);
+    expect(store.list()).toHaveLength(1);
+  });
+});
+
+describe('FileSessionStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'session-store-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('update should write through a temporary file of its own each time', () => {
+    const writeFileSync = jest.spyOn(fs, 'writeFileSync');
+    const store = new FileSessionStore(dir);
+    const session = DebateSessionManager.createSession(createDefaultConfig('Tabs or spaces', ['deepseek', 'gpt-5']));
+
+    store.update(session);
+    store.update(session);
+
+    const [first, second] = writeFileSync.mock.calls.map(([file]) => String(file));
+    expect(first).toContain(`.${process.pid}.`);
+    expect(first).toMatch(/\.tmp$/);
+    expect(second).not.toBe(first);
+    expect(readdirSync(dir)).toEqual([`${session.id}.json`]);
+  });
+});
+
+describe('createSessionStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'session-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should open the store a specification names', () => {
+    expect(createSessionStore('memory')).toBeInstanceOf(MemorySessionStore);
+    expect(createSessionStore(`file:${dir}`)).toBeInstanceOf(FileSessionStore);
+  });
+
+  (hasSqlite ? test : test.skip)('should open SQLite stores on Node.js versions with node:sqlite', () => {
+    const store = createSessionStore(`sqlite:${path.join(dir, 'sessions.db')}`);
+
+    expect(store).toBeInstanceOf(SqliteSessionStore);
+    (store as SqliteSessionStore).close();
+  });
+
+  test('file stores in the same directory should share sessions', () => {
+    const session = DebateSessionManager.createSession(createDefaultConfig('Tabs or spaces', ['deepseek', 'gpt-5']));
+    createSessionStore(`file:${dir}`).create(session);
+
+    expect(createSessionStore(`file:${dir}`).get(session.id)).toEqual(session);
+  });
+
+  test('should reject unknown specifications', () => {
+    for (const spec of ['redis://localhost', 'file:', 'sqlite']) {
+      expect(() => createSessionStore(spec))
+        .toThrow(`Invalid session store "${spec}". Use memory, file:<directory> or sqlite:<database file>`);
+    }
+  });
+
+  (hasSqlite ? test.skip : test)('should explain that SQLite stores need a newer Node.js', () => {
+    expect(() => createSessionStore(`sqlite:${path.join(dir, 'sessions.db')}`))
+      .toThrow('SQLite session stores need node:sqlite (Node.js 22.13 or later)');
+  });
+});
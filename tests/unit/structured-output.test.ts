@@ -0,0 +1,104 @@
+/**
+ * Unit tests for structured output parsing and repair
+ */
+
+import { ChatRequest } from '../../src/debate/client';
+import { StructuredOutputError } from '../../src/debate/errors';
+import {
+  extractJsonObject,
+  parseStructuredOutput,
+  requestStructuredOutput,
+  stripCodeFences,
+  OutputSchema
+} from '../../src/debate/structured-output';
+import { Moderator } from '../../src/debate/moderator';
+import { ScriptedMockProvider } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { createDefaultConfig } from '../../src/debate/config';
+import { DebateRound } from '../../src/debate/session';
+import { CapturingProvider } from './helpers/capturing-provider';
+
+const schema: OutputSchema = {
+  isConverged: { type: 'boolean' },
+  reasoning: { type: 'string' },
+  questions: { type: 'string[]', optional: true }
+};
+
+const request: ChatRequest = { model: 'deepseek', messages: [{ role: 'user', content: 'Judge' }] };
+
+const rounds: DebateRound[] = [{
+  roundNumber: 1,
+  responses: [{ model: 'deepseek', content: 'Yes.', timestamp: new Date() }]
+}];
+
+describe('Structured output', () => {
+  test('extractJsonObject should find the object despite fences, prose and braces in strings', () => {
+    expect(stripCodeFences('```json\n{"a": 1}\n```')).toBe('{"a": 1}');
+    expect(extractJsonObject('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJsonObject('Using {braces} in prose: {"reasoning": "set {x} is {y}", "n": {"m": 2}} done'))
+      .toEqual({ reasoning: 'set {x} is {y}', n: { m: 2 } });
+    expect(() => extractJsonObject('no object {here')).toThrow('No JSON object found in response');
+  });
+
+  test('parseStructuredOutput should report every field that does not match the schema', () => {
+    expect(parseStructuredOutput('{"isConverged": true, "reasoning": "ok"}', schema)).toEqual({ isConverged: true, reasoning: 'ok' });
+
+    expect(() => parseStructuredOutput('{"isConverged": "yes", "questions": [1]}', schema))
+      .toThrow('isConverged must be a boolean; reasoning is missing; questions must be an array of strings');
+  });
+
+  test('requestStructuredOutput should ask the model once to repair an invalid answer', async () => {
+    const provider = new CapturingProvider(['{"isConverged": "maybe"}', '{"isConverged": false, "reasoning": "fixed"}']);
+
+    const result = await requestStructuredOutput(provider, request, { role: 'moderator', roundNumber: 1 }, schema);
+
+    expect(result.value).toEqual({ isConverged: false, reasoning: 'fixed' });
+    expect(result.diagnostics).toEqual([expect.objectContaining({
+      role: 'moderator',
+      model: 'deepseek',
+      stage: 'initial',
+      error: 'isConverged must be a boolean; reasoning is missing',
+      content: '{"isConverged": "maybe"}'
+    })]);
+    const repair = provider.calls[1].request.messages;
+    expect(repair.slice(-2)).toEqual([
+      { role: 'assistant', content: '{"isConverged": "maybe"}' },
+      { role: 'user', content: expect.stringContaining('Your response could not be used: isConverged must be a boolean') }
+    ]);
+    expect(provider.calls[1].options?.roundNumber).toBe(1);
+  });
+
+  test('requestStructuredOutput should give up after one repair with both diagnostics', async () => {
+    const provider = new CapturingProvider(['not json', 'still not json']);
+
+    const error = await requestStructuredOutput(provider, request, { role: 'moderator' }, schema).catch(e => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect((error as StructuredOutputError).diagnostics.map(d => [d.stage, d.content])).toEqual([
+      ['initial', 'not json'],
+      ['repair', 'still not json']
+    ]);
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  test('Moderator should read verdicts whose reasoning contains braces', async () => {
+    const verdict = 'Here is my verdict:\n```json\n{"isConverged": true, "confidenceScore": 0.9, "reasoning": "Both accept {a, b}"}\n```';
+    const moderator = new Moderator(new CapturingProvider([verdict]), 'deepseek');
+
+    const result = await moderator.assess('Topic', rounds, 0.8);
+
+    expect(result.assessment).toEqual({ isConverged: true, confidenceScore: 0.9, reasoning: 'Both accept {a, b}' });
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test('the orchestrator should record parse failures on the round', async () => {
+    const mock = new ScriptedMockProvider({ moderator: ['not json {', { isConverged: true, confidenceScore: 0.9, reasoning: 'Done' }] });
+    const orchestrator = new DebateOrchestrator(mock);
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(createDefaultConfig('Topic', ['deepseek', 'gpt-5'])));
+
+    expect(result.session.rounds[0].diagnostics!.map(d => d.stage)).toEqual(['initial', 'repair']);
+    expect(result.session.rounds[1].diagnostics).toBeUndefined();
+    expect(result.session.usage!.filter(r => r.role === 'moderator' && r.roundNumber === 1)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for structured synthesis output
+ */
+
+import { createDefaultConfig, validateDebateConfig, DebateConfig } from '../../src/debate/config';
+import { ScriptedMockProvider } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { Synthesizer, renderSynthesis, StructuredSynthesis } from '../../src/debate/synthesizer';
+import { describeSchema, validateAgainstSchema } from '../../src/debate/structured-output';
+import { DebateRound } from '../../src/debate/session';
+import { formatDebateHistory } from '../../src/debate/formatter';
+
+const synthesis: StructuredSynthesis = {
+  executiveSummary: 'Static typing pays off in large codebases.',
+  consensus: ['Types catch bugs early', '  '],
+  disagreements: [{
+    issue: 'Prototyping speed',
+    sides: [
+      { position: 'Types slow prototypes down', participants: ['gpt-5'] },
+      { position: 'Inference removes most of the cost', participants: ['deepseek'] }
+    ]
+  }],
+  minorityPositions: [{ participant: 'gpt-5', position: 'Scripts under 100 lines need no types' }],
+  nextSteps: ['Adopt strict mode', 'Measure defect rates'],
+  confidence: 1.2
+};
+
+const rounds: DebateRound[] = [{
+  roundNumber: 1,
+  responses: [
+    { model: 'deepseek', content: 'Typing helps.', timestamp: new Date() },
+    { model: 'gpt-5', content: 'Typing slows prototypes.', timestamp: new Date() }
+  ]
+}];
+
+describe('Structured synthesis', () => {
+  test('validateAgainstSchema should descend into arrays of objects', () => {
+    const schema = { sides: { type: 'object[]' as const, items: { position: { type: 'string' as const } } } };
+
+    expect(describeSchema(schema)).toBe('{"sides": [{"position": string}, ...]}');
+    expect(validateAgainstSchema({ sides: [{ position: 'a' }, { position: 1 }, {}] }, schema))
+      .toEqual(['sides[1].position must be a string', 'sides[2].position is missing']);
+    expect(validateAgainstSchema({ sides: ['a'] }, schema)).toEqual(['sides must be an array of objects']);
+  });
+
+  test('synthesizeStructured should clean up the object and render the answer from it', async () => {
+    const synthesizer = new Synthesizer(new ScriptedMockProvider({ synthesizer: synthesis }), 'deepseek');
+
+    const result = await synthesizer.synthesizeStructured('Static typing', rounds);
+
+    expect(result.synthesis!.consensus).toEqual(['Types catch bugs early']);
+    expect(result.synthesis!.confidence).toBe(1);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.answer).toBe(renderSynthesis(result.synthesis!));
+    expect(result.answer).toContain('## Open Disagreements\n\n### Prototyping speed\n\n- Types slow prototypes down (gpt-5)');
+    expect(result.answer).toContain('- **gpt-5**: Scripts under 100 lines need no types');
+    expect(result.answer).toContain('1. Adopt strict mode\n2. Measure defect rates');
+    expect(result.answer).toMatch(/\*\*Confidence:\*\* 100%$/);
+  });
+
+  test('renderSynthesis should leave out empty sections', () => {
+    const answer = renderSynthesis({ ...synthesis, consensus: [], disagreements: [], minorityPositions: [], nextSteps: [], confidence: 0.5 });
+
+    expect(answer).toBe('## Executive Summary\n\nStatic typing pays off in large codebases.\n\n**Confidence:** 50%');
+  });
+
+  test('synthesizeStructured should fall back to prose when the object cannot be repaired', async () => {
+    const synthesizer = new Synthesizer(new ScriptedMockProvider({ synthesizer: 'Both agents agree.' }), 'deepseek');
+
+    const result = await synthesizer.synthesizeStructured('Static typing', rounds);
+
+    expect(result.synthesis).toBeUndefined();
+    expect(result.answer).toBe('Both agents agree.');
+    expect(result.diagnostics.map(d => [d.role, d.stage])).toEqual([['synthesizer', 'initial'], ['synthesizer', 'repair']]);
+  });
+
+  test('the orchestrator should expose the structure on the result and in the history', async () => {
+    const mock = new ScriptedMockProvider({ synthesizer: synthesis });
+    const orchestrator = new DebateOrchestrator(mock);
+    const config: DebateConfig = {
+      ...createDefaultConfig('Static typing', ['deepseek', 'gpt-5']),
+      maxRounds: 1,
+      structuredSynthesis: true
+    };
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    expect(result.synthesis!.nextSteps).toEqual(['Adopt strict mode', 'Measure defect rates']);
+    expect(result.session.synthesis).toBe(result.synthesis);
+    expect(result.finalAnswer).toContain('## Executive Summary');
+    expect(formatDebateHistory(result)).toContain('--- STRUCTURED SYNTHESIS ---\n{\n  "executiveSummary"');
+  });
+
+  test('validateDebateConfig should reject a non-boolean structuredSynthesis', () => {
+    const config = { ...createDefaultConfig('Topic', ['deepseek', 'gpt-5']), structuredSynthesis: 'yes' as unknown as boolean };
+
+    expect(validateDebateConfig(config).errors.map(e => e.message)).toEqual(['structuredSynthesis must be a boolean']);
+  });
+});
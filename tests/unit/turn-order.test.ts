@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the turn order of agents within a round
+ */
+
+import { createDefaultConfig, validateDebateConfig, TurnOrder } from '../../src/debate/config';
+import { RoundManager } from '../../src/debate/round-manager';
+import { DebateEventEmitter } from '../../src/debate/events';
+import { AgentResponse, DebateSessionManager } from '../../src/debate/session';
+import { CapturedCall, CapturingProvider } from './helpers/capturing-provider';
+
+// The agent messages a request carried
+const agentContext = (call: CapturedCall) =>
+  call.request.messages.filter(m => m.content.startsWith('[Agent')).map(m => m.content);
+
+const runRounds = async (turnOrder: TurnOrder, rounds: number) => {
+  // Answers with the model name and counts the requests waiting for an answer
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const provider = new CapturingProvider(async request => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, 1));
+    inFlight--;
+    return `${request.model} speaks`;
+  });
+  const manager = new RoundManager(provider);
+  const session = DebateSessionManager.createSession({
+    ...createDefaultConfig('Turns', ['deepseek', 'gpt-5', 'grok-4-fast']),
+    turnOrder
+  });
+  const notified: AgentResponse[] = [];
+  const events = new DebateEventEmitter();
+  events.on('agent_response', event => notified.push(event.response));
+
+  for (let i = 0; i < rounds; i++) {
+    session.rounds.push(await manager.executeRound(session, events));
+  }
+  return { provider, session, notified, maxInFlight };
+};
+
+describe('Turn order', () => {
+  test('parallel should send all requests at once without same-round context', async () => {
+    const { provider, notified, maxInFlight } = await runRounds('parallel', 1);
+
+    expect(maxInFlight).toBe(3);
+    expect(provider.calls.every(call => agentContext(call).length === 0)).toBe(true);
+    expect(notified).toHaveLength(3);
+  });
+
+  test('sequential should show each agent the responses given earlier in the round', async () => {
+    const { provider, session, notified, maxInFlight } = await runRounds('sequential', 2);
+
+    expect(maxInFlight).toBe(1);
+    expect(provider.calls.slice(0, 3).map(agentContext)).toEqual([
+      [],
+      ['[Agent deepseek]: deepseek speaks'],
+      ['[Agent deepseek]: deepseek speaks', '[Agent gpt-5]: gpt-5 speaks']
+    ]);
+    expect(agentContext(provider.calls[3])).toEqual(['[Agent gpt-5]: gpt-5 speaks', '[Agent grok-4-fast]: grok-4-fast speaks']);
+    expect(session.rounds[1].responses.map(r => r.model)).toEqual(['deepseek', 'gpt-5', 'grok-4-fast']);
+    expect(notified.map(r => r.model)).toEqual(provider.calls.map(call => call.request.model));
+  });
+
+  test('round_robin_rotating should rotate the speaking order every round', async () => {
+    const { session, maxInFlight } = await runRounds('round_robin_rotating', 4);
+
+    expect(maxInFlight).toBe(1);
+    expect(session.rounds.map(round => round.responses[0].model)).toEqual(['deepseek', 'gpt-5', 'grok-4-fast', 'deepseek']);
+    expect(session.rounds[1].responses.map(r => r.model)).toEqual(['gpt-5', 'grok-4-fast', 'deepseek']);
+  });
+
+  test('validateDebateConfig should reject unknown turn orders', () => {
+    const config = { ...createDefaultConfig('Turns', ['deepseek', 'gpt-5']), turnOrder: 'random' as TurnOrder };
+    expect(validateDebateConfig(config).errors).toEqual([{
+      field: 'turnOrder',
+      message: 'Invalid turn order: random. Available: parallel, sequential, round_robin_rotating'
+    }]);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for token usage, cost accounting and budgets
+ */
+
+import { summarizeUsage, calculateCost, isBudgetExhausted, UsageRecord } from '../../src/debate/usage';
+import { ScriptedMockProvider } from '../../src/debate/mock-provider';
+import { DebateOrchestrator } from '../../src/debate/orchestrator';
+import { createDefaultConfig, validateDebateConfig } from '../../src/debate/config';
+import { formatDebateHistory } from '../../src/debate/formatter';
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  model: 'deepseek',
+  role: 'agent',
+  roundNumber: 1,
+  promptTokens: 100,
+  completionTokens: 50,
+  totalTokens: 150,
+  cost: 0,
+  ...overrides
+});
+
+describe('Usage accounting', () => {
+  test('calculateCost should use per-million prices and fall back to the unprefixed name', () => {
+    const pricing = { llama3: { inputPerMillion: 1, outputPerMillion: 2 } };
+    const usage = { prompt_tokens: 1_000_000, completion_tokens: 500_000, total_tokens: 1_500_000 };
+
+    expect(calculateCost('ollama:llama3', usage, pricing)).toBeCloseTo(2);
+    expect(calculateCost('deepseek', usage, pricing)).toBe(0);
+  });
+
+  test('summarizeUsage should break totals down by model, role and round', () => {
+    const summary = summarizeUsage([
+      record({ model: 'deepseek', roundNumber: 1, cost: 0.01 }),
+      record({ model: 'gpt-5', roundNumber: 1, cost: 0.02 }),
+      record({ model: 'deepseek', role: 'moderator', roundNumber: 1, totalTokens: 30 }),
+      record({ model: 'deepseek', role: 'synthesizer', roundNumber: undefined, totalTokens: 70 })
+    ]);
+
+    expect(summary.calls).toBe(4);
+    expect(summary.totalTokens).toBe(400);
+    expect(summary.cost).toBeCloseTo(0.03);
+    expect(summary.byModel['deepseek'].calls).toBe(3);
+    expect(summary.byRole.agent!.totalTokens).toBe(300);
+    expect(summary.byRole.synthesizer!.totalTokens).toBe(70);
+    expect(summary.byRound[1].calls).toBe(3);
+  });
+
+  test('isBudgetExhausted should check both limits', () => {
+    const summary = summarizeUsage([record({ cost: 0.5 })]);
+    expect(isBudgetExhausted(summary)).toBe(false);
+    expect(isBudgetExhausted(summary, { maxTokens: 150 })).toBe(true);
+    expect(isBudgetExhausted(summary, { maxTokens: 1000, maxCost: 1 })).toBe(false);
+    expect(isBudgetExhausted(summary, { maxCost: 0.5 })).toBe(true);
+  });
+
+  test('validateDebateConfig should reject non-positive budgets', () => {
+    const config = { ...createDefaultConfig('Budget', ['deepseek', 'gpt-5']), budget: { maxTokens: 0 } };
+    const result = validateDebateConfig(config);
+    expect(result.errors.some(e => e.field === 'budget' && e.message.includes('maxTokens'))).toBe(true);
+  });
+});
+
+describe('Budgeted debates', () => {
+  test('should stop with budget_exhausted and still synthesize', async () => {
+    const orchestrator = new DebateOrchestrator(new ScriptedMockProvider({ synthesizer: 'Budget synthesis' }));
+    const config = createDefaultConfig('A topic long enough to cost some tokens', ['deepseek', 'gpt-5']);
+    config.maxRounds = 5;
+    config.budget = { maxTokens: 1 };
+
+    const result = await orchestrator.runDebate(orchestrator.createSession(config));
+
+    expect(result.totalRounds).toBe(1);
+    expect(result.session.status).toBe('budget_exhausted');
+    expect(result.finalAnswer).toBe('Budget synthesis');
+
+    const summary = summarizeUsage(result.session.usage);
+    expect(summary.byRole.agent!.calls).toBe(2);
+    expect(summary.byRole.moderator).toBeUndefined();
+    expect(summary.byRole.synthesizer!.calls).toBe(1);
+
+    const formatted = formatDebateHistory(result);
+    expect(formatted).toContain('Stopped Early: budget exhausted');
+    expect(formatted).toContain('--- TOKEN USAGE ---');
+    expect(formatted).toContain(`Total: ${summary.totalTokens} tokens`);
+  });
+});